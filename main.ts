@@ -18,8 +18,19 @@ import {
 	TAbstractFile,
 	SplitDirection,
     MarkdownFileInfo,
+	Modal,
+	editorInfoField,
+	Component,
+	MarkdownRenderer,
+	arrayBufferToBase64,
+	Platform,
+	WorkspaceWindow,
+	getAllTags,
+	prepareFuzzySearch,
 	// setIcon, // 必要ならコメント解除
 } from 'obsidian';
+import { RangeSetBuilder, StateEffect, Extension } from '@codemirror/state';
+import { Decoration, DecorationSet, EditorView, ViewPlugin, ViewUpdate } from '@codemirror/view';
 
 // --- Utility Functions ---
 const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
@@ -30,9 +41,10 @@ const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(r
 interface CornellPluginSettings {
 	// From main.ts その1
 	cuePrefix: string;
-	lastMode: 'capture' | 'recall' | 'review' | 'show-all' | null; // 'show-all' を追加（または別の方法で管理）
-	lastFile: string | null; // Path of the SOURCE note
-	paneWidthRatio: { left: number, center: number, right: number };
+	cueStyle: CueStyle; // 選択範囲からCueを生成する際の既定の形式
+	quickCueAttachAt: QuickCueAttachPosition; // クイックキャプチャしたCueの参照を挿入する位置
+	openSessions: OpenCornellSession[]; // 開いているCornellレイアウト (読み込み時に復元)
+	paneWidthRatio: PaneWidthRatio;
 	enforceCuePreview: boolean; // Keep Cue pane in Preview mode
 
 	// From main.ts その2
@@ -44,6 +56,62 @@ interface CornellPluginSettings {
 	enableCueNoteNavigation: boolean; // コードブロックボタン: クリックでSource参照へナビゲート
     enableModifierClickHighlight: boolean; // コードブロックボタン: Ctrl/Cmd+クリックでSource参照をハイライト
     moveFootnotesToEnd: boolean; // Cue -> Source 同期時にSourceノートの脚注定義を末尾に移動するか
+    confirmAdditionsOnlySync: boolean; // 手動C->S同期: 定義の追加だけの場合も変更内容を確認するか
+    derivedNotesOnSourceDelete: DerivedNotesDeleteAction | 'ask'; // Source削除時のCue/Summaryノートの扱い
+    archiveFolder: string; // 'archive' 選択時にCue/Summaryノートを移動するフォルダ
+    cueNotePathTemplate: string; // Cueノートのパステンプレート ({{folder}}, {{basename}})
+    summaryNotePathTemplate: string; // Summaryノートのパステンプレート ({{folder}}, {{basename}})
+    storageMode: CornellStorageMode; // 既定の保存形式 (フロントマターでノートごとに上書き可能)
+    exportFolder: string; // エクスポート先フォルダ (空の場合はSourceノートと同じフォルダ)
+    exportPageSize: 'A4' | 'Letter'; // HTMLエクスポートの印刷用紙サイズ
+    customModes: CornellModeDefinition[]; // ユーザー定義モード
+    rememberPaneWidths: boolean; // 手動でリサイズしたペイン幅をモードごとに記憶するか
+    paneWidthsPerNote: boolean; // 記憶したペイン幅をノートごとに保存するか (falseの場合はモードごと)
+    modeWidthRatios: { [mode: string]: PaneWidthRatio }; // 手動リサイズから記憶したモードごとのペイン幅
+    followMode: boolean; // 中央ペインで別のSourceノートを開いたらCue/Summaryペインも追従するか
+    ankiFrontTemplate: string; // Ankiカード表面のテンプレート ({{sentence}}, {{ref}}, {{note}})
+}
+
+/** Cueの形式: 自由記述 / 質問と答え / 用語と説明 / キーワード */
+type CueStyle = 'free' | 'qa' | 'term' | 'keyword';
+
+/** 定義から読み取ったCueの構造 */
+interface StyledCue {
+    style: CueStyle;
+    prompt: string | null; // 質問・用語・キーワード (自由記述の場合はnull)
+    answer: string | null; // 答え・説明 (キーワードの場合はnull = Sourceの文が答え)
+}
+
+/** クイックキャプチャの参照挿入位置: カーソル位置 / 行末 / 段落末 */
+type QuickCueAttachPosition = 'cursor' | 'line-end' | 'paragraph-end';
+
+/** クイックキャプチャモーダルの結果: 新しいCueの内容、または再利用する既存の参照名 */
+type QuickCueResult = { kind: 'new', definition: string } | { kind: 'reuse', ref: string };
+
+/** Cue候補の種類 */
+type CueSuggestionKind = 'heading' | 'bold' | 'highlight' | 'definition-line' | 'list-item' | 'sentence';
+
+/** Sourceノートから見つけたCue候補 */
+interface CueSuggestion {
+    kind: CueSuggestionKind;
+    at: number; // 参照を挿入する位置 (候補範囲の直後)
+    span: string; // Cue化する本文 (参照の直前の文字列)
+    definition: string; // 提案する定義内容
+}
+
+/** Cornellノートの保存形式: 3ファイルに分割 / 1ファイル内の ## CUE, ## MAIN, ## SUMMARY セクション */
+type CornellStorageMode = 'separate' | 'single-file';
+
+/** 単一ファイルモードのセクション名 */
+type CornellSection = 'CUE' | 'MAIN' | 'SUMMARY';
+
+/** Source削除時にCue/Summaryノートに対して行う処理 */
+type DerivedNotesDeleteAction = 'delete' | 'archive' | 'keep';
+
+/** 削除されたSourceノートと、その残っているCue/Summaryノート */
+interface DeletedSourceNotes {
+    sourceName: string; // 削除されたSourceノートの名前
+    files: TFile[]; // 残っているCue/Summaryノート
 }
 
 /** 保存するノート関連情報 */
@@ -53,6 +121,174 @@ interface CornellNoteInfo {
     summaryPath: string | null; // 対応するSummaryノートのパス (存在しない場合はnull)
     lastSyncSourceToCue: number | null; // Source->Cueの最終同期時刻 (Unixタイムスタンプ)
     lastSyncCueToSource: number | null; // Cue->Sourceの最終同期時刻 (Unixタイムスタンプ)
+    baseDefinitions: { [ref: string]: string } | null; // 最終同期時に両ノートで一致していた定義 (3-way mergeのベース)
+    cueSpans: { [ref: string]: string }; // Cue生成時に選択されていたテキスト (Recall/Review中に隠す範囲)
+    widthRatios: { [mode: string]: PaneWidthRatio }; // 手動リサイズから記憶したこのノートのモードごとのペイン幅
+}
+
+/** ペイン幅の比率 (Cue:Source:Summary) */
+interface PaneWidthRatio {
+    left: number;
+    center: number;
+    right: number;
+}
+
+/** Source/Cueの双方で同じ定義が変更された衝突 (null = 削除) */
+interface DefinitionConflict {
+    ref: string;
+    base: string | null;
+    source: string | null;
+    cue: string | null;
+}
+
+/** Cue定義1件分のフラッシュカードの復習スケジュール (SM-2) */
+interface CueReviewCard {
+    id: string; // カードの固定ID (参照名の振り直し後も不変、Ankiエクスポートのguid)
+    ref: string; // 脚注参照名 (例: "cue1")
+    definition: string; // 最後に確認した定義内容 (参照名が振り直された場合の照合用)
+    ease: number; // 易しさ係数 (SM-2 の E-Factor)
+    interval: number; // 次回までの間隔 (日)
+    repetitions: number; // 連続で想起できた回数
+    due: number; // 次回の復習期限 (Unixタイムスタンプ)
+    lastReviewed: number | null; // 最終復習時刻 (未復習の場合はnull)
+}
+
+/** SM-2 の評価 (0-5, 3未満は想起失敗) */
+type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+/** 復習対象のCue */
+interface DueCue {
+    sourceFile: TFile;
+    card: CueReviewCard;
+    context: { before: string, after: string } | null; // Source内の最初の参照の前後の文
+}
+
+/** Cornellモードの定義 (組み込みモードとユーザー定義モードで共通) */
+interface CornellModeDefinition {
+    id: string; // モードID (コマンドIDにも使用)
+    name: string; // 表示名
+    panes: { [key in LeafPosition]?: 'source' | 'preview' }; // 表示するペインと表示モード (left=Cue, center=Source, right=Summary)
+    focus: LeafPosition; // モード有効化後にフォーカスするペイン
+    widthRatio: PaneWidthRatio | null; // ペイン幅の比率 (nullの場合は設定の既定値)
+    popout?: boolean; // ポップアウトウィンドウでレイアウトを開くか
+}
+
+/** Cornellレイアウト1つ分の状態 (Sourceノートごとに1つ、複数のレイアウトを同時に開ける) */
+interface CornellSession {
+    sourceFile: TFile; // レイアウトのSourceノート
+    mode: CornellMode; // 現在のモード
+    leaves: CornellLeaves; // 各ペインのリーフ
+    recallQuiz: RecallQuizSession | null; // Recallモードのクイズ (Recall以外ではnull)
+    clozeActive: boolean; // Sourceの Cue 箇所を隠しているか (Recall/Review)
+    revealedClozes: Set<string>; // クリックで表示済みの参照名
+    cuePaneEditable: boolean; // モードがCueペインを編集可能にしているか (enforceCuePreviewより優先)
+    appliedWidthRatio: PaneWidthRatio | null; // 最後に適用したペイン幅
+    popout: boolean; // レイアウトをポップアウトウィンドウに表示しているか
+}
+
+/** 各ペインのリーフ (left=Cue, center=Source, right=Summary) */
+type CornellLeaves = { [key in LeafPosition]: WorkspaceLeaf | null };
+
+/** 保存されるCornellレイアウト (読み込み時に復元) */
+interface OpenCornellSession {
+    file: string; // Sourceノートのパス
+    mode: CornellMode;
+    popout?: boolean; // ポップアウトウィンドウで開いていたか
+}
+
+/** Recallモードのクイズの状態 (モード有効中のみ保持) */
+interface RecallQuizSession {
+    sourcePath: string; // クイズ対象のSourceノートのパス
+    revealed: Set<string>; // 定義を表示済みの参照名
+    results: Map<string, 'remembered' | 'forgot'>; // 参照名ごとの自己採点結果
+}
+
+/** 同期ジャーナルに記録される書き込みのきっかけ */
+type SyncTrigger = 'sync-source-to-cue' | 'sync-cue-to-source' | 'generate-cue' | 'batch-sync' | 'integrity-fix' | 'renumber-cues';
+
+/** 1回の同期操作 (同じ操作の書き込みはまとめて取り消される) */
+interface SyncOperation {
+    id: string; // 操作ID
+    trigger: SyncTrigger;
+    dryRun?: boolean; // trueの場合は書き込まずに結果だけ返す
+    unjournaled?: boolean; // ジャーナルの容量を超えたため記録しない (元に戻せない) 操作
+}
+
+/** 1ノートの同期結果 */
+type SyncOutcome = 'created' | 'updated' | 'unchanged' | 'skipped' | 'error';
+
+/** 同期関数の戻り値 */
+interface SyncResult {
+    outcome: SyncOutcome;
+    detail: string | null; // スキップ理由やエラーメッセージ
+}
+
+/** 一括同期の設定 (スコープ選択モーダルで指定) */
+interface BatchSyncOptions {
+    direction: 'S->C' | 'C->S';
+    folder: string; // 対象フォルダ (空の場合は保管庫全体)
+    tag: string; // 対象タグ (空の場合は全て、例: "#lecture")
+    modifiedSince: number | null; // 同期元ノートがこの時刻以降に更新されたもののみ (nullの場合は全て)
+    dryRun: boolean; // 書き込まずに結果だけレポートするか
+}
+
+/** 一括同期レポートの1行 */
+interface BatchSyncReportEntry {
+    path: string; // 同期元ノートのパス
+    outcome: SyncOutcome;
+    detail: string | null;
+}
+
+/** 同期ジャーナルの1エントリ (1ファイルへの1回の書き込み) */
+interface SyncJournalEntry {
+    operationId: string; // 書き込みを行った操作のID
+    trigger: SyncTrigger;
+    path: string; // 書き込まれたファイルのパス
+    timestamp: number; // 書き込み時刻 (Unixタイムスタンプ)
+    beforeHash: string; // 書き込み前の内容のハッシュ
+    afterHash: string; // 書き込み後の内容のハッシュ
+    beforeContent: string; // 書き込み前の内容 (取り消し用)
+}
+
+/** C->S同期の変更確認: いつ確認モーダルを表示するか */
+type SyncPreviewMode = 'always' | 'destructive' | 'never';
+
+/** C->S同期の変更確認モーダルの選択 */
+type SyncPreviewAction = 'apply' | 'apply-keep-references' | 'cancel';
+
+/** C->S同期によるSourceノートの変更内容 */
+interface SourceSyncChanges {
+    addedDefinitions: string[]; // 追加される定義の参照名
+    changedDefinitions: string[]; // 内容が変わる定義の参照名
+    deletedDefinitions: string[]; // 削除される定義の参照名
+    removedReferences: string[]; // 本文から削除される参照名 (出現ごとに1つ)
+    movedDefinitions: string[]; // 内容は同じで位置だけ変わる定義の参照名
+    diff: string; // unified diff形式の変更内容
+}
+
+/** 行単位の差分の1行 */
+interface DiffLine {
+    type: ' ' | '-' | '+'; // 変更なし / 削除 / 追加
+    text: string;
+}
+
+/** 整合性チェックで見つかる問題の種類 */
+type IntegrityIssueKind = 'orphaned-derived' | 'missing-definition' | 'unreferenced-definition' | 'duplicate-definition' | 'missing-in-cue' | 'stale-map-entry' | 'stale-header-link';
+
+/** 整合性チェックで見つかった問題 */
+interface IntegrityIssue {
+    kind: IntegrityIssueKind;
+    path: string; // 問題のあるノートのパス (またはnoteInfoMapのキー)
+    description: string; // 問題の説明
+    fixLabel: string; // 修正ボタンのラベル
+    fix: () => Promise<void>; // ワンクリック修正
+}
+
+/** 作成するCueの下書き (generateCueなどからcreateCuesに渡す) */
+interface CueDraft {
+    at: EditorPosition; // Sourceノートで参照を挿入する位置
+    definition: string; // 定義内容
+    span: string | null; // Cue化した本文 (Recall/Review中に隠す範囲、無い場合はnull)
 }
 
 /** DebouncedFunction インターフェース */
@@ -87,8 +323,9 @@ interface ParsedReference extends Position {
 const DEFAULT_SETTINGS: Required<CornellPluginSettings> = {
 	// From main.ts その1
 	cuePrefix: 'cue',
-	lastMode: null,
-	lastFile: null,
+	cueStyle: 'free',
+	quickCueAttachAt: 'cursor',
+	openSessions: [],
 	paneWidthRatio: { left: 25, center: 50, right: 25 }, // Show All モードでは均等割り (33:34:33) に変更するかも？
 	enforceCuePreview: true,
 	// From main.ts その2
@@ -100,18 +337,43 @@ const DEFAULT_SETTINGS: Required<CornellPluginSettings> = {
 	enableCueNoteNavigation: true,
     enableModifierClickHighlight: true,
     moveFootnotesToEnd: true,
+    confirmAdditionsOnlySync: true,
+    derivedNotesOnSourceDelete: 'ask',
+    archiveFolder: 'Cornell Archive',
+    cueNotePathTemplate: '{{folder}}/{{basename}}-cue.md',
+    summaryNotePathTemplate: '{{folder}}/{{basename}}-summary.md',
+    storageMode: 'separate',
+    exportFolder: '',
+    exportPageSize: 'A4',
+    customModes: [],
+    rememberPaneWidths: true,
+    paneWidthsPerNote: false,
+    modeWidthRatios: {},
+    followMode: false,
+    ankiFrontTemplate: '{{sentence}}',
 };
 
 /** 内部定数 */
 const INTERNAL_SETTINGS = {
-	cueNoteSuffix: '-cue',
-	summaryNoteSuffix: '-summary',
 	syncDebounceTime: 1500,
-	batchSyncUpdateInterval: 50,
 	uiUpdateDelay: 250,
 	syncFlagReleaseDelay: 100,
     highlightDuration: 1500,
     codeBlockProcessorId: 'cornell-footnote-links',
+    storageModeFrontmatterKey: 'cornell-storage',
+    ankiExportFileName: 'cornell-anki-cues.tsv',
+    reviewInitialEase: 2.5,
+    reviewMinimumEase: 1.3,
+    reviewContextMaxLength: 300,
+    paneWidthCaptureDelay: 500,
+    paneWidthCaptureTolerance: 2, // Percentage points a pane must differ from the applied ratio to count as a manual resize
+    syncJournalMaxOperations: 20,
+    syncJournalMaxBytes: 2 * 1024 * 1024, // Stored before-states (counted in characters)
+    syncJournalFileName: 'sync-journal.json', // In the plugin folder, so before-states stay out of data.json
+    batchSyncConcurrency: 4,
+    diffMaxEdits: 2000, // Sync preview: larger changes are shown as a whole block removed and added
+    suggestionMinSentenceWords: 6, // Shorter sentences are not suggested as cues
+    suggestionMaxTermWords: 5, // Longer text before a colon is a sentence, not a term
 };
 
 // CSS Class for Cornell Panes
@@ -119,1131 +381,3194 @@ const CORNELL_PANE_CLASS = 'cornell-pane';
 const CORNELL_LEFT_PANE_CLASS = 'cornell-pane-left'; // Cue Pane
 const CORNELL_CENTER_PANE_CLASS = 'cornell-pane-center'; // Source Pane
 const CORNELL_RIGHT_PANE_CLASS = 'cornell-pane-right'; // Summary Pane
+const CORNELL_RECALL_QUIZ_CLASS = 'cornell-recall-quiz'; // Cue Pane while the Recall quiz runs
 
 // Leaf Position Type
 type LeafPosition = 'left' | 'center' | 'right';
 
-// Cornell Mode Type
-type CornellMode = 'capture' | 'recall' | 'review' | 'show-all';
+// Cornell Mode Types
+type BuiltInCornellMode = 'capture' | 'recall' | 'review' | 'show-all';
+type CornellMode = BuiltInCornellMode | string; // Built-in mode or the id of a user-defined mode
 
-// --- Main Plugin Class ---
-export default class CornellPlugin extends Plugin {
-	settings: CornellPluginSettings;
-	private isSwitchingMode: boolean = false;
-    // Track leaf OBJECTS directly for the current Cornell view
-	activeCornellLeaves: {
-		left: WorkspaceLeaf | null, // Cue
-		center: WorkspaceLeaf | null, // Source
-		right: WorkspaceLeaf | null // Summary
-	} = { left: null, center: null, right: null };
-    // The SOURCE file currently active in the Cornell view
-    private activeSourceFileForCornell: TFile | null = null;
+/** Built-in modes, described the same way as user-defined ones */
+const BUILT_IN_MODES: { [key in BuiltInCornellMode]: CornellModeDefinition } = {
+    'capture': { id: 'capture', name: 'Capture', panes: { left: 'preview', center: 'source' }, focus: 'center', widthRatio: null },
+    'recall': { id: 'recall', name: 'Recall', panes: { left: 'preview', right: 'source' }, focus: 'right', widthRatio: null },
+    'review': { id: 'review', name: 'Review', panes: { center: 'source', right: 'source' }, focus: 'right', widthRatio: null },
+    'show-all': { id: 'show-all', name: 'Show All', panes: { left: 'preview', center: 'source', right: 'source' }, focus: 'center', widthRatio: { left: 33, center: 34, right: 33 } },
+};
 
-    // Public accessor for checking if a Cornell mode is active
-    public hasActiveSourceFile(): boolean {
-        return this.activeSourceFileForCornell !== null;
+
+// --- Markdown Footnote Parser ---
+
+/**
+ * Collects the ranges of a Markdown document in which footnote syntax is literal text:
+ * frontmatter, fenced code blocks, math blocks, comments, inline code and inline math.
+ * Returned ranges are sorted by start offset.
+ */
+function findLiteralRanges(content: string): Position[] {
+    const ranges: Position[] = [];
+    const lines = content.split('\n');
+    const lineStarts: number[] = [];
+    let offset = 0;
+    for (const line of lines) {
+        lineStarts.push(offset);
+        offset += line.length + 1;
     }
-	private isEnforcingPreview: boolean = false; // Flag to prevent recursion for enforceCuePreview
+    const lineEnd = (lineIndex: number): number => lineStarts[lineIndex] + lines[lineIndex].length;
+    const lineIndexAt = (pos: number): number => {
+        let lo = 0, hi = lineStarts.length - 1;
+        while (lo < hi) {
+            const mid = (lo + hi + 1) >> 1;
+            if (lineStarts[mid] <= pos) lo = mid; else hi = mid - 1;
+        }
+        return lo;
+    };
+
+    // Inline constructs are only recognised inside a single paragraph [from, to)
+    const scanInline = (from: number, to: number): void => {
+        let k = from;
+        while (k < to) {
+            const ch = content[k];
+            if (ch === '\\') { k += 2; continue; }
+
+            if (ch === '`') {
+                let runLength = 1;
+                while (content[k + runLength] === '`') runLength++;
+                // A code span closes with a backtick run of exactly the same length
+                let search = k + runLength;
+                let close = -1;
+                while (search < to) {
+                    const next = content.indexOf('`', search);
+                    if (next === -1 || next >= to) break;
+                    let nextLength = 1;
+                    while (content[next + nextLength] === '`') nextLength++;
+                    if (nextLength === runLength) { close = next; break; }
+                    search = next + nextLength;
+                }
+                if (close !== -1) {
+                    ranges.push({ start: k, end: close + runLength });
+                    k = close + runLength;
+                } else {
+                    k += runLength;
+                }
+                continue;
+            }
 
-    // From main.ts その2
-	private debouncedSyncSourceToCue!: DebouncedFunction<[TFile]>;
-	private debouncedSyncCueToSource!: DebouncedFunction<[TFile]>;
-    private isSyncing: boolean = false;
-    private noteInfoMap: Map<string, CornellNoteInfo> = new Map();
-    private activeHighlightTimeout: NodeJS.Timeout | null = null;
+            if (ch === '$') {
+                if (content[k + 1] === '$') {
+                    const close = content.indexOf('$$', k + 2);
+                    if (close !== -1 && close < to) {
+                        ranges.push({ start: k, end: close + 2 });
+                        k = close + 2;
+                    } else {
+                        k += 2;
+                    }
+                    continue;
+                }
+                // Inline math: no whitespace just inside the delimiters, no digit right after the closing `$`
+                if (k + 1 < to && !/\s/.test(content[k + 1])) {
+                    let close = -1;
+                    for (let j = k + 1; j < to; j++) {
+                        if (content[j] === '\\') { j++; continue; }
+                        if (content[j] === '$' && !/\s/.test(content[j - 1]) && !/\d/.test(content[j + 1] ?? '')) {
+                            close = j;
+                            break;
+                        }
+                    }
+                    if (close !== -1) {
+                        ranges.push({ start: k, end: close + 1 });
+                        k = close + 1;
+                        continue;
+                    }
+                }
+                k++;
+                continue;
+            }
 
+            const commentCloser = content.startsWith('%%', k) ? '%%' : content.startsWith('<!--', k) ? '-->' : null;
+            if (commentCloser) {
+                const openLength = commentCloser === '%%' ? 2 : 4;
+                const close = content.indexOf(commentCloser, k + openLength);
+                const end = (close === -1 || close >= to) ? to : close + commentCloser.length;
+                ranges.push({ start: k, end });
+                k = end;
+                continue;
+            }
+            k++;
+        }
+    };
+
+    let i = 0;
+    // Frontmatter is only recognised at the very top of the file and must be closed
+    if (lines.length > 1 && /^---\s*$/.test(lines[0])) {
+        for (let j = 1; j < lines.length; j++) {
+            if (/^(?:---|\.\.\.)\s*$/.test(lines[j])) {
+                ranges.push({ start: 0, end: lineEnd(j) });
+                i = j + 1;
+                break;
+            }
+        }
+    }
 
-	async onload() {
-		console.log("Cornell Plugin: Loading Combined Plugin...");
-		await this.loadSettingsAndNoteInfo();
-		await this.initializeOrUpdateNoteInfoMap();
+    let paragraphStart: number | null = null; // Line index where the current paragraph started
+    const flushParagraph = (endLineExclusive: number): void => {
+        if (paragraphStart !== null && endLineExclusive > paragraphStart) {
+            scanInline(lineStarts[paragraphStart], lineEnd(endLineExclusive - 1));
+        }
+        paragraphStart = null;
+    };
+
+    while (i < lines.length) {
+        const line = lines[i];
+
+        // Fenced code block (``` or ~~~, also inside blockquotes and lists)
+        const fence = line.match(/^\s*(?:>\s*)*(`{3,}|~{3,})/);
+        if (fence) {
+            flushParagraph(i);
+            const marker = fence[1];
+            const closeRegex = new RegExp(`^\\s*(?:>\\s*)*\\${marker[0]}{${marker.length},}\\s*$`);
+            let j = i + 1;
+            while (j < lines.length && !closeRegex.test(lines[j])) j++;
+            const lastLine = Math.min(j, lines.length - 1); // Unclosed fences run to the end of the document
+            ranges.push({ start: lineStarts[i], end: lineEnd(lastLine) });
+            i = lastLine + 1;
+            continue;
+        }
 
-        // Initialize Debounce functions
-		this.debouncedSyncSourceToCue = debounce( this.syncSourceToCue, INTERNAL_SETTINGS.syncDebounceTime, true ) as DebouncedFunction<[TFile]>;
-		this.debouncedSyncCueToSource = debounce( this.syncCueToSource, INTERNAL_SETTINGS.syncDebounceTime, true ) as DebouncedFunction<[TFile]>;
+        // Math block or block comment opening a line; may span blank lines
+        const blockOpen = line.match(/^\s*(?:>\s*)*(\$\$|%%|<!--)/);
+        if (blockOpen) {
+            flushParagraph(i);
+            const opener = blockOpen[1];
+            const closer = opener === '<!--' ? '-->' : opener;
+            const openStart = lineStarts[i] + blockOpen[0].length - opener.length;
+            const close = content.indexOf(closer, openStart + opener.length);
+            const end = close === -1 ? content.length : close + closer.length;
+            ranges.push({ start: openStart, end });
+            const lastLine = lineIndexAt(Math.max(openStart, end - 1));
+            // Text after the closing delimiter on the same line is still prose
+            if (end < lineEnd(lastLine)) {
+                scanInline(end, lineEnd(lastLine));
+            }
+            i = lastLine + 1;
+            continue;
+        }
 
-		// --- Register Commands ---
-		this.addCommand({
-			id: 'cornell-capture-mode',
-			name: 'Cornell: Activate Capture Mode (Cue + Source)',
-			hotkeys: [{ modifiers: ["Alt"], key: "1" }],
-			callback: () => this.activateMode('capture')
-		});
-		this.addCommand({
-			id: 'cornell-recall-mode',
-			name: 'Cornell: Activate Recall Mode (Cue + Summary)',
-			hotkeys: [{ modifiers: ["Alt"], key: "2" }],
-			callback: () => this.activateMode('recall')
-		});
-		this.addCommand({
-			id: 'cornell-review-mode',
-			name: 'Cornell: Activate Review Mode (Source + Summary)',
-			hotkeys: [{ modifiers: ["Alt"], key: "3" }],
-			callback: () => this.activateMode('review')
-		});
-        // NEW: Show All Mode Command
-		this.addCommand({
-			id: 'cornell-show-all-mode',
-			name: 'Cornell: Activate Show All Mode (Cue + Source + Summary)',
-			hotkeys: [{ modifiers: ["Alt"], key: "4" }],
-			callback: () => this.activateMode('show-all') // Reuse activateMode with new type
-		});
-		this.addCommand({
-			id: 'cornell-generate-cue',
-			name: 'Cornell: Generate Cue from Selection (adds to Cue note)',
-			hotkeys: [{ modifiers: ["Alt"], key: "c" }],
-			editorCallback: (editor: Editor, view: MarkdownView) => {
-                // This command should only work when the Source pane (center) is active
-				if (view.file && this.isSourceNote(view.file.path)) {
-                    // Check if it's the center pane in an active Cornell setup
-                    let isCenterPane = false;
-                    if (this.activeCornellLeaves.center && this.activeCornellLeaves.center.view === view) {
-                        isCenterPane = true;
-                    }
-                    // Allow even if not in Cornell mode, as long as it's a source note
-					this.generateCue(editor, view);
-				} else {
-					new Notice("Cue generation works on the Source note. Activate the Source pane (usually center) or open the Source note.");
-				}
-			}
-		});
+        if (line.trim() === '') {
+            flushParagraph(i);
+        } else if (paragraphStart === null) {
+            paragraphStart = i;
+        }
+        i++;
+    }
+    flushParagraph(lines.length);
 
-        // Commands from main.ts その2
-        this.addCommand({
-			id: 'sync-source-to-cue-manually',
-			name: 'Cornell: Manual Sync: Source -> Cue',
-			editorCallback: (editor: Editor, view: MarkdownView) => this.manualSyncHandler(view, 'S->C')
-		});
-        this.addCommand({
-            id: 'sync-cue-to-source-manually',
-            name: 'Cornell: Manual Sync: Cue -> Source',
-            editorCheckCallback: (checking: boolean, editor: Editor, view: MarkdownView) => this.manualSyncHandler(view, 'C->S', checking)
-        });
-		this.addCommand({
-			id: 'sync-all-notes-source-to-cue',
-			name: 'Cornell: Sync All Notes (Source -> Cue)',
-			callback: async () => {
-				new Notice('Starting full sync (S->C) for all notes...', 3000);
-				await this.processAllNotesSourceToCue()
-				  .catch(err => { console.error('Error during full sync (S->C):', err); new Notice('Full sync (S->C) failed. See console.'); });
-			},
-		});
-		this.addCommand({
-			id: 'arrange-cornell-notes',
-			name: 'Cornell: Arrange Cornell Notes View',
-			editorCallback: (editor: Editor, view: MarkdownView) => {
-                const file = view.file;
-				if (file && this.isSourceNote(file.path)) {
-                    // Run from Source note
-					this.arrangeCornellNotesView(file, view.leaf)
-						.then(() => new Notice(`Arranged view for ${file.basename}. Cue/Summary notes created/opened if needed.`))
-						.catch(err => {
-							console.error(`Error arranging view for ${file.path}:`, err);
-							new Notice('Error arranging view. See console.');
-						});
-				} else if (file) {
-					new Notice('Run "Arrange Cornell Notes View" from the main Source note.');
-				} else {
-					new Notice('No active file to arrange view for.');
-				}
-            },
-		});
-		this.addCommand({
-			id: 'highlight-first-source-reference',
-			name: 'Cornell: Highlight First Reference in Source (from Cue def/button)',
-			editorCheckCallback: (checking: boolean, editor: Editor, view: MarkdownView) => {
-                if (view.file && this.isCueNote(view.file.path)) {
-					if (!checking) {
-						const cursor = editor.getCursor();
-						const currentLine = editor.getLine(cursor.line);
-						const defMatch = currentLine.match(/^\s*\[\^([^\]]+?)\]:/);
-                        const cbRefMatch = currentLine.match(/^\s*\[\^(\w+?)\]/); // Matches button text
-                        const ref = defMatch?.[1]?.trim() || cbRefMatch?.[1]?.trim();
-						if (ref) {
-							this.highlightFirstSourceReference(ref, view.file.path)
-								.catch(err => {
-									console.error(`Error highlighting source for ref [${ref}] via command from ${view.file?.path}:`, err);
-                                    new Notice(`Error highlighting ref [${ref}]. See console.`);
-								});
-						} else {
-                            new Notice("Place cursor on a footnote definition line ([^ref]:) or a button ([^ref]) in the Cue note.");
-						}
-					}
-					return true;
-				}
-				return false;
+    return ranges.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Tokenizer-based footnote parser. Returns only real footnote definitions and references,
+ * ignoring footnote syntax inside code, math, comments and frontmatter.
+ * Definitions may continue on following indented lines.
+ */
+function parseMarkdownFootnotes(content: string): { definitions: ParsedDefinition[], references: ParsedReference[] } {
+    const literalRanges = findLiteralRanges(content);
+    const isLiteral = (pos: number): boolean => {
+        let lo = 0, hi = literalRanges.length - 1;
+        while (lo <= hi) {
+            const mid = (lo + hi) >> 1;
+            const range = literalRanges[mid];
+            if (pos < range.start) hi = mid - 1;
+            else if (pos >= range.end) lo = mid + 1;
+            else return true;
+        }
+        return false;
+    };
+    const isEscaped = (pos: number): boolean => {
+        let backslashes = 0;
+        while (pos - backslashes - 1 >= 0 && content[pos - backslashes - 1] === '\\') backslashes++;
+        return backslashes % 2 === 1;
+    };
+
+    // --- Definitions ---
+    const definitions: ParsedDefinition[] = [];
+    const defLineRegex = /^(\s*)\[\^([^\]]+?)\]:[ \t]*(.*)$/;
+    const continuationRegex = /^(?: {2,}|\t)\s*\S/;
+    const lines = content.split('\n');
+    const lineStarts: number[] = [];
+    let offset = 0;
+    for (const line of lines) {
+        lineStarts.push(offset);
+        offset += line.length + 1;
+    }
+
+    for (let i = 0; i < lines.length; i++) {
+        const match = lines[i].match(defLineRegex);
+        if (!match) continue;
+        const labelPos = lineStarts[i] + match[1].length;
+        if (isLiteral(labelPos) || isEscaped(labelPos)) continue;
+
+        const bodyLines = [match[3]];
+        let lastLine = i;
+        let j = i + 1;
+        while (j < lines.length) {
+            if (continuationRegex.test(lines[j]) && !defLineRegex.test(lines[j])) {
+                // Blank lines belong to the definition only when followed by indented text
+                for (let k = lastLine + 1; k < j; k++) bodyLines.push('');
+                bodyLines.push(lines[j].replace(/^\s+/, ''));
+                lastLine = j;
+                j++;
+            } else if (lines[j].trim() === '') {
+                j++;
+            } else {
+                break;
             }
-		});
+        }
 
-		// FR-04: Restore Layout on Load
-		this.app.workspace.onLayoutReady(async () => {
-			if (this.settings.lastMode && this.settings.lastFile) {
-				const file = this.app.vault.getAbstractFileByPath(this.settings.lastFile);
-				if (file instanceof TFile && this.isSourceNote(file.path)) { // Ensure it's a source note
-					const modeToRestore = this.settings.lastMode;
-					const fileToRestore = file;
-					// Clear state immediately to prevent re-triggering
-					this.settings.lastMode = null;
-					this.settings.lastFile = null;
-					await this.saveData(); // Save cleared state
-
-					await sleep(1500); // Wait for workspace stability
-
-					if (!this.isSwitchingMode) {
-                        // Only restore 'capture', 'recall', 'review' modes automatically
-                        if (modeToRestore !== 'show-all') {
-						    try {
-                                // Activate mode using the source file
-							    await this.activateMode(modeToRestore, fileToRestore, true);
-							    console.log(`Cornell Plugin: Restore successful for ${fileToRestore.path} in ${modeToRestore} mode.`);
-						    } catch (error) {
-							    console.error("Cornell Plugin: Error during restore state activation:", error);
-                                // State already cleared
-						    }
-                        } else {
-                            console.log("Cornell Plugin: Skipping restore of 'show-all' mode.");
-                        }
-					} else {
-						console.log("Cornell Plugin: Mode switch already in progress during restore attempt.");
-					}
-				} else {
-					console.log(`Cornell Plugin: Restore cancelled - Source file not found or invalid: ${this.settings.lastFile}`);
-					this.settings.lastMode = null;
-					this.settings.lastFile = null;
-					await this.saveData();
-				}
-			} else {
-				// console.log("Cornell Plugin: No last state to restore.");
-			}
-		});
+        const start = lineStarts[i];
+        const end = lineStarts[lastLine] + lines[lastLine].length;
+        definitions.push({
+            ref: match[2].trim(),
+            definition: bodyLines.join('\n').trim(),
+            start,
+            end,
+            fullMatch: content.slice(start, end)
+        });
+        i = lastLine;
+    }
 
+    // --- References ---
+    const references: ParsedReference[] = [];
+    const refRegex = /\[\^([^\]]+?)\](?!:)/g;
+    let refMatch: RegExpExecArray | null;
+    while ((refMatch = refRegex.exec(content)) !== null) {
+        if (isLiteral(refMatch.index) || isEscaped(refMatch.index)) continue;
+        references.push({
+            ref: refMatch[1].trim(),
+            start: refMatch.index,
+            end: refMatch.index + refMatch[0].length,
+            fullMatch: refMatch[0]
+        });
+    }
 
-		// Add Settings Tab
-		this.addSettingTab(new CornellSettingTab(this.app, this));
+    return { definitions, references };
+}
 
-		// Enforce Cue Preview Mode (From main.ts その1)
-		this.registerEvent(this.app.workspace.on('active-leaf-change', async (leaf) => {
-            // Only enforce if the setting is on, it's the tracked left leaf, and not already enforcing
-			if (!this.settings.enforceCuePreview || this.isEnforcingPreview || !leaf || this.activeCornellLeaves.left !== leaf) {
-				return;
-			}
-			const view = leaf.view;
-			if (view instanceof MarkdownView && view.getMode() !== 'preview') {
-				this.isEnforcingPreview = true;
-				// console.log(`Cornell Plugin: Enforcing preview mode for Cue pane.`);
-				try {
-					await this.setMarkdownViewMode(view, 'preview');
-                    await sleep(50); // Give it time to render
-				} catch (error) {
-					console.error("Error enforcing preview mode:", error);
-				} finally {
-					setTimeout(() => this.isEnforcingPreview = false, 200); // Prevent rapid re-triggering
-				}
-			}
-		}));
+/** Formats a footnote definition, indenting continuation lines so multi-line definitions survive re-parsing */
+function formatFootnoteDefinition(ref: string, definition: string): string {
+    const [firstLine, ...rest] = definition.split('\n');
+    const continuation = rest.map(line => line.trim() === '' ? '' : `    ${line}`);
+    return [`[^${ref}]: ${firstLine}`, ...continuation].join('\n');
+}
 
-        // Register file modification handler for auto-sync (From main.ts その2)
-		this.registerEvent(this.app.vault.on('modify', this.handleFileModifyForAutoSync));
+/** Renames footnote references and definition labels (ranges from the parser, so literal text is left alone) */
+function renameFootnoteRefs(content: string, mapping: Map<string, string>): string {
+    const { definitions, references } = parseMarkdownFootnotes(content);
+    const edits: { start: number, end: number, text: string }[] = [];
+    references.forEach(ref => {
+        const to = mapping.get(ref.ref);
+        if (to !== undefined) edits.push({ start: ref.start, end: ref.end, text: `[^${to}]` });
+    });
+    definitions.forEach(def => {
+        const to = mapping.get(def.ref);
+        if (to === undefined) return;
+        const labelStart = content.indexOf('[^', def.start);
+        const labelEnd = content.indexOf(']:', labelStart) + 1;
+        edits.push({ start: labelStart, end: labelEnd, text: `[^${to}]` });
+    });
+    let result = content;
+    edits.sort((a, b) => b.start - a.start).forEach(edit => {
+        result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+    });
+    return result;
+}
 
-        // Register custom code block processor (From main.ts その2)
-        this.registerMarkdownCodeBlockProcessor(
-            INTERNAL_SETTINGS.codeBlockProcessorId,
-            this.cornellLinksCodeBlockProcessor
-        );
-
-		// Save settings when unloading
-		this.register(async () => {
-			if (!this.isSwitchingMode && !this.isSyncing) { // Avoid saving intermediate state
-				await this.saveData();
-			}
-		});
+/**
+ * New names for the numbered cues (`prefix` + number) in order of first reference; cues that are only defined come after,
+ * in their current numeric order. Returns only the refs whose name changes.
+ */
+function computeReadingOrderRefs(referencedRefs: string[], definedRefs: string[], prefix: string): Map<string, string> {
+    const numberOf = (ref: string): number | null => {
+        if (!ref.startsWith(prefix)) return null;
+        const digits = ref.slice(prefix.length);
+        return /^\d+$/.test(digits) ? parseInt(digits, 10) : null;
+    };
+    const ordered = Array.from(new Set(referencedRefs.filter(ref => numberOf(ref) !== null)));
+    const unreferenced = Array.from(new Set(definedRefs.filter(ref => numberOf(ref) !== null && !ordered.includes(ref))))
+        .sort((a, b) => (numberOf(a) ?? 0) - (numberOf(b) ?? 0));
+    const mapping = new Map<string, string>();
+    [...ordered, ...unreferenced].forEach((ref, index) => {
+        const renamed = `${prefix}${index + 1}`;
+        if (renamed !== ref) mapping.set(ref, renamed);
+    });
+    return mapping;
+}
 
-		console.log("Cornell Plugin: Loaded successfully (Combined).");
-	}
 
-	onunload() {
-		console.log("Cornell Plugin: Unloading Combined Plugin...");
-        // Save state before clearing IF a mode was active
-		if (this.settings.lastMode && this.settings.lastFile) {
-            // No need to explicitly save here, register(this.saveData) should handle it unless quitting immediately.
-		}
-		this.clearCornellState(true); // Detach leaves on unload
-        this.debouncedSyncSourceToCue?.cancel();
-		this.debouncedSyncCueToSource?.cancel();
-        if (this.activeHighlightTimeout) { clearTimeout(this.activeHighlightTimeout); this.activeHighlightTimeout = null; }
-        console.log("Cornell Plugin: Unloaded.");
-	}
+// --- Three-way Merge ---
+
+/**
+ * Per-definition three-way merge of Source and Cue definitions against the last synced base.
+ * A side that still matches the base takes the other side's change (including deletion).
+ * Without a base, definitions present on only one side are kept and differing ones conflict,
+ * unless `preferWithoutBase` names the side that wins them.
+ */
+function mergeFootnoteDefinitions(
+    base: Map<string, string> | null,
+    source: Map<string, string>,
+    cue: Map<string, string>,
+    preferWithoutBase: 'source' | 'cue' | null = null
+): { merged: Map<string, string>, conflicts: DefinitionConflict[] } {
+    const merged = new Map<string, string>();
+    const conflicts: DefinitionConflict[] = [];
+    const allRefs = new Set<string>([...(base?.keys() ?? []), ...source.keys(), ...cue.keys()]);
+
+    for (const ref of allRefs) {
+        const baseDef = base?.get(ref) ?? null;
+        const sourceDef = source.get(ref) ?? null;
+        const cueDef = cue.get(ref) ?? null;
+
+        let result: string | null;
+        if (sourceDef === cueDef) {
+            result = sourceDef;
+        } else if (base && sourceDef === baseDef) {
+            result = cueDef; // Only the Cue changed
+        } else if (base && cueDef === baseDef) {
+            result = sourceDef; // Only the Source changed
+        } else if (!base && (sourceDef === null || cueDef === null)) {
+            result = sourceDef ?? cueDef; // No history: never drop a one-sided definition
+        } else if (!base && preferWithoutBase) {
+            result = preferWithoutBase === 'source' ? sourceDef : cueDef;
+        } else {
+            conflicts.push({ ref, base: baseDef, source: sourceDef, cue: cueDef });
+            continue;
+        }
+        if (result !== null) merged.set(ref, result);
+    }
+    return { merged, conflicts };
+}
 
-	// --- Data Loading/Saving (Combined) ---
-    async loadSettingsAndNoteInfo() {
-        const savedData = await this.loadData();
-        const loadedSettings = savedData?.settings ?? {};
-        this.settings = Object.assign({}, DEFAULT_SETTINGS, loadedSettings);
+// --- Note Path Templates ---
 
-        // Migrate/Clean old settings if necessary
-        ['captureHotkey', 'recallHotkey', 'reviewHotkey', 'generateCueHotkey', 'someOtherOldSetting', 'showReferencesInCue'].forEach(key => {
-            if ((this.settings as any)[key] !== undefined) delete (this.settings as any)[key];
-        });
+/** A path template compiled for matching, with the capture group of each variable */
+interface CompiledPathTemplate {
+    regex: RegExp;
+    folderGroup: number | null;
+    basenameGroup: number | null;
+}
 
-        // Type checking for settings (using defaults as fallback)
-        for (const key in DEFAULT_SETTINGS) {
-            if (typeof this.settings[key as keyof CornellPluginSettings] !== typeof DEFAULT_SETTINGS[key as keyof CornellPluginSettings]) {
-                if (key !== 'lastMode' && key !== 'lastFile' && key !== 'paneWidthRatio') { // Allow null/object for these
-                     console.warn(`Cornell Setting: Type mismatch for '${key}', reverting to default.`);
-                     (this.settings as any)[key] = DEFAULT_SETTINGS[key as keyof CornellPluginSettings];
-                }
-            }
-        }
-        // Specific checks for complex types
-        if (typeof this.settings.paneWidthRatio !== 'object' || !this.settings.paneWidthRatio || !('left' in this.settings.paneWidthRatio)) {
-            this.settings.paneWidthRatio = DEFAULT_SETTINGS.paneWidthRatio;
-        }
-        // Ensure lastMode is valid or null
-        const validModes: Array<CornellMode | null> = ['capture', 'recall', 'review', 'show-all', null];
-        if (!validModes.includes(this.settings.lastMode)) {
-            this.settings.lastMode = null;
-        }
+/** Normalizes a path template: no leading slash, always ends with .md */
+function normalizePathTemplate(template: string): string {
+    let normalized = template.trim().replace(/^\/+/, '').replace(/\/{2,}/g, '/');
+    if (!normalized.toLowerCase().endsWith('.md')) normalized += '.md';
+    return normalized;
+}
 
+/** Expands a path template ({{folder}}, {{basename}}) for a Source note */
+function expandPathTemplate(template: string, folder: string, basename: string): string {
+    const expanded = normalizePathTemplate(template)
+        .split('{{folder}}').join(folder)
+        .split('{{basename}}').join(basename);
+    return normalizePath(expanded);
+}
 
-        // Load NoteInfoMap
-        this.noteInfoMap = new Map<string, CornellNoteInfo>();
-        if (savedData?.noteInfoMap && typeof savedData.noteInfoMap === 'object') {
-            try {
-                for (const [key, value] of Object.entries(savedData.noteInfoMap)) {
-                    if (this.isValidCornellNoteInfo(key, value)) {
-                        this.noteInfoMap.set(key, value as CornellNoteInfo);
-                    } else {
-                        console.warn("Invalid NoteInfo data found during load for key:", key, "Data:", value);
-                    }
-                }
-                console.log(`Cornell Plugin: Loaded ${this.noteInfoMap.size} entries into noteInfoMap.`);
-            } catch (e) {
-                console.error("Cornell Plugin: Failed to deserialize noteInfoMap:", e);
-                this.noteInfoMap = new Map();
-            }
+/** Compiles a path template into a regex that recognises expanded paths. An empty {{folder}} collapses with its slash. */
+function compilePathTemplate(template: string): CompiledPathTemplate {
+    const tokens = normalizePathTemplate(template).split(/(\{\{folder\}\}\/?|\{\{basename\}\})/);
+    let pattern = '^';
+    let groupCount = 0;
+    let folderGroup: number | null = null;
+    let basenameGroup: number | null = null;
+    for (const token of tokens) {
+        if (token.startsWith('{{folder}}')) {
+            if (folderGroup !== null) { pattern += token.endsWith('/') ? `(?:\\${folderGroup}/)?` : `\\${folderGroup}`; continue; }
+            folderGroup = ++groupCount;
+            pattern += token.endsWith('/') ? '(?:(.+)/)?' : '(.*)';
+        } else if (token === '{{basename}}') {
+            if (basenameGroup !== null) { pattern += `\\${basenameGroup}`; continue; }
+            basenameGroup = ++groupCount;
+            pattern += '([^/]+)';
         } else {
-            console.log("Cornell Plugin: No valid saved noteInfoMap found, initializing empty map.");
+            pattern += token.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
         }
     }
+    return { regex: new RegExp(pattern + '$'), folderGroup, basenameGroup };
+}
 
-    private isValidCornellNoteInfo(key: any, value: any): boolean {
-         return typeof key === 'string' &&
-               typeof value === 'object' && value !== null &&
-               'sourcePath' in value && typeof value.sourcePath === 'string' &&
-               'cuePath' in value && (value.cuePath === null || typeof value.cuePath === 'string') &&
-               'summaryPath' in value && (value.summaryPath === null || typeof value.summaryPath === 'string') &&
-               'lastSyncSourceToCue' in value && (value.lastSyncSourceToCue === null || typeof value.lastSyncSourceToCue === 'number') &&
-               'lastSyncCueToSource' in value && (value.lastSyncCueToSource === null || typeof value.lastSyncCueToSource === 'number');
+/** Returns an error message if the Cue/Summary templates cannot be told apart from each other or from Source notes */
+function validatePathTemplates(cueTemplate: string, summaryTemplate: string): string | null {
+    const cue = normalizePathTemplate(cueTemplate);
+    const summary = normalizePathTemplate(summaryTemplate);
+    if (!cue.includes('{{basename}}') || !summary.includes('{{basename}}')) {
+        return 'Both templates must contain {{basename}}.';
     }
+    if (cue.toLowerCase() === summary.toLowerCase()) {
+        return 'Cue and Summary templates must differ.';
+    }
+    const sourceLike = '{{folder}}/{{basename}}.md';
+    if (cue.toLowerCase() === sourceLike || summary.toLowerCase() === sourceLike) {
+        return 'A template must differ from the Source note path ({{folder}}/{{basename}}.md).';
+    }
+    return null;
+}
 
-	async saveData() {
-        const serializableMap: { [key: string]: CornellNoteInfo } = {};
-        for (const [key, value] of this.noteInfoMap.entries()) {
-            serializableMap[key] = value;
+// --- Single-file Cornell Notes ---
+
+/** Offsets of a `## CUE` / `## MAIN` / `## SUMMARY` section. The body runs from the end of the heading line to the next level-1/2 heading. */
+function findCornellSection(content: string, section: CornellSection): { headingStart: number, headingEnd: number, end: number } | null {
+    const literalRanges = findLiteralRanges(content);
+    const isLiteral = (pos: number) => literalRanges.some(r => pos >= r.start && pos < r.end);
+    const headingRegex = new RegExp(`^##\\s*${section}\\b.*$`, 'gim');
+    let match: RegExpExecArray | null;
+    while ((match = headingRegex.exec(content)) !== null) {
+        if (isLiteral(match.index)) continue;
+        const headingStart = match.index;
+        const headingEnd = match.index + match[0].length;
+        return { headingStart, headingEnd, end: findNextHeading(content, headingEnd, isLiteral) };
+    }
+    return null;
+}
+
+/** Offset of the next level-1/2 heading at or after `from` (outside code), or the end of the content */
+function findNextHeading(content: string, from: number, isLiteral: (pos: number) => boolean): number {
+    const nextHeadingRegex = /^#{1,2}\s.*$/gm;
+    nextHeadingRegex.lastIndex = from;
+    let next: RegExpExecArray | null;
+    while ((next = nextHeadingRegex.exec(content)) !== null) {
+        if (!isLiteral(next.index)) return next.index;
+    }
+    return content.length;
+}
+
+/**
+ * Headings to insert for missing `## CUE` / `## MAIN` / `## SUMMARY` sections, as offsets into `content`.
+ * A note without any section becomes the MAIN section. `trailing` insertions go after text ending at their offset.
+ */
+function cornellSectionInsertions(content: string): { offset: number, text: string, trailing: boolean }[] {
+    const frontmatter = content.match(/^---\n[\s\S]*?\n(?:---|\.\.\.)[ \t]*(?:\n|$)/);
+    const bodyOffset = frontmatter ? frontmatter[0].length : 0;
+    const cue = findCornellSection(content, 'CUE');
+    const hasMain = findCornellSection(content, 'MAIN') !== null;
+    const hasSummary = findCornellSection(content, 'SUMMARY') !== null;
+    const insertions: { offset: number, text: string, trailing: boolean }[] = [];
+    // Text before a new heading must end in a blank line
+    const separatorAt = (offset: number) => {
+        if (offset <= bodyOffset || insertions.some(ins => ins.offset === offset)) return '';
+        const newlines = /\n*$/.exec(content.slice(bodyOffset, offset))?.[0].length ?? 0;
+        return '\n'.repeat(Math.max(0, 2 - newlines));
+    };
+
+    if (!cue) {
+        insertions.push({ offset: bodyOffset, text: '## CUE\n\n', trailing: false });
+    }
+    if (!hasMain) {
+        let offset = bodyOffset;
+        if (cue) {
+            offset = cue.end;
+        } else if (hasSummary) {
+            // The new CUE section runs up to the next heading
+            const literalRanges = findLiteralRanges(content);
+            offset = findNextHeading(content, bodyOffset, pos => literalRanges.some(r => pos >= r.start && pos < r.end));
         }
-        // Save both settings and note info map
-        await super.saveData({ settings: this.settings, noteInfoMap: serializableMap });
-	}
+        insertions.push({ offset, text: `${separatorAt(offset)}## MAIN\n\n`, trailing: false });
+    }
+    if (!hasSummary) {
+        insertions.push({ offset: content.length, text: `${separatorAt(content.length)}## SUMMARY\n`, trailing: true });
+    }
+    return insertions;
+}
 
-    async saveSettings() { // Primarily for use by the settings tab
-        await this.saveData();
+/** Adds missing `## CUE` / `## MAIN` / `## SUMMARY` headings. Existing content is kept; a note without any becomes the MAIN section. */
+function ensureCornellSectionsInContent(content: string): string {
+    let result = '';
+    let last = 0;
+    for (const ins of cornellSectionInsertions(content)) {
+        result += content.slice(last, ins.offset) + ins.text;
+        last = ins.offset;
     }
+    return result + content.slice(last);
+}
 
-	// --- NoteInfoMap Initialization/Update (From main.ts その2) ---
-    async initializeOrUpdateNoteInfoMap() {
-        console.log("[Cornell Plugin] Initializing or updating Note Info Map...");
-        const allMarkdownFiles = this.app.vault.getMarkdownFiles();
-        const currentMapKeys = new Set(this.noteInfoMap.keys());
-        let added = 0, updated = 0, removed = 0;
-        let mapChanged = false;
+/**
+ * Moves every footnote definition of a single-file Cornell note into its `## CUE` section,
+ * sorted and followed by the links code block. Other CUE content stays in place.
+ * A definition inside the CUE section wins over a duplicate elsewhere.
+ */
+function buildSingleFileCueContent(content: string): string {
+    const cue = findCornellSection(content, 'CUE');
+    if (!cue) return content;
+    const { definitions } = parseMarkdownFootnotes(content);
+    const isInCue = (def: ParsedDefinition) => def.start >= cue.headingEnd && def.end <= cue.end;
+
+    const finalDefinitions = new Map<string, string>();
+    definitions.filter(def => !isInCue(def)).forEach(def => finalDefinitions.set(def.ref, def.definition));
+    definitions.filter(isInCue).forEach(def => finalDefinitions.set(def.ref, def.definition));
+
+    // Remove definitions (plus their line break) from a slice of the content
+    const removeDefinitions = (from: number, to: number): string => {
+        let text = content.slice(from, to);
+        definitions
+            .filter(def => def.start >= from && def.end <= to)
+            .sort((a, b) => b.start - a.start)
+            .forEach(def => {
+                const start = def.start - from;
+                let end = def.end - from + (text[def.end - from] === '\n' ? 1 : 0);
+                // Don't leave a double blank line where a blank-line separated definition was
+                if (text[end] === '\n' && (start === 0 || text.slice(start - 2, start) === '\n\n')) end++;
+                text = text.slice(0, start) + text.slice(end);
+            });
+        return text;
+    };
+
+    const codeBlockRegex = new RegExp(`^\`\`\`${INTERNAL_SETTINGS.codeBlockProcessorId}[^\\n]*\\n(?:[^\\n]*\\n)*?\`\`\`[ \\t]*$`, 'm');
+    const otherCueContent = removeDefinitions(cue.headingEnd, cue.end).replace(codeBlockRegex, '').trim();
+
+    const parts: string[] = [];
+    if (otherCueContent) parts.push(otherCueContent.replace(/\n{3,}/g, '\n\n'));
+    if (finalDefinitions.size > 0) {
+        parts.push(Array.from(finalDefinitions.entries())
+            .sort((a, b) => a[0].localeCompare(b[0], undefined, { numeric: true, sensitivity: 'base' }))
+            .map(([ref, def]) => formatFootnoteDefinition(ref, def))
+            .join('\n\n'));
+        parts.push(`\`\`\`${INTERNAL_SETTINGS.codeBlockProcessorId}\n\`\`\``);
+    }
+    const isLastSection = cue.end === content.length;
+    const cueBody = (parts.length > 0 ? '\n\n' + parts.join('\n\n') : '') + (isLastSection ? '\n' : '\n\n');
 
-        await Promise.all(allMarkdownFiles.map(async file => {
-            if (!this.isSourceNote(file.path)) return; // Only process Source notes
+    return removeDefinitions(0, cue.headingEnd) + cueBody + removeDefinitions(cue.end, content.length);
+}
 
-            const sourcePath = file.path;
-            const expectedCuePath = this.getCueNotePath(file);
-            const expectedSummaryPath = this.getSummaryNotePath(file);
+// --- Cue Note Structure ---
 
-            const cueFile = this.app.vault.getAbstractFileByPath(expectedCuePath);
-            const summaryFile = this.app.vault.getAbstractFileByPath(expectedSummaryPath);
-            const actualCuePath = cueFile instanceof TFile ? cueFile.path : null;
-            const actualSummaryPath = summaryFile instanceof TFile ? summaryFile.path : null;
+/** Refs in the order a reader meets them in the Source: referenced ones first, then definitions without a reference */
+function sourceRefOrder(content: string): string[] {
+    const { definitions, references } = parseMarkdownFootnotes(content);
+    return Array.from(new Set([...references.map(ref => ref.ref), ...definitions.map(def => def.ref)]));
+}
 
-            const currentInfo = this.noteInfoMap.get(sourcePath);
-            if (currentInfo) {
-                let infoNeedsUpdate = false;
-                if (currentInfo.cuePath !== actualCuePath) {
-                    currentInfo.cuePath = actualCuePath;
-                    infoNeedsUpdate = true;
-                }
-                if (currentInfo.summaryPath !== actualSummaryPath) {
-                    currentInfo.summaryPath = actualSummaryPath;
-                    infoNeedsUpdate = true;
-                }
-                if (infoNeedsUpdate) {
-                    updated++;
-                    this.noteInfoMap.set(sourcePath, currentInfo);
-                    mapChanged = true;
-                }
-                currentMapKeys.delete(sourcePath);
-            } else {
-                const newInfo: CornellNoteInfo = {
-                    sourcePath,
-                    cuePath: actualCuePath,
-                    summaryPath: actualSummaryPath,
-                    lastSyncSourceToCue: null,
-                    lastSyncCueToSource: null
-                };
-                this.noteInfoMap.set(sourcePath, newInfo);
-                added++;
-                mapChanged = true;
-            }
-        }));
+/** Inserts a block of lines at a line boundary, separated from its neighbours by one blank line */
+function insertBlock(content: string, at: number, text: string): string {
+    const before = content.slice(0, at);
+    const after = content.slice(at);
+    const lead = before === '' || before.endsWith('\n\n') ? '' : before.endsWith('\n') ? '\n' : '\n\n';
+    const trail = after.trim() === '' ? (after ? '' : '\n') : after.startsWith('\n\n') ? '' : after.startsWith('\n') ? '\n' : '\n\n';
+    return before + lead + text + trail + after;
+}
 
-        for (const deletedSourcePath of currentMapKeys) {
-            if (this.noteInfoMap.delete(deletedSourcePath)) {
-                removed++;
-                mapChanged = true;
-            }
+/** Removes the lines [start, end) without leaving a double blank line (or trailing blank lines) behind */
+function removeBlock(content: string, start: number, end: number): string {
+    let before = content.slice(0, start);
+    let after = content.slice(end).replace(/^\n/, '');
+    if ((before === '' || before.endsWith('\n\n')) && after.startsWith('\n')) after = after.replace(/^\n+/, '');
+    if (after.trim() === '') {
+        before = before.replace(/\n+$/, '\n');
+        after = '';
+    }
+    return before + after;
+}
+
+/**
+ * Brings a Cue note up to date with the given definitions, leaving everything else as the user arranged it:
+ * changed definitions are rewritten in place, deleted (and repeated) ones removed, and new ones inserted next to
+ * their neighbours in Source order. Also keeps the link to the Source and the links code block present.
+ * With `reorder`, the definitions are also sorted into Source order, each taking the place of an existing one.
+ */
+function updateCueNoteStructure(content: string, footnotes: Map<string, string>, sourceOrder: string[], linkToSource: string, reorder = false): string {
+    let result = content;
+    const codeBlockRegex = new RegExp(`^\`\`\`${INTERNAL_SETTINGS.codeBlockProcessorId}[^\\n]*\\n(?:[^\\n]*\\n)*?\`\`\`[ \\t]*$`, 'm');
+
+    if (!result.includes(linkToSource)) {
+        const frontmatter = result.match(/^---\n[\s\S]*?\n(?:---|\.\.\.)[ \t]*(?:\n|$)/);
+        result = insertBlock(result, frontmatter ? frontmatter[0].length : 0, linkToSource);
+    }
+
+    // Changed and deleted definitions, from the end so earlier offsets stay valid
+    const present = new Set<string>();
+    const edits: { start: number, end: number, text: string | null }[] = [];
+    for (const def of parseMarkdownFootnotes(result).definitions) {
+        const definition = footnotes.get(def.ref);
+        if (definition === undefined || present.has(def.ref)) {
+            edits.push({ start: def.start, end: def.end, text: null });
+        } else if (definition !== def.definition) {
+            edits.push({ start: def.start, end: def.end, text: formatFootnoteDefinition(def.ref, definition) });
         }
+        present.add(def.ref);
+    }
+    for (const edit of edits.reverse()) {
+        result = edit.text === null
+            ? removeBlock(result, edit.start, edit.end)
+            : result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+    }
 
-        console.log(`[Cornell Plugin] Note Info Map update: Added ${added}, Updated ${updated}, Removed ${removed}. Total: ${this.noteInfoMap.size}`);
-        if (mapChanged) {
-            await this.saveData();
-            console.log("[Cornell Plugin] NoteInfoMap saved.");
+    // New definitions go after the closest preceding ref in Source order (or before the closest following one)
+    const rank = (ref: string) => {
+        const index = sourceOrder.indexOf(ref);
+        return index === -1 ? sourceOrder.length : index;
+    };
+    const added = Array.from(footnotes.keys())
+        .filter(ref => !present.has(ref))
+        .sort((a, b) => rank(a) - rank(b) || a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' }));
+    for (const ref of added) {
+        const text = formatFootnoteDefinition(ref, footnotes.get(ref) ?? '');
+        const definitions = parseMarkdownFootnotes(result).definitions;
+        const previous = definitions
+            .filter(def => rank(def.ref) <= rank(ref))
+            .reduce<ParsedDefinition | null>((best, def) => !best || rank(def.ref) >= rank(best.ref) ? def : best, null);
+        const next = definitions.reduce<ParsedDefinition | null>((best, def) => !best || rank(def.ref) < rank(best.ref) ? def : best, null);
+        if (previous) {
+            result = insertBlock(result, previous.end, text);
+        } else if (next) {
+            result = insertBlock(result, next.start, text);
+        } else {
+            result = insertBlock(result, result.match(codeBlockRegex)?.index ?? result.length, text);
         }
     }
 
-	// --- Event Handlers (Combined) ---
-	private handleFileModifyForAutoSync = (file: TAbstractFile) => {
-		if (!this.settings.syncOnSave || this.isSyncing || this.isSwitchingMode) return;
+    if (reorder) {
+        const definitions = parseMarkdownFootnotes(result).definitions;
+        const sorted = [...definitions].sort((a, b) => rank(a.ref) - rank(b.ref) || a.ref.localeCompare(b.ref, undefined, { numeric: true, sensitivity: 'base' }));
+        const unsorted = result;
+        for (let i = definitions.length - 1; i >= 0; i--) {
+            result = result.slice(0, definitions[i].start) + unsorted.slice(sorted[i].start, sorted[i].end) + result.slice(definitions[i].end);
+        }
+    }
 
-		if (file instanceof TFile && file.extension === 'md') {
-			if (this.isSourceNote(file.path)) {
-                // Source note modified -> Schedule S->C sync
-                console.log(`[Auto Sync] Detected modification in Source: ${file.path}. Scheduling S->C sync.`);
-                this.debouncedSyncSourceToCue(file);
-			} else if (this.isCueNote(file.path)) {
-                // Cue note modified -> Schedule C->S sync
-                console.log(`[Auto Sync] Detected modification in Cue: ${file.path}. Scheduling C->S sync.`);
-                this.debouncedSyncCueToSource(file);
-			}
-            // Summary note changes do not trigger sync
-		}
-	};
+    // The links code block follows the definitions, and goes away with the last one
+    const codeBlock = result.match(codeBlockRegex);
+    if (footnotes.size > 0 && !codeBlock) {
+        const definitions = parseMarkdownFootnotes(result).definitions;
+        const last = definitions[definitions.length - 1];
+        result = insertBlock(result, last ? last.end : result.length, `\`\`\`${INTERNAL_SETTINGS.codeBlockProcessorId}\n\`\`\``);
+    } else if (footnotes.size === 0 && codeBlock?.index !== undefined) {
+        result = removeBlock(result, codeBlock.index, codeBlock.index + codeBlock[0].length);
+    }
+    return result;
+}
 
-    // --- Manual Sync Handler (From main.ts その2) ---
-	private manualSyncHandler(view: MarkdownView, direction: 'S->C' | 'C->S', checking?: boolean): boolean | void {
-		const file = view.file;
-		if (!file) {
-			if (!checking) new Notice('No active file.');
-			return false;
-		}
+// --- Spaced Repetition (SM-2) ---
 
-		if (direction === 'S->C') {
-            // S->C sync runs from Source note
-			if (!this.isSourceNote(file.path)) {
-				if (!checking) new Notice('Run S->C sync from the Source note.');
-				return false;
-			}
-			if (!checking) {
-				new Notice(`Manual Sync: S->C starting for ${file.basename}...`);
-				this.syncSourceToCue(file)
-					.then(() => new Notice(`Manual Sync: Cue updated for ${file.basename}.`))
-					.catch(err => {
-						console.error(`Manual Sync Error (S->C): ${file.path}`, err);
-						new Notice('Sync Error (S->C). See console.');
-					});
-			}
-            return true;
-		} else if (direction === 'C->S') {
-            // C->S sync runs from Cue note
-			if (!this.isCueNote(file.path)) {
-				if (!checking) new Notice('Run C->S sync from the Cue note.');
-				return false;
-			}
-			if (!checking) {
-				new Notice(`Manual Sync: C->S starting from ${file.basename}...`);
-				this.syncCueToSource(file)
-					.then(() => {
-                        const sourceFile = this.getSourceNoteFileFromDerived(file.path);
-                        new Notice(`Manual Sync: Source (${sourceFile?.basename ?? 'unknown'}) updated from ${file.basename}.`);
-                    })
-					.catch(err => {
-						console.error(`Manual Sync Error (C->S): ${file.path}`, err);
-						new Notice('Sync Error (C->S). See console.');
-					});
-			}
-            return true;
-		}
-		return false;
-	}
+const DAY_MS = 24 * 60 * 60 * 1000;
 
-	// --- Core Cornell Mode Switching Logic (Combined) ---
+/** Random, stable identifier for a card */
+function createCardId(): string {
+    return `cornell-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
 
-	/**
-	 * Main function to activate a Cornell mode (Capture, Recall, Review, Show All).
-	 * @param mode The Cornell mode to activate.
-	 * @param targetSourceFile The specific SOURCE file to use. If null, uses the active file.
-	 * @param isRestore Whether this activation is part of restoring the layout on load.
-	 */
-	async activateMode(mode: CornellMode, targetSourceFile?: TFile, isRestore: boolean = false): Promise<void> {
-		if (this.isSwitchingMode || this.isSyncing) {
-			console.warn(`Cornell Plugin: Mode switch (${mode}) aborted, another operation in progress (Switching: ${this.isSwitchingMode}, Syncing: ${this.isSyncing}).`);
-			if (!isRestore) new Notice("Please wait for the current operation to finish.");
-			return;
-		}
-		this.isSwitchingMode = true;
-		console.log(`Cornell Plugin: Activating mode ${mode}... (Restore: ${isRestore})`);
+/** A new card is due right away */
+function createReviewCard(ref: string, definition: string, now: number): CueReviewCard {
+    return { id: createCardId(), ref, definition, ease: INTERNAL_SETTINGS.reviewInitialEase, interval: 0, repetitions: 0, due: now, lastReviewed: null };
+}
 
-		const activeFile = targetSourceFile ?? this.app.workspace.getActiveFile();
-		if (!activeFile) {
-			new Notice("Please open a note file first.");
-			this.isSwitchingMode = false;
-			return;
-		}
+/** SM-2: a failed recall restarts the repetitions (ease unchanged), otherwise the interval grows by the ease factor */
+function scheduleReviewCard(card: CueReviewCard, grade: ReviewGrade, now: number): CueReviewCard {
+    if (grade < 3) {
+        return { ...card, repetitions: 0, interval: 1, due: now + DAY_MS, lastReviewed: now };
+    }
+    const ease = Math.max(INTERNAL_SETTINGS.reviewMinimumEase, card.ease + 0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02));
+    const repetitions = card.repetitions + 1;
+    const interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.interval * ease);
+    return { ...card, ease, repetitions, interval, due: now + interval * DAY_MS, lastReviewed: now };
+}
 
-        // Ensure we are operating on a SOURCE note
-        const sourceFile = this.isSourceNote(activeFile.path)
-            ? activeFile
-            : this.getSourceNoteFileFromDerived(activeFile.path);
+/**
+ * Matches stored cards to the current definitions. A card keeps its schedule when its ref still exists,
+ * or when its ref was renumbered but the definition text is unchanged. Cards of removed definitions are dropped.
+ */
+function reconcileReviewCards(cards: CueReviewCard[], definitions: Map<string, string>, now: number): { cards: CueReviewCard[], changed: boolean } {
+    const unmatched = new Set(cards);
+    const result = new Map<string, CueReviewCard>();
+    const take = (ref: string, card: CueReviewCard) => {
+        unmatched.delete(card);
+        result.set(ref, card);
+    };
+    // 1. Same ref and definition, 2. same definition under a new ref, 3. same ref with an edited definition
+    definitions.forEach((def, ref) => {
+        const card = cards.find(c => unmatched.has(c) && c.ref === ref && c.definition === def);
+        if (card) take(ref, card);
+    });
+    definitions.forEach((def, ref) => {
+        if (result.has(ref)) return;
+        const card = cards.find(c => unmatched.has(c) && c.definition === def);
+        if (card) take(ref, { ...card, ref });
+    });
+    definitions.forEach((def, ref) => {
+        if (result.has(ref)) return;
+        const card = cards.find(c => unmatched.has(c) && c.ref === ref);
+        take(ref, card ? { ...card, definition: def } : createReviewCard(ref, def, now));
+    });
+
+    const reconciled = Array.from(definitions.keys())
+        .map(ref => result.get(ref))
+        .filter((card): card is CueReviewCard => card !== undefined);
+    const changed = reconciled.length !== cards.length ||
+        reconciled.some((card, i) => card !== cards[i]);
+    return { cards: reconciled, changed };
+}
 
-        if (!sourceFile) {
-            new Notice("Could not determine the Source note. Please activate a Source note or its Cue/Summary note.");
-			this.isSwitchingMode = false;
-            return;
-        }
+/** Text around the first reference of a ref in its paragraph, with other footnote references removed */
+function extractReferenceContext(content: string, ref: string): { before: string, after: string } | null {
+    const reference = parseMarkdownFootnotes(content).references.find(r => r.ref === ref);
+    if (!reference) return null;
+    const paragraphStart = content.lastIndexOf('\n\n', reference.start);
+    const paragraphEnd = content.indexOf('\n\n', reference.end);
+    const half = Math.floor(INTERNAL_SETTINGS.reviewContextMaxLength / 2);
+    const from = Math.max(paragraphStart === -1 ? 0 : paragraphStart + 2, reference.start - half);
+    const to = Math.min(paragraphEnd === -1 ? content.length : paragraphEnd, reference.end + half);
+    const clean = (text: string) => text.replace(/\[\^[^\]\s]+\]/g, '');
+    return {
+        before: (from > 0 && content[from - 1] !== '\n' ? '…' : '') + clean(content.slice(from, reference.start)).trimStart(),
+        after: clean(content.slice(reference.end, to)).trimEnd() + (to < content.length && content[to] !== '\n' ? '…' : '')
+    };
+}
 
-		try {
-			console.log(`Cornell Plugin: Target Source file - ${sourceFile.path}`);
+/** The sentence (or line) around the first reference of a ref, with footnote references removed */
+function extractReferenceSentence(content: string, ref: string): string | null {
+    const context = extractReferenceContext(content, ref);
+    if (!context) return null;
+    const before = context.before.match(/[^.!?。！？\n]*$/)?.[0] ?? '';
+    const after = context.after.match(/^[^.!?。！？\n]*[.!?。！？]?/)?.[0] ?? '';
+    return (before + after).replace(/\s+/g, ' ').trim();
+}
 
-            // --- Clean Up Previous State ---
-            const requiredPositions = this.getRequiredPositions(mode);
-            // If the source file has changed, clear everything from the previous setup
-			if (this.activeSourceFileForCornell && this.activeSourceFileForCornell.path !== sourceFile.path) {
-				console.log("Cornell Plugin: Active Source file changed, clearing previous Cornell state.");
-				await this.clearCornellState(true); // Detach old leaves completely
-			} else {
-                // Otherwise, just clean up leaves not needed for the new mode
-				await this.cleanupUnneededLeaves(requiredPositions);
-			}
-			this.activeSourceFileForCornell = sourceFile;
+// --- Cloze Overlay ---
 
-            // --- Get or Create Cue/Summary Files ---
-            const noteInfo = this.getOrCreateNoteInfo(sourceFile);
-            const cuePath = this.getCueNotePath(sourceFile);
-            const summaryPath = this.getSummaryNotePath(sourceFile);
+/** Dispatched to editors when a cloze is revealed, so the decorations are rebuilt */
+const clozeRevealEffect = StateEffect.define<string>();
 
-            const cueFile = await this.ensureCueNoteExists(cuePath, sourceFile);
-            if (!cueFile) throw new Error(`Failed to ensure Cue note exists at ${cuePath}`);
+/** Ranges of cued passages: the text right before the first reference of a ref, if it still matches the text the cue was generated from */
+function findClozeRanges(content: string, spans: { [ref: string]: string }): { from: number, to: number, ref: string }[] {
+    const ranges: { from: number, to: number, ref: string }[] = [];
+    for (const reference of parseMarkdownFootnotes(content).references) {
+        const span = spans[reference.ref];
+        if (!span || ranges.some(range => range.ref === reference.ref)) continue;
+        if (content.slice(reference.start - span.length, reference.start) === span) {
+            ranges.push({ from: reference.start - span.length, to: reference.start, ref: reference.ref });
+        }
+    }
+    return ranges.sort((a, b) => a.from - b.from);
+}
 
-            let summaryFile: TFile | null = null;
-            // Summary needed for recall, review, and show-all modes
-            if (mode === 'recall' || mode === 'review' || mode === 'show-all') {
-                 summaryFile = await this.ensureSummaryNoteExists(summaryPath, sourceFile, cueFile);
-                 if (!summaryFile) console.warn(`Cornell Plugin: Could not create or find Summary note at ${summaryPath}. Mode ${mode} might be incomplete.`);
-                 // Update noteInfo map after ensuring existence
-                 noteInfo.summaryPath = summaryFile ? summaryFile.path : null;
-            }
-            noteInfo.cuePath = cueFile.path;
-            this.noteInfoMap.set(sourceFile.path, noteInfo); // Update map
-            await this.saveData(); // Save potentially updated map
-
-			// --- Save State (if not restoring and not show-all) ---
-            // Don't save 'show-all' as the last state for restore
-			if (!isRestore && mode !== 'show-all') {
-				this.settings.lastMode = mode;
-				this.settings.lastFile = sourceFile.path; // Save SOURCE file path
-				await this.saveData();
-				console.log(`Cornell Plugin: Saved state: Mode=${mode}, File=${sourceFile.path}`);
-            } else if (!isRestore && mode === 'show-all') {
-                // Clear last state when activating show-all manually, so it doesn't restore
-                this.settings.lastMode = null;
-                this.settings.lastFile = null;
-                await this.saveData();
-                console.log(`Cornell Plugin: Activated 'show-all' mode. Last state cleared.`);
-            }
+/** Plain text of inline Markdown as it appears in reading view (footnote references render separately) */
+function stripInlineMarkdown(text: string): string {
+    return text
+        .replace(/\[\^[^\]\s]+\]/g, '')
+        .replace(/!?\[\[[^\]|]+\|([^\]]+)\]\]/g, '$1')
+        .replace(/!?\[\[([^\]]+)\]\]/g, '$1')
+        .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+        .replace(/\*\*|__|==|~~|\*|_|`/g, '');
+}
 
-            // --- Initial Sync S->C (ensure Cue note has definitions) ---
-            // Run S->C sync before setting up the layout to populate the cue note
-            console.log(`[ActivateMode] Running S->C sync for ${sourceFile.basename} -> ${cueFile.basename}`);
-            await this.syncSourceToCue(sourceFile); // Run sync after ensuring files exist
+/**
+ * Wraps the rendered text right before a footnote reference element in cloze spans.
+ * Whitespace is ignored while matching. Returns the created spans, or null if the text doesn't match.
+ */
+function wrapRenderedTextBefore(container: HTMLElement, anchor: Element, text: string, ref: string): HTMLElement[] | null {
+    const target = text.replace(/\s+/g, '');
+    if (!target) return null;
+    const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT);
+    const textNodes: Text[] = [];
+    let node: Node | null;
+    while ((node = walker.nextNode()) !== null) {
+        if (anchor.compareDocumentPosition(node) & Node.DOCUMENT_POSITION_FOLLOWING) break;
+        if (node.parentElement?.closest('sup.footnote-ref, sup[data-footnote-id]')) continue;
+        textNodes.push(node as Text);
+    }
 
-			// --- Ensure Layout and Get Leaves ---
-            // Pass the required files to the layout function
-            const filesForMode: { [key in LeafPosition]?: TFile | null } = {};
-            if (requiredPositions.includes('left')) filesForMode.left = cueFile;
-            if (requiredPositions.includes('center')) filesForMode.center = sourceFile;
-            if (requiredPositions.includes('right')) filesForMode.right = summaryFile;
+    let remaining = target.length;
+    const parts: { node: Text, start: number }[] = [];
+    for (let i = textNodes.length - 1; i >= 0 && remaining > 0; i--) {
+        const value = textNodes[i].data;
+        let start = value.length;
+        while (start > 0 && remaining > 0) {
+            const ch = value[--start];
+            if (/\s/.test(ch)) continue;
+            if (ch !== target[remaining - 1]) return null;
+            remaining--;
+        }
+        parts.push({ node: textNodes[i], start });
+    }
+    if (remaining > 0) return null;
+
+    return parts.map(({ node: textNode, start }) => {
+        const clozeText = start > 0 ? textNode.splitText(start) : textNode;
+        const wrapper = createSpan({ cls: 'cornell-cloze', attr: { 'data-cornell-cloze': ref } });
+        clozeText.replaceWith(wrapper);
+        wrapper.appendChild(clozeText);
+        return wrapper;
+    });
+}
 
-			const finalLeaves = await this.ensureLeafLayout(requiredPositions, filesForMode);
-			this.activeCornellLeaves = finalLeaves; // Update the tracked leaves
+// --- Cue Styles ---
 
-			// --- Setup Content (View Mode) in Leaves ---
-			await this.setupLeavesContent(mode); // Sets preview/source modes
+const CUE_STYLE_LABELS: { [style in CueStyle]: string } = {
+    'free': 'Free-form',
+    'qa': 'Question/Answer',
+    'term': 'Term/Definition',
+    'keyword': 'Keyword',
+};
 
-			// --- Apply Styles, Focus, and Scroll ---
-			this.applyStylesAndWidth(mode); // Pass mode to potentially adjust ratios
-			const finalFocusLeaf = this.getFinalFocusLeaf(mode);
-			await this.applyFocusAndScroll(finalFocusLeaf, sourceFile, cueFile, summaryFile); // Pass files for scrolling
+/**
+ * Writes a cue with its style marker: `Q:: question A:: answer`, `T:: term :: definition`, `K:: keyword` or plain text.
+ * The markers are not ordinary Markdown, so existing free-form definitions are never read as styled cues.
+ */
+function formatStyledCue(cue: StyledCue): string {
+    switch (cue.style) {
+        case 'qa': return `Q:: ${cue.prompt ?? ''} A:: ${cue.answer ?? ''}`;
+        case 'term': return `T:: ${cue.prompt ?? ''} :: ${cue.answer ?? ''}`;
+        case 'keyword': return `K:: ${cue.prompt ?? ''}`;
+        default: return cue.answer ?? '';
+    }
+}
 
-			console.log(`Cornell Plugin: Mode ${mode} activated successfully for ${sourceFile.path}.`);
+/** Reads the structure of a cue definition written by formatStyledCue. Anything without a style marker is a free-form cue. */
+function parseStyledCue(definition: string): StyledCue {
+    const text = definition.trim();
+    const qa = text.match(/^Q::\s*([\s\S]*?)\s+A::\s*([\s\S]*)$/);
+    if (qa) return { style: 'qa', prompt: qa[1], answer: qa[2] };
+    const term = text.match(/^T::\s*([\s\S]*?)\s+::\s*([\s\S]*)$/);
+    if (term) return { style: 'term', prompt: term[1], answer: term[2] };
+    const keyword = text.match(/^K::\s*([\s\S]+)$/);
+    if (keyword) return { style: 'keyword', prompt: keyword[1], answer: null };
+    return { style: 'free', prompt: null, answer: text };
+}
 
-		} catch (error) {
-			console.error(`Cornell Plugin: Error activating Cornell mode "${mode}" for ${sourceFile?.path}:`, error);
-			new Notice(`Failed to activate Cornell mode. ${error instanceof Error ? error.message : 'Check console for details.'}`);
-			await this.clearCornellState(true); // Clean up on error
-            // Clear saved state on failure
-			this.settings.lastMode = null;
-			this.settings.lastFile = null;
-			await this.saveData();
-		} finally {
-			this.isSwitchingMode = false;
-			console.log(`Cornell Plugin: Mode switch finished for ${mode}.`);
-		}
-	}
+/** Markdown showing a cue for reading: question and answer (or term and definition) as separate paragraphs, a keyword without its marker */
+function styledCueMarkdown(definition: string): string {
+    const cue = parseStyledCue(definition);
+    switch (cue.style) {
+        case 'qa': return `**Q:** ${cue.prompt ?? ''}\n\n**A:** ${cue.answer ?? ''}`;
+        case 'term': return `**${cue.prompt ?? ''}**\n\n${cue.answer ?? ''}`;
+        case 'keyword': return cue.prompt ?? '';
+        default: return cue.answer ?? '';
+    }
+}
 
-	/** Determines which leaf positions are required for a given mode. */
-	private getRequiredPositions(mode: CornellMode): LeafPosition[] {
-		switch (mode) {
-			case 'capture': return ['left', 'center'];    // Cue, Source
-			case 'recall': return ['left', 'right'];     // Cue, Summary
-			case 'review': return ['center', 'right'];   // Source, Summary
-            case 'show-all': return ['left', 'center', 'right']; // Cue, Source, Summary
-			default:
-				console.warn(`Cornell Plugin: Unknown mode "${mode}" in getRequiredPositions.`);
-				return [];
-		}
-	}
+/** Splits selected text like `**term** – text`, `**term:** text` or `term: text` into term and definition. Returns null if there is no separator. */
+function splitTermDefinition(text: string): { term: string, definition: string } | null {
+    const match = text.match(/^\*\*([^*]+?)\*\*\s*[:\u2013\u2014-]\s*([\s\S]+)$/)
+        ?? text.match(/^\*\*([^*]+?):\*\*\s*([\s\S]+)$/)
+        ?? text.match(/^([^:\n]{1,80}?)\s*:\s+([\s\S]+)$/)
+        ?? text.match(/^([^\n]{1,80}?)\s+[\u2013\u2014-]\s+([\s\S]+)$/);
+    if (!match) return null;
+    const term = stripInlineMarkdown(match[1]).trim();
+    const definition = match[2].trim();
+    return term && definition ? { term, definition } : null;
+}
 
-    /**
-	 * Helper to get or create a leaf for a specific position, ensuring it's a MarkdownView
-	 * containing the target file for that position (Cue, Source, or Summary).
-     * Prioritizes reusing existing tracked leaves if they contain the correct file.
-	 */
-	private async getOrCreateLeaf(position: LeafPosition, targetFile: TFile): Promise<WorkspaceLeaf> {
-		console.log(`Cornell Plugin: Getting or creating leaf for position: ${position} with file ${targetFile.path}`);
+// --- Cue Suggestions ---
 
-		let leaf = this.activeCornellLeaves[position];
-		let leafIsValid = false;
-		if (leaf) {
-			let exists = false;
-            this.app.workspace.iterateAllLeaves(l => { if (l === leaf) exists = true; });
-            // Check if the existing leaf holds the CORRECT file for this position
-			if (exists && leaf.view instanceof MarkdownView && leaf.view.file?.path === targetFile.path) {
-				console.log(`Cornell Plugin: Reusing valid tracked leaf for ${position} (${targetFile.basename}).`);
-				leafIsValid = true;
-			} else {
-				console.log(`Cornell Plugin: Tracked leaf for ${position} is invalid (exists: ${exists}, file: ${leaf?.view instanceof MarkdownView ? leaf.view.file?.path : 'N/A'}, expected: ${targetFile.path}). Clearing.`);
-				this.activeCornellLeaves[position] = null; // Clear invalid tracked leaf
-				leaf = null;
-			}
-		}
+const CUE_SUGGESTION_KIND_LABELS: { [kind in CueSuggestionKind]: string } = {
+    'heading': 'Heading',
+    'bold': 'Bold',
+    'highlight': 'Highlight',
+    'definition-line': 'Definition',
+    'list-item': 'List item',
+    'sentence': 'Sentence',
+};
 
-        // If no valid tracked leaf, try finding ANY existing leaf with the target file
-		if (!leafIsValid) {
-			leaf = this.findExistingLeafForFile(targetFile);
-			if (leaf) {
-                // If found, check if it's already assigned to a DIFFERENT Cornell position
-                let assignedToOther = false;
-                for (const pos in this.activeCornellLeaves) {
-                    if (pos !== position && this.activeCornellLeaves[pos as LeafPosition] === leaf) {
-                        assignedToOther = true;
-                        break;
-                    }
-                }
-                if (assignedToOther) {
-                    console.log(`Cornell Plugin: Found existing leaf for ${targetFile.basename}, but it's assigned to another Cornell position. Will create new.`);
-                    leaf = null; // Force creation of a new leaf
-                } else {
-				    console.log(`Cornell Plugin: Found existing unassigned leaf for ${position} containing ${targetFile.basename}.`);
-				    leafIsValid = true;
-                }
-			}
-		}
+/** Comparable text of a cue: its question, term or keyword (or the free-form text) without Markdown */
+function normalizeCueText(definition: string): string {
+    const cue = parseStyledCue(definition);
+    return stripInlineMarkdown(cue.prompt ?? cue.answer ?? '').replace(/\s+/g, ' ').trim().toLowerCase();
+}
 
-		// If still no leaf, create a new one
-        if (!leaf) {
-			console.log(`Cornell Plugin: No suitable existing leaf found for ${position}. Creating new leaf.`);
-			leaf = this.app.workspace.getLeaf('tab'); // Create new tab leaf
-			if (!leaf) throw new Error(`Failed to create new leaf for ${position}.`);
-			console.log(`Cornell Plugin: New leaf created for ${position}.`);
-			leafIsValid = false; // Needs file opened
-		}
+/**
+ * Finds cue candidates in a Source note, in reading order: headings, bold and highlighted terms,
+ * `term: definition` lines and list items, and sentences. Text that already has a reference,
+ * literal Markdown (code, math, frontmatter) and cues that already exist are skipped.
+ */
+function suggestCues(content: string, existingDefinitions: string[], range: { from: number, to: number } = { from: 0, to: content.length }): CueSuggestion[] {
+    const literalRanges = findLiteralRanges(content);
+    const isLiteral = (pos: number) => literalRanges.some(r => pos >= r.start && pos < r.end);
+    const { definitions, references } = parseMarkdownFootnotes(content);
+    const isInDefinition = (pos: number) => definitions.some(def => pos >= def.start && pos < def.end);
+    // A reference inside the text or right after it means it is already cued
+    const hasReference = (from: number, to: number) => references.some(ref => ref.start >= from && ref.start <= to);
+
+    const seen = new Set(existingDefinitions.map(normalizeCueText));
+    const usedPositions = new Set<number>();
+    const suggestions: CueSuggestion[] = [];
+    const add = (kind: CueSuggestionKind, start: number, end: number, cue: StyledCue) => {
+        const definition = formatStyledCue(cue);
+        const key = normalizeCueText(definition);
+        if (!key || seen.has(key) || usedPositions.has(end)) return;
+        seen.add(key);
+        usedPositions.add(end);
+        suggestions.push({ kind, at: end, span: content.slice(start, end), definition });
+    };
+    const keyword = (text: string): StyledCue => ({ style: 'keyword', prompt: stripInlineMarkdown(text).trim(), answer: null });
+
+    let offset = 0;
+    for (const line of content.split('\n')) {
+        const lineStart = offset;
+        offset += line.length + 1;
+        const text = line.trimEnd();
+        const lineEnd = lineStart + text.length;
+        if (lineStart < range.from || lineEnd > range.to || !text.trim()) continue;
+        if (isLiteral(lineStart + text.search(/\S/)) || isInDefinition(lineStart) || /^\s*\|/.test(text)) continue;
+        const lineCued = hasReference(lineStart, lineEnd);
+
+        const heading = text.match(/^#{1,6}\s+(.+)$/);
+        if (heading) {
+            if (!lineCued && !/^(CUE|MAIN|SUMMARY)$/.test(heading[1].trim())) {
+                add('heading', lineEnd - heading[1].length, lineEnd, keyword(heading[1]));
+            }
+            continue;
+        }
 
-        // Ensure the chosen/created leaf has the correct file opened
-		if (!leafIsValid || !(leaf.view instanceof MarkdownView) || leaf.view.file?.path !== targetFile.path) {
-			console.log(`Cornell Plugin: Preparing leaf for ${position} - ensuring file ${targetFile.basename}.`);
-			try {
-                await this.openFileInLeaf(leaf, targetFile, false); // Open file, don't activate yet
-                await sleep(150); // Allow time for file to open and view to be ready
+        const listMarker = text.match(/^\s*(?:>\s*)*(?:[-*+]|\d+[.)])\s+(?:\[.\]\s+)?/);
+        const body = text.slice((listMarker ?? text.match(/^\s*(?:>\s*)*/))?.[0].length ?? 0);
+        const bodyStart = lineEnd - body.length;
 
-				if (!(leaf.view instanceof MarkdownView) || leaf.view.file?.path !== targetFile.path) {
-                    // Fallback using setViewState if openFile didn't work as expected
-                    console.warn(`Cornell Plugin: openFile didn't result in MarkdownView for ${targetFile.basename}. Trying setViewState.`);
-                    const viewState: ViewState = {
-						type: 'markdown',
-						state: { file: targetFile.path, mode: position === 'left' ? 'preview' : 'source' }, // Set initial mode based on position
-						active: false
-					};
-					await leaf.setViewState(viewState, { history: false });
-                    await sleep(150);
-                    if (!(leaf.view instanceof MarkdownView) || leaf.view.file?.path !== targetFile.path) {
-					    throw new Error(`Leaf preparation failed for ${position}. Current type: ${leaf.view?.getViewType()}, File: ${(leaf.view as any)?.file?.path}`);
-                    }
-				}
-				console.log(`Cornell Plugin: Leaf for ${position} successfully prepared with ${targetFile.basename}.`);
-			} catch (error) {
-				console.error(`Error preparing leaf for ${position} with file ${targetFile.path}:`, error);
-				if (leaf && leaf.parent) try { leaf.detach(); } catch { } // Clean up failed leaf
-                this.activeCornellLeaves[position] = null; // Ensure it's cleared
-				throw error;
-			}
-		}
+        // `term: definition` lines and list items, with a short term in front of the colon
+        const termMatch = body.match(/^(?:\*\*[^*\n]+?(?::\*\*|\*\*\s*:)|[^:*\n]+:)\s/);
+        const split = termMatch && !/[.!?。！？]/.test(termMatch[0]) ? splitTermDefinition(body) : null;
+        if (split && split.term.split(/\s+/).length <= INTERNAL_SETTINGS.suggestionMaxTermWords) {
+            if (!lineCued) {
+                add(listMarker ? 'list-item' : 'definition-line', bodyStart, lineEnd, { style: 'term', prompt: split.term, answer: split.definition });
+            }
+            continue;
+        }
 
-		this.activeCornellLeaves[position] = leaf; // Track the prepared leaf
-		return leaf;
-	}
+        const emphasisRegex = /\*\*([^*\n]+?)\*\*|__([^_\n]+?)__|==([^=\n]+?)==/g;
+        let emphasis: RegExpExecArray | null;
+        while ((emphasis = emphasisRegex.exec(body)) !== null) {
+            const start = bodyStart + emphasis.index;
+            const end = start + emphasis[0].length;
+            if (isLiteral(start) || hasReference(start, end)) continue;
+            add(emphasis[3] !== undefined ? 'highlight' : 'bold', start, end, keyword(emphasis[1] ?? emphasis[2] ?? emphasis[3]));
+        }
 
-	/**
-	 * Ensures the required leaves exist, contain the correct files, and arranges them horizontally.
-	 * @param requiredPositions Which positions (left, center, right) are needed.
-	 * @param filesForMode A map containing the TFile object for each required position.
-	 */
-	private async ensureLeafLayout(
-		requiredPositions: LeafPosition[],
-		filesForMode: { [key in LeafPosition]?: TFile | null }
-	): Promise<{ left: WorkspaceLeaf | null, center: WorkspaceLeaf | null, right: WorkspaceLeaf | null }> {
-		console.log("Cornell Plugin: Ensuring leaf layout for positions:", requiredPositions);
-		const result: { left: WorkspaceLeaf | null, center: WorkspaceLeaf | null, right: WorkspaceLeaf | null } = {
-			left: null, center: null, right: null,
-		};
-		const leavesToArrange: WorkspaceLeaf[] = [];
-        const creationPromises: Promise<void>[] = [];
+        // Sentences of paragraphs that are long enough to be worth a question
+        if (listMarker) continue;
+        const sentenceRegex = /[^.!?。！？]+(?:[.!?。！？]+|$)/g;
+        let sentence: RegExpExecArray | null;
+        while ((sentence = sentenceRegex.exec(body)) !== null) {
+            const start = bodyStart + sentence.index + (sentence[0].length - sentence[0].trimStart().length);
+            const end = bodyStart + sentence.index + sentence[0].trimEnd().length;
+            const plain = stripInlineMarkdown(content.slice(start, end)).replace(/\s+/g, ' ').trim();
+            if (end <= start || plain.split(' ').length < INTERNAL_SETTINGS.suggestionMinSentenceWords) continue;
+            if (isLiteral(start) || isLiteral(end - 1) || hasReference(start, end)) continue;
+            add('sentence', start, end, { style: 'free', prompt: null, answer: plain });
+        }
+    }
+    return suggestions.sort((a, b) => a.at - b.at);
+}
 
-        // Get or create leaves for each required position in parallel
-        requiredPositions.forEach(pos => {
-            const targetFile = filesForMode[pos];
-            if (!targetFile) {
-                // Only warn if the file is actually required for the mode but missing
-                // (Summary might be null if creation failed but mode proceeds)
-                if ( (pos === 'left' || pos === 'center') || // Cue and Source are generally essential
-                     ( (pos === 'right') && (this.getRequiredPositions(this.settings.lastMode ?? 'capture').includes('right')) ) // Summary essential if mode needs it
-                   ) {
-                     console.warn(`Cornell Plugin: Target file missing for required position ${pos}. Layout might be incomplete.`);
-                }
-                return; // Skip if no file specified or found for a position
-            }
-            creationPromises.push(
-                (async () => {
-                    try {
-                        const leaf = await this.getOrCreateLeaf(pos, targetFile);
-                        result[pos] = leaf;
-                    } catch (err) {
-                        console.error(`Failed to get or create leaf for ${pos} (${targetFile.basename}):`, err);
-                        // Mark as null if failed
-                        result[pos] = null;
-                        // Don't throw here, allow arrangement to proceed with available leaves if possible
-                        // throw new Error(`Layout setup failed: Could not prepare leaf for ${pos}.`);
-                    }
-                })()
-            );
-        });
-        await Promise.all(creationPromises); // Wait for all leaves to be ready
+// --- Cornell Page Export ---
 
-        // Determine the order for arrangement based on required positions, filtering out failed leaves (nulls)
-        if (requiredPositions.includes('left') && result.left) leavesToArrange.push(result.left);
-        if (requiredPositions.includes('center') && result.center) leavesToArrange.push(result.center);
-        if (requiredPositions.includes('right') && result.right) leavesToArrange.push(result.right);
+/** Content of a Cornell note as plain Markdown parts: main notes, cue definitions and summary */
+interface CornellTriadContent {
+    main: string;
+    definitions: Map<string, string>;
+    summary: string;
+}
 
-        // Filter out any nulls again just in case (shouldn't be necessary after push logic)
-        const validLeavesToArrange = leavesToArrange.filter((l): l is WorkspaceLeaf => l !== null);
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
 
-        if (validLeavesToArrange.length === 0) {
-            throw new Error("No valid leaves could be prepared for the layout.");
-        }
-		if (validLeavesToArrange.length === 1) {
-			// If only one leaf, ensure it's not split unnecessarily
-			const singleLeaf = validLeavesToArrange[0];
-            if (singleLeaf.parent && 'children' in singleLeaf.parent && Array.isArray(singleLeaf.parent.children) && singleLeaf.parent.children.length > 1) {
-				console.log("Cornell Plugin: Only one leaf in layout, ensuring it's tracked.");
-			}
-		} else if (validLeavesToArrange.length > 1) {
-			// Arrange the leaves horizontally using splitLeaf
-            const arrangingSourceFile = filesForMode.center ?? filesForMode.left ?? filesForMode.right;
-            if (!arrangingSourceFile) {
-                throw new Error("Cannot arrange leaves: No valid source file context found.");
-            }
-            const arrangedLeaves = await this.arrangeLeavesHorizontally(validLeavesToArrange, arrangingSourceFile);
+/** Removes frontmatter from the start of a note */
+function stripFrontmatter(content: string): string {
+    return content.replace(/^---\n[\s\S]*?\n(?:---|\.\.\.)[ \t]*(?:\n|$)/, '');
+}
 
-            // Update the result map with potentially new leaf objects created by splitLeaf
-            let arrangedIndex = 0;
-            if (requiredPositions.includes('left') && result.left) {
-                // Find the leaf corresponding to the left file in the *newly* arranged leaves
-                const newLeaf = arrangedLeaves.find(l => l.view instanceof MarkdownView && l.view.file?.path === filesForMode.left?.path);
-                result.left = newLeaf || result.left; // Use the new leaf if found, otherwise keep original (should exist)
-            }
-             if (requiredPositions.includes('center') && result.center) {
-                const newLeaf = arrangedLeaves.find(l => l.view instanceof MarkdownView && l.view.file?.path === filesForMode.center?.path);
-                result.center = newLeaf || result.center;
-            }
-             if (requiredPositions.includes('right') && result.right) {
-                const newLeaf = arrangedLeaves.find(l => l.view instanceof MarkdownView && l.view.file?.path === filesForMode.right?.path);
-                 result.right = newLeaf || result.right;
-            }
-		}
+/** Removes every footnote definition (and its line break) from the content */
+function removeFootnoteDefinitions(content: string): string {
+    let result = content;
+    parseMarkdownFootnotes(content).definitions
+        .sort((a, b) => b.start - a.start)
+        .forEach(def => {
+            const end = def.end + (result[def.end] === '\n' ? 1 : 0);
+            result = result.slice(0, def.start) + result.slice(end);
+        });
+    return result;
+}
 
-		console.log("Cornell Plugin: Leaf layout ensured. Final structure:", {
-			left: result.left ? `Leaf Exists (${result.left.view instanceof MarkdownView ? result.left.view.file?.basename : 'N/A'})` : null,
-			center: result.center ? `Leaf Exists (${result.center.view instanceof MarkdownView ? result.center.view.file?.basename : 'N/A'})` : null,
-			right: result.right ? `Leaf Exists (${result.right.view instanceof MarkdownView ? result.right.view.file?.basename : 'N/A'})` : null
-		});
-		return result;
-	}
+/** Splits Markdown into blank-line separated blocks, keeping code fences and math blocks whole */
+function splitMarkdownBlocks(content: string): Position[] {
+    const literalRanges = findLiteralRanges(content);
+    const blocks: Position[] = [];
+    const separator = /\n[ \t]*\n\s*/g;
+    let blockStart = 0;
+    let match: RegExpExecArray | null;
+    while ((match = separator.exec(content)) !== null) {
+        const index = match.index;
+        if (literalRanges.some(r => index > r.start && index < r.end)) continue;
+        if (content.slice(blockStart, index).trim()) blocks.push({ start: blockStart, end: index });
+        blockStart = index + match[0].length;
+    }
+    if (content.slice(blockStart).trim()) blocks.push({ start: blockStart, end: content.length });
+    return blocks;
+}
 
+/** One row of the Anki TSV export */
+interface AnkiRow {
+    id: string;
+    front: string;
+    back: string;
+    tags: string;
+    source: string;
+}
 
-	/**
-	 * Arranges the provided leaves horizontally using workspace.createLeafBySplit.
-     * Assumes the first leaf in the array is the anchor.
-     * Tries to open the correct file in the newly created leaves.
-	 */
-	private async arrangeLeavesHorizontally(leaves: WorkspaceLeaf[], contextFile: TFile): Promise<WorkspaceLeaf[]> {
-		if (leaves.length <= 1) return leaves;
+/** Hierarchical Anki tag from a note path, e.g. "Lectures/Week 1.md" -> "Lectures::Week_1" */
+function ankiTagFromPath(path: string): string {
+    return path.replace(/\.md$/, '').split('/').map(part => part.trim().replace(/\s+/g, '_')).join('::');
+}
 
-		console.log(`Cornell Plugin: Arranging ${leaves.length} leaves horizontally...`);
-		const finalLeaves: WorkspaceLeaf[] = [leaves[0]]; // Start with the first leaf as the anchor
+/** Anki TSV with file headers: GUID column for updates on re-import, HTML fields, tags column */
+function serializeAnkiRows(rows: AnkiRow[]): string {
+    const field = (text: string) => escapeHtml(text).replace(/\t/g, ' ').replace(/\r?\n/g, '<br>');
+    const header = ['#separator:tab', '#html:true', '#guid column:1', '#tags column:4', '#columns:GUID\tFront\tBack\tTags\tSource'];
+    return [...header, ...rows.map(row => [row.id, field(row.front), field(row.back), row.tags, row.source].join('\t'))].join('\n') + '\n';
+}
 
-		let previousLeafInLayout = leaves[0];
-        // Ensure the first leaf is attached to the workspace
-        let leafExists = false;
-        this.app.workspace.iterateAllLeaves(leaf => { if (leaf === previousLeafInLayout) leafExists = true; });
-        if (!previousLeafInLayout.parent || !leafExists) {
-			console.warn("Cornell Plugin: First leaf for arrangement is detached or not found. Re-attaching or creating new.");
-            // Attempt to re-attach or get a new leaf if the anchor is lost
-            const reAttachedLeaf = this.app.workspace.getLeaf(false) ?? this.app.workspace.getLeaf(true);
-            if (!reAttachedLeaf) throw new Error("Cannot arrange leaves: Failed to get a valid starting leaf.");
-            if (previousLeafInLayout.view instanceof MarkdownView && previousLeafInLayout.view.file) {
-                await this.openFileInLeaf(reAttachedLeaf, previousLeafInLayout.view.file, false);
-            } else {
-                 await this.openFileInLeaf(reAttachedLeaf, contextFile, false); // Open context file as fallback
-            }
-            previousLeafInLayout = reAttachedLeaf;
-            finalLeaves[0] = reAttachedLeaf; // Update the anchor
-			// throw new Error("Cannot arrange leaves: the starting leaf is detached.");
-		}
+function parseAnkiRows(content: string): AnkiRow[] {
+    const unfield = (text: string) => text.replace(/<br>/g, '\n').replace(/&quot;/g, '"').replace(/&gt;/g, '>').replace(/&lt;/g, '<').replace(/&amp;/g, '&');
+    return content.split('\n')
+        .filter(line => line.trim() && !line.startsWith('#'))
+        .map(line => line.split('\t'))
+        .filter(columns => columns.length >= 5)
+        .map(([id, front, back, tags, source]) => ({ id, front: unfield(front), back: unfield(back), tags, source }));
+}
 
-		for (let i = 1; i < leaves.length; i++) {
-			const originalLeafToPlace = leaves[i];
-            const targetFileForThisLeaf = originalLeafToPlace.view instanceof MarkdownView ? originalLeafToPlace.view.file : null;
-            if (!targetFileForThisLeaf) {
-                console.warn(`Cornell Plugin: Could not determine target file for leaf at index ${i}. Skipping arrangement for this leaf.`);
-                continue; // Skip if we don't know what file to put in the new leaf
-            }
+/** Self-contained HTML page in the classic Cornell layout: cue column, notes column, summary box */
+function buildCornellPageHtml(title: string, rows: { cueHtml: string, notesHtml: string }[], summaryHtml: string, pageSize: 'A4' | 'Letter'): string {
+    const rowsHtml = rows.map(row =>
+        `<tr><td class="cornell-cue">${row.cueHtml}</td><td class="cornell-notes">${row.notesHtml}</td></tr>`
+    ).join('\n');
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+@page { size: ${pageSize}; margin: 15mm; }
+body { font-family: -apple-system, "Segoe UI", "Hiragino Sans", "Noto Sans JP", sans-serif; font-size: 11pt; line-height: 1.5; color: #222; max-width: 190mm; margin: 1em auto; }
+h1.cornell-title { font-size: 16pt; border-bottom: 2px solid #222; padding-bottom: 4px; margin-bottom: 0; }
+table.cornell-page { width: 100%; border-collapse: collapse; table-layout: fixed; }
+td { vertical-align: top; padding: 6px 10px; }
+td.cornell-cue { width: 30%; border-right: 2px solid #222; font-size: 10pt; color: #333; }
+td.cornell-cue p { margin: 0 0 6px; }
+tr { break-inside: avoid; page-break-inside: avoid; }
+sup.cornell-ref { color: #a33; font-weight: bold; }
+.cornell-summary { border: 2px solid #222; margin-top: 12px; padding: 6px 10px; break-inside: avoid; page-break-inside: avoid; }
+.cornell-summary h2 { font-size: 12pt; margin: 0 0 4px; }
+img { max-width: 100%; }
+pre { white-space: pre-wrap; background: #f4f4f4; padding: 6px; }
+@media print { body { margin: 0; max-width: none; } }
+</style>
+</head>
+<body>
+<h1 class="cornell-title">${escapeHtml(title)}</h1>
+<table class="cornell-page">
+${rowsHtml}
+</table>
+<div class="cornell-summary"><h2>Summary</h2>${summaryHtml}</div>
+</body>
+</html>
+`;
+}
 
-			console.log(`Cornell Plugin: Placing leaf ${i} (${targetFileForThisLeaf.basename}) relative to leaf ${i - 1}.`);
+// --- Sync Journal ---
 
-            // If the leaf to place is the same as the previous one (shouldn't happen with unique leaves), skip
-			if (previousLeafInLayout === originalLeafToPlace) {
-				console.warn(`Warning: Attempting to arrange the same leaf at position ${i - 1} and ${i}. Skipping split.`);
-				continue;
-			}
+const SYNC_TRIGGER_LABELS: { [key in SyncTrigger]: string } = {
+    'sync-source-to-cue': 'Sync S->C',
+    'sync-cue-to-source': 'Sync C->S',
+    'generate-cue': 'Generate Cue',
+    'batch-sync': 'Batch sync',
+    'integrity-fix': 'Integrity fix',
+    'renumber-cues': 'Renumber cues',
+};
 
-            // Detach the original leaf if it exists and is not already the previous leaf
-            let originalLeafDetached = false;
-            let exists = false;
-            this.app.workspace.iterateAllLeaves(l => { if (l === originalLeafToPlace) exists = true; });
-            if (originalLeafToPlace.parent && exists) {
-				console.log(`Cornell Plugin: Detaching original leaf intended for position ${i} (${targetFileForThisLeaf.basename}) before splitting.`);
-                try {
-				    originalLeafToPlace.detach();
-                    originalLeafDetached = true;
-                    await sleep(50);
-                } catch (detachError) {
-                    console.error("Error detaching original leaf:", detachError);
-                }
-			}
+/** FNV-1a hash of a note's content, as hex. Only used to notice later edits, not for security. */
+function hashContent(content: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < content.length; i++) {
+        hash ^= content.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+}
 
-			try {
-				console.log(`Cornell Plugin: Splitting vertically from previous leaf (${previousLeafInLayout.view instanceof MarkdownView ? previousLeafInLayout.view.file?.basename : 'N/A'}) to create space for leaf ${i}`);
-				const newLeaf = this.app.workspace.createLeafBySplit(previousLeafInLayout, 'vertical'); // Split vertically for horizontal layout
-				if (!newLeaf) throw new Error(`this.app.workspace.createLeafBySplit returned null when placing leaf ${i}`);
-
-				console.log(`Cornell Plugin: Created new leaf by splitting. Opening file ${targetFileForThisLeaf.basename} in it.`);
-
-                await this.openFileInLeaf(newLeaf, targetFileForThisLeaf, false); // Open the correct file
-                await sleep(150); // Allow file open
-
-				if (!(newLeaf.view instanceof MarkdownView) || newLeaf.view.file?.path !== targetFileForThisLeaf.path) {
-					console.error(`Failed to set up newly split leaf ${i}. Type: ${newLeaf.view?.getViewType()}, File: ${(newLeaf.view as any)?.file?.path}, Expected: ${targetFileForThisLeaf.path}`);
-                    // Attempt setViewState as fallback
-                    await newLeaf.setViewState({
-                        type: 'markdown',
-                        state: { file: targetFileForThisLeaf.path, mode: 'source' }, // Default to source, will be set later
-                        active: false
-                    }, { history: false });
-                    await sleep(100);
-                    if (!(newLeaf.view instanceof MarkdownView) || newLeaf.view.file?.path !== targetFileForThisLeaf.path) {
-                        throw new Error(`Newly split leaf failed to become MarkdownView with the correct file for position ${i}.`);
-                    }
-				}
+/**
+ * Keeps the entries of the newest operations, at most `maxOperations` of them and `maxBytes` of stored before-states.
+ * Everything older than an operation that does not fit is dropped too, so a revert never skips over a missing operation.
+ */
+function trimSyncJournal(entries: SyncJournalEntry[], maxOperations: number, maxBytes: number): SyncJournalEntry[] {
+    const sizes = new Map<string, number>(); // Oldest operation first
+    entries.forEach(entry => sizes.set(entry.operationId, (sizes.get(entry.operationId) ?? 0) + entry.beforeContent.length));
+    const operationIds = Array.from(sizes.keys());
+    const kept = new Set<string>();
+    let total = 0;
+    for (let i = operationIds.length - 1; i >= 0 && kept.size < maxOperations; i--) {
+        total += sizes.get(operationIds[i]) ?? 0;
+        if (total > maxBytes) break;
+        kept.add(operationIds[i]);
+    }
+    return kept.size === operationIds.length ? entries : entries.filter(entry => kept.has(entry.operationId));
+}
 
-				finalLeaves.push(newLeaf); // Add the newly created and populated leaf
-				previousLeafInLayout = newLeaf; // Update the anchor for the next split
-				console.log(`Cornell Plugin: Leaf ${i} (${targetFileForThisLeaf.basename}) successfully placed.`);
+// --- Sync Diff Preview ---
+
+/**
+ * Line diff of two texts: Myers' O((N+M)D) algorithm over the lines between the common head and tail.
+ * Beyond `diffMaxEdits` changed lines it stops looking for a shortest diff and lists the whole middle as removed and added.
+ */
+function diffLines(before: string, after: string): DiffLine[] {
+    const a = before.split('\n');
+    const b = after.split('\n');
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) start++;
+    let endA = a.length, endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+    const midA = a.slice(start, endA);
+    const midB = b.slice(start, endB);
+    const middle = myersDiff(midA, midB, INTERNAL_SETTINGS.diffMaxEdits) ?? [
+        ...midA.map((text): DiffLine => ({ type: '-', text })),
+        ...midB.map((text): DiffLine => ({ type: '+', text })),
+    ];
+    return [
+        ...a.slice(0, start).map((text): DiffLine => ({ type: ' ', text })),
+        ...middle,
+        ...a.slice(endA).map((text): DiffLine => ({ type: ' ', text })),
+    ];
+}
 
-			} catch (splitError) {
-				console.error(`Error creating split for leaf ${i} from previous leaf:`, splitError);
-				// Clean up leaves created so far in this arrangement attempt
-                await Promise.all(finalLeaves.slice(1).map(async (l) => { // Detach leaves created *during* this arrangement
-                    if (l?.parent) try { l.detach(); } catch { }
-                }));
-				throw new Error(`Failed to arrange leaves using splitLeaf method at step ${i}.`);
-			}
-		}
-		console.log("Cornell Plugin: Leaf arrangement completed.");
-		return finalLeaves; // Return the array of leaves in their final arranged order/objects
-	}
+/** Shortest edit script of two line arrays, or null if it needs more than `maxEdits` removed/added lines */
+function myersDiff(a: string[], b: string[], maxEdits: number): DiffLine[] | null {
+    const n = a.length, m = b.length;
+    const max = Math.min(n + m, maxEdits);
+    const offset = max + 1;
+    // v[k + offset]: furthest x reached on diagonal k = x - y; trace[d] keeps the diagonals -d-1..d+1 before round d
+    const v = new Int32Array(2 * max + 3);
+    const trace: Int32Array[] = [];
+    for (let d = 0; d <= max; d++) {
+        trace.push(v.slice(offset - d - 1, offset + d + 2));
+        for (let k = -d; k <= d; k += 2) {
+            let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && a[x] === b[y]) { x++; y++; }
+            v[offset + k] = x;
+            if (x >= n && y >= m) return backtrackMyers(a, b, trace);
+        }
+    }
+    return null;
+}
 
-	/**
-	 * Sets the view mode (source/preview) and applies CSS classes for the active Cornell leaves based on the mode.
-	 */
-	private async setupLeavesContent(mode: CornellMode): Promise<void> {
-		console.log(`Cornell Plugin: Setting up leaf content modes and styles for mode: ${mode}`);
-		const setupTasks: Promise<void>[] = [];
+/** Walks the Myers trace back from the end of both arrays and returns the diff in order */
+function backtrackMyers(a: string[], b: string[], trace: Int32Array[]): DiffLine[] {
+    const lines: DiffLine[] = [];
+    let x = a.length, y = b.length;
+    for (let d = trace.length - 1; d >= 0; d--) {
+        const window = trace[d];
+        const at = (k: number) => window[k + d + 1];
+        const k = x - y;
+        const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+        const prevX = at(prevK);
+        const prevY = prevX - prevK;
+        while (x > prevX && y > prevY) {
+            lines.push({ type: ' ', text: a[--x] });
+            y--;
+        }
+        if (d > 0) {
+            if (x === prevX) lines.push({ type: '+', text: b[--y] });
+            else lines.push({ type: '-', text: a[--x] });
+        }
+    }
+    return lines.reverse();
+}
 
-        // Helper to configure a single leaf
-		const setupLeaf = async (
-			leaf: WorkspaceLeaf | null,
-            position: LeafPosition,
-			viewMode: 'source' | 'preview',
-			cssClass: string
-		): Promise<void> => {
-			if (!leaf || !(leaf.view instanceof MarkdownView) || !leaf.parent) {
-				console.log(`Cornell Plugin: Skipping setup for leaf (${position}) - leaf is null, not Markdown, or detached.`);
-				return;
-			}
-            const view = leaf.view;
-			console.log(`Cornell Plugin: Setting up ${position} leaf (${view.file?.basename}). Mode: ${viewMode}, Class: ${cssClass}.`);
+/** Formats a line diff as unified diff hunks with `context` unchanged lines around each change */
+function formatUnifiedDiff(lines: DiffLine[], context = 3): string {
+    // Line numbers (1-based) in the old and new text at each diff position
+    const oldNumbers: number[] = [], newNumbers: number[] = [];
+    let oldLine = 1, newLine = 1;
+    lines.forEach(line => {
+        oldNumbers.push(oldLine);
+        newNumbers.push(newLine);
+        if (line.type !== '+') oldLine++;
+        if (line.type !== '-') newLine++;
+    });
+
+    // Merge the context windows of neighbouring changes into hunks
+    const hunks: { from: number, to: number }[] = [];
+    lines.forEach((line, index) => {
+        if (line.type === ' ') return;
+        const from = Math.max(0, index - context);
+        const to = Math.min(lines.length, index + context + 1);
+        const last = hunks[hunks.length - 1];
+        if (last && from <= last.to) last.to = Math.max(last.to, to);
+        else hunks.push({ from, to });
+    });
+
+    return hunks.map(({ from, to }) => {
+        const hunkLines = lines.slice(from, to);
+        const oldCount = hunkLines.filter(line => line.type !== '+').length;
+        const newCount = hunkLines.filter(line => line.type !== '-').length;
+        const header = `@@ -${oldNumbers[from]},${oldCount} +${newNumbers[from]},${newCount} @@`;
+        return [header, ...hunkLines.map(line => line.type + line.text)].join('\n');
+    }).join('\n');
+}
 
-            // Clear existing Cornell classes first
-			view.containerEl?.classList.remove(
-				CORNELL_PANE_CLASS, CORNELL_LEFT_PANE_CLASS, CORNELL_CENTER_PANE_CLASS, CORNELL_RIGHT_PANE_CLASS
-			);
-            // Add new classes
-			view.containerEl?.classList.add(CORNELL_PANE_CLASS, cssClass);
+/** What a rewrite of the Source note does to its footnotes, plus the unified diff */
+function summarizeSourceChanges(before: string, after: string): SourceSyncChanges {
+    const oldParsed = parseMarkdownFootnotes(before);
+    const newParsed = parseMarkdownFootnotes(after);
+    const oldDefs = new Map(oldParsed.definitions.map(def => [def.ref, def.definition]));
+    const newDefs = new Map(newParsed.definitions.map(def => [def.ref, def.definition]));
+
+    const countRefs = (refs: ParsedReference[]) => {
+        const counts = new Map<string, number>();
+        refs.forEach(ref => counts.set(ref.ref, (counts.get(ref.ref) ?? 0) + 1));
+        return counts;
+    };
+    const oldRefCounts = countRefs(oldParsed.references);
+    const newRefCounts = countRefs(newParsed.references);
+    const removedReferences: string[] = [];
+    oldRefCounts.forEach((count, ref) => {
+        for (let k = newRefCounts.get(ref) ?? 0; k < count; k++) removedReferences.push(ref);
+    });
+
+    const lines = diffLines(before, after);
+    const touchesDefinition = (type: DiffLine['type'], ref: string) =>
+        lines.some(line => line.type === type && line.text.trimStart().startsWith(`[^${ref}]:`));
+
+    return {
+        addedDefinitions: Array.from(newDefs.keys()).filter(ref => !oldDefs.has(ref)),
+        changedDefinitions: Array.from(newDefs.keys()).filter(ref => oldDefs.has(ref) && oldDefs.get(ref) !== newDefs.get(ref)),
+        deletedDefinitions: Array.from(oldDefs.keys()).filter(ref => !newDefs.has(ref)),
+        removedReferences,
+        movedDefinitions: Array.from(oldDefs.keys()).filter(ref =>
+            oldDefs.get(ref) === newDefs.get(ref) && touchesDefinition('-', ref) && touchesDefinition('+', ref)),
+        diff: formatUnifiedDiff(lines),
+    };
+}
 
-			try {
-                // Enforce preview for left pane (Cue) if setting is enabled
-                const targetMode = (position === 'left' && this.settings.enforceCuePreview) ? 'preview' : viewMode;
-				await this.setMarkdownViewMode(view, targetMode);
-			} catch (error) {
-				console.error(`Failed setting mode to ${viewMode} for ${position} leaf ${view.file?.path}:`, error);
-			}
-		};
+// --- Batch Sync Report ---
 
-        // Remove styles/classes from leaves not used in this mode
-        const requiredPositions = this.getRequiredPositions(mode);
-        (Object.keys(this.activeCornellLeaves) as LeafPosition[]).forEach(pos => {
-            if (!requiredPositions.includes(pos)) {
-                const leaf = this.activeCornellLeaves[pos];
-                leaf?.view?.containerEl?.classList.remove(CORNELL_PANE_CLASS, CORNELL_LEFT_PANE_CLASS, CORNELL_CENTER_PANE_CLASS, CORNELL_RIGHT_PANE_CLASS);
-                // Reset flex style if it was applied
-                if (leaf?.view?.containerEl) {
-                    leaf.view.containerEl.style.flex = '';
-                }
-            }
-        });
+const BATCH_OUTCOME_LABELS: { [key in SyncOutcome]: string } = {
+    'created': 'created',
+    'updated': 'updated',
+    'unchanged': 'unchanged',
+    'skipped': 'skipped',
+    'error': 'errors',
+};
 
-        // Configure leaves required for the current mode
-		switch (mode) {
-			case 'capture': // Left (Cue, Preview), Center (Source, Source)
-				if (this.activeCornellLeaves.left) setupTasks.push(setupLeaf(this.activeCornellLeaves.left, 'left', 'preview', CORNELL_LEFT_PANE_CLASS));
-				if (this.activeCornellLeaves.center) setupTasks.push(setupLeaf(this.activeCornellLeaves.center, 'center', 'source', CORNELL_CENTER_PANE_CLASS));
-				break;
-			case 'recall': // Left (Cue, Preview), Right (Summary, Source)
-				if (this.activeCornellLeaves.left) setupTasks.push(setupLeaf(this.activeCornellLeaves.left, 'left', 'preview', CORNELL_LEFT_PANE_CLASS));
-				if (this.activeCornellLeaves.right) setupTasks.push(setupLeaf(this.activeCornellLeaves.right, 'right', 'source', CORNELL_RIGHT_PANE_CLASS));
-				break;
-			case 'review': // Center (Source, Source), Right (Summary, Source)
-				if (this.activeCornellLeaves.center) setupTasks.push(setupLeaf(this.activeCornellLeaves.center, 'center', 'source', CORNELL_CENTER_PANE_CLASS));
-				if (this.activeCornellLeaves.right) setupTasks.push(setupLeaf(this.activeCornellLeaves.right, 'right', 'source', CORNELL_RIGHT_PANE_CLASS));
-				break;
-            case 'show-all': // Left (Cue, Preview), Center (Source, Source), Right (Summary, Source)
-				if (this.activeCornellLeaves.left) setupTasks.push(setupLeaf(this.activeCornellLeaves.left, 'left', 'preview', CORNELL_LEFT_PANE_CLASS));
-				if (this.activeCornellLeaves.center) setupTasks.push(setupLeaf(this.activeCornellLeaves.center, 'center', 'source', CORNELL_CENTER_PANE_CLASS));
-                if (this.activeCornellLeaves.right) setupTasks.push(setupLeaf(this.activeCornellLeaves.right, 'right', 'source', CORNELL_RIGHT_PANE_CLASS));
-				break;
-		}
-		await Promise.all(setupTasks);
-		await sleep(100); // Short delay for rendering
-		console.log("Cornell Plugin: Leaf content setup complete.");
-	}
+/** "2 created, 5 updated, ..." for the outcomes present in a batch */
+function summarizeBatchOutcomes(entries: BatchSyncReportEntry[]): string {
+    const parts = (Object.keys(BATCH_OUTCOME_LABELS) as SyncOutcome[])
+        .map(outcome => ({ outcome, count: entries.filter(entry => entry.outcome === outcome).length }))
+        .filter(({ count }) => count > 0)
+        .map(({ outcome, count }) => `${count} ${BATCH_OUTCOME_LABELS[outcome]}`);
+    return parts.length > 0 ? parts.join(', ') : 'nothing synced';
+}
 
+/** Markdown report of a batch sync: settings, totals and one list per outcome (unchanged notes are only counted) */
+function buildBatchSyncReport(options: BatchSyncOptions, entries: BatchSyncReportEntry[], total: number, startedAt: number, cancelled: boolean): string {
+    const scope = [
+        options.folder.trim() ? `folder \`${options.folder.trim()}\`` : 'whole vault',
+        options.tag.trim() ? `tag \`${options.tag.trim().replace(/^#?/, '#')}\`` : null,
+        options.modifiedSince !== null ? `modified since ${new Date(options.modifiedSince).toLocaleString()}` : null,
+    ].filter(part => part !== null).join(', ');
+    const lines = [
+        `# Cornell batch sync ${options.dryRun ? '(dry run) ' : ''}report`,
+        '',
+        `- Direction: ${options.direction}`,
+        `- Scope: ${scope}`,
+        `- Started: ${new Date(startedAt).toLocaleString()}`,
+        `- Finished: ${new Date().toLocaleString()}`,
+        `- Result: ${summarizeBatchOutcomes(entries)}${cancelled ? ` (cancelled after ${entries.length} of ${total} notes)` : ''}`,
+    ];
+    const sections: { outcome: SyncOutcome, heading: string }[] = [
+        { outcome: 'created', heading: options.dryRun ? 'Would be created' : 'Created' },
+        { outcome: 'updated', heading: options.dryRun ? 'Would be updated' : 'Updated' },
+        { outcome: 'skipped', heading: 'Skipped' },
+        { outcome: 'error', heading: 'Errors' },
+    ];
+    for (const { outcome, heading } of sections) {
+        const matching = entries.filter(entry => entry.outcome === outcome).sort((a, b) => a.path.localeCompare(b.path));
+        if (matching.length === 0) continue;
+        lines.push('', `## ${heading}`, '');
+        matching.forEach(entry => lines.push(`- [[${entry.path.replace(/\.md$/, '')}]]${entry.detail ? `: ${entry.detail}` : ''}`));
+    }
+    return lines.join('\n') + '\n';
+}
 
-	/** Determines which leaf should receive focus based on the mode. */
-	private getFinalFocusLeaf(mode: CornellMode): WorkspaceLeaf | null {
-		switch (mode) {
-			case 'capture': return this.activeCornellLeaves.center; // Focus Source
-			case 'recall': return this.activeCornellLeaves.right;  // Focus Summary
-			case 'review': return this.activeCornellLeaves.right;  // Focus Summary
-            case 'show-all': return this.activeCornellLeaves.center; // Focus Source in show-all mode
-			default: return null;
-		}
-	}
+// --- Integrity Check ---
 
-	/** Applies styles (width). Can adjust ratios based on mode. */
-	private applyStylesAndWidth(mode?: CornellMode): void {
-		console.log("Cornell Plugin: Applying styles and widths...");
-        // Use specific ratios for 'show-all' mode, otherwise use settings
-        const ratio = (mode === 'show-all')
-            ? { left: 33, center: 34, right: 33 } // Equal distribution for show-all
-            : this.settings.paneWidthRatio;
-		this.adjustPaneWidths(ratio); // Pass the chosen ratio
-	}
+const INTEGRITY_ISSUE_LABELS: { [key in IntegrityIssueKind]: string } = {
+    'orphaned-derived': 'Cue/Summary notes without a Source',
+    'stale-map-entry': 'Stale note map entries',
+    'missing-definition': 'References without a definition',
+    'unreferenced-definition': 'Definitions without a reference',
+    'duplicate-definition': 'Duplicate definitions',
+    'missing-in-cue': 'Source definitions missing from the Cue note',
+    'stale-header-link': 'Outdated links back to the Source',
+};
 
-	/** Sets focus and scrolls panes to relevant sections. */
-	private async applyFocusAndScroll(
-		finalFocusLeaf: WorkspaceLeaf | null,
-        sourceFile: TFile,
-        cueFile: TFile,
-        summaryFile: TFile | null
-	): Promise<void> {
-		console.log("Cornell Plugin: Applying focus and scroll...");
-		await sleep(50);
+/** Every definition of a ref after its first one */
+function findDuplicateDefinitions(definitions: ParsedDefinition[]): ParsedDefinition[] {
+    const seen = new Set<string>();
+    return definitions.filter(def => {
+        if (seen.has(def.ref)) return true;
+        seen.add(def.ref);
+        return false;
+    });
+}
 
-		// --- Focus ---
-		if (finalFocusLeaf) {
-			let exists = false;
-            this.app.workspace.iterateAllLeaves(l => { if (l === finalFocusLeaf) exists = true; });
-			if (exists && finalFocusLeaf.parent) {
-				console.log(`Cornell Plugin: Setting final focus to leaf (${finalFocusLeaf.view instanceof MarkdownView ? finalFocusLeaf.view.file?.basename : 'N/A'}).`);
-				this.app.workspace.setActiveLeaf(finalFocusLeaf, { focus: true });
-				await sleep(100); // Allow focus to take effect
-			} else {
-				console.warn(`Cornell Plugin: Leaf intended for focus no longer exists or is detached.`);
-                // Fallback focus to center if available
-                if (this.activeCornellLeaves.center?.parent) {
-                    this.app.workspace.setActiveLeaf(this.activeCornellLeaves.center, { focus: true });
-                     await sleep(100);
-                }
-			}
-		} else {
-			console.log("Cornell Plugin: No specific leaf targeted for final focus.");
-            // Fallback: Ensure the source pane (center) is focused if available
-            if (this.activeCornellLeaves.center?.parent) {
-                this.app.workspace.setActiveLeaf(this.activeCornellLeaves.center, { focus: true });
-                await sleep(100);
-            }
-		}
+/** Removes ranges from a text. `wholeLines` also removes the line break after each range and collapses blank lines. */
+function removeRanges(content: string, ranges: Position[], wholeLines: boolean): string {
+    let result = content;
+    [...ranges].sort((a, b) => b.start - a.start).forEach(range => {
+        const end = wholeLines && result[range.end] === '\n' ? range.end + 1 : range.end;
+        result = result.slice(0, range.start) + result.slice(end);
+    });
+    return wholeLines ? result.replace(/\n{3,}/g, '\n\n') : result;
+}
 
-		// --- Scroll ---
-        // Find section lines in each relevant file
-        const scrollTasks: Promise<void>[] = [];
-        try {
-            const sourceContent = await this.app.vault.cachedRead(sourceFile);
-            const cueContent = await this.app.vault.cachedRead(cueFile);
-            const summaryContent = summaryFile ? await this.app.vault.cachedRead(summaryFile) : "";
+// --- Cornell Modes ---
 
-            const sectionLines = {
-                CUE: this.findSectionLine(cueContent, "CUE") ?? 0,
-                MAIN: this.findSectionLine(sourceContent, "MAIN") ?? 0,
-                SUMMARY: this.findSectionLine(summaryContent, "SUMMARY") ?? 0
-            };
+/** Parses a "left:center:right" width ratio such as "25:50:25". Returns null if the text is invalid. */
+function parseWidthRatio(value: string): PaneWidthRatio | null {
+    const parts = value.split(':').map(p => parseInt(p.trim(), 10));
+    if (parts.length !== 3 || !parts.every(p => !isNaN(p) && p >= 0 && p <= 100) || parts.reduce((a, b) => a + b, 0) <= 0) {
+        return null;
+    }
+    return { left: parts[0], center: parts[1], right: parts[2] };
+}
 
-            console.log("Section lines found:", sectionLines);
+/** Creates a new user-defined mode showing the Cue and Source panes */
+function createCustomMode(name: string): CornellModeDefinition {
+    return {
+        id: `custom-${Date.now().toString(36)}`,
+        name,
+        panes: { left: 'preview', center: 'source' },
+        focus: 'center',
+        widthRatio: null,
+    };
+}
 
-            // Scroll each active pane to its corresponding section
-            if (this.activeCornellLeaves.left?.parent) {
-                scrollTasks.push(this.scrollToSection(this.activeCornellLeaves.left, sectionLines.CUE));
-            }
-            if (this.activeCornellLeaves.center?.parent) {
-                scrollTasks.push(this.scrollToSection(this.activeCornellLeaves.center, sectionLines.MAIN));
-            }
-            if (this.activeCornellLeaves.right?.parent) {
-                scrollTasks.push(this.scrollToSection(this.activeCornellLeaves.right, sectionLines.SUMMARY));
-            }
+// --- Main Plugin Class ---
+export default class CornellPlugin extends Plugin {
+	settings: CornellPluginSettings;
+	private isSwitchingMode: boolean = false;
+    // Track leaf OBJECTS directly for the current Cornell view
+    // Open Cornell layouts, keyed by the path of their SOURCE note
+    private sessions: Map<string, CornellSession> = new Map();
 
-            if (scrollTasks.length > 0) {
-                console.log(`Cornell Plugin: Executing ${scrollTasks.length} scroll tasks.`);
-                await Promise.all(scrollTasks);
-                await sleep(50); // Allow scrolls to finish
-                console.log("Cornell Plugin: Scrolling tasks complete.");
-            } else {
-                console.log("Cornell Plugin: No active panes to scroll.");
-            }
-        } catch (readError) {
-             console.error("Cornell Plugin: Error reading file content for scrolling:", readError);
-        }
-	}
+    // Public accessor for checking if a Cornell mode is active
+    public hasActiveSourceFile(): boolean {
+        return this.sessions.size > 0;
+    }
 
-	// Helper to find the line number of a section header (e.g., ## CUE)
-	findSectionLine(content: string, section: 'CUE' | 'MAIN' | 'SUMMARY'): number | null {
-        if (!content) return null;
-		const lines = content.split('\n');
-		// Matches ## CUE, ##CUE, ## Cue, etc. at the start of a line
-		const regex = new RegExp(`^##\\s*${section}\\b.*`, 'i');
-		for (let i = 0; i < lines.length; i++) {
-			if (regex.test(lines[i].trim())) {
-				// console.log(`Cornell Plugin: Found "## ${section}" at line ${i} in content.`);
-				return i;
-			}
-		}
-		// console.warn(`Cornell Plugin: Section header "## ${section}" not found in the provided content.`);
-		return null;
-	}
+    public getSessions(): CornellSession[] {
+        return Array.from(this.sessions.values());
+    }
+	private isEnforcingPreview: boolean = false; // Flag to prevent recursion for enforceCuePreview
+    /** Any sync (or journal restore) in progress */
+    private get isSyncing(): boolean {
+        return this.syncingSources.size > 0 || this.isRestoringSync;
+    }
 
-	// Helper function to scroll a leaf's view to a specific line
-	async scrollToSection(leaf: WorkspaceLeaf | null, line: number | null): Promise<void> {
-		if (!leaf || line === null || !(leaf.view instanceof MarkdownView) || !leaf.parent) {
-			// console.log(`Cornell Plugin: Skipping scroll for leaf - invalid input or leaf detached.`);
-			return;
-		}
-		const view = leaf.view;
-        const targetMode = view.getMode(); // Scroll in the current mode
-		// console.log(`Cornell Plugin: Scrolling leaf ${view.file?.path} to line ${line} (current mode: ${targetMode}).`);
+    // From main.ts その2
+	private debouncedSyncSourceToCue!: DebouncedFunction<[TFile]>;
+	private debouncedSyncCueToSource!: DebouncedFunction<[TFile]>;
+    private syncingSources: Set<string> = new Set(); // Source notes with a sync in progress
+    private isRestoringSync = false; // Set while journal entries are written back
+    private noteInfoMap: Map<string, CornellNoteInfo> = new Map();
+    private reviewCards: Map<string, CueReviewCard[]> = new Map(); // Source path -> flashcards of its cues
+    private syncJournal: SyncJournalEntry[] = []; // Writes made by syncs, oldest first
+    private savedSyncJournalKey = ''; // Entries last written to the journal file (see syncJournalKey)
+    private debouncedCapturePaneWidths!: () => void;
+    private clozeEditorExtension: Extension[] = []; // Filled while the cloze overlay is active
+    private activeHighlightTimeout: NodeJS.Timeout | null = null;
+    private compiledPathTemplates: Map<string, CompiledPathTemplate> = new Map();
+    private lastSourceLeaves: Map<string, WorkspaceLeaf> = new Map(); // Source path -> leaf where it was last focused (quick capture from the Cue pane)
+    private pendingSourceDeletes: DeletedSourceNotes[] = []; // Deleted Sources waiting for the shared "ask" modal
 
-		try {
-			// No need to switch mode here, scroll in the current mode
-			if (targetMode === 'source') {
-				const editor = view.editor;
-				if (!editor) {
-					console.warn(`Cornell Plugin: Editor not available for source mode scroll in ${view.file?.path}.`);
-					return;
-				}
-				const lineCount = editor.lineCount();
-				const targetLine = Math.max(0, Math.min(line, lineCount > 0 ? lineCount - 1 : 0));
-				const position: EditorPosition = { line: targetLine, ch: 0 };
-				// console.log(`Cornell Plugin: Scrolling source editor to line ${targetLine}.`);
-                // Use scrollIntoView with center alignment if possible
-				editor.scrollIntoView({ from: position, to: position }, true);
-                // Set cursor after scrolling
-                await sleep(50); // Allow scroll animation
-                editor.setCursor(position);
-			} else { // Preview mode scroll
-				// Use the internal scroll function which handles preview scrolling
-                // Ensure previewMode object exists
-                if (view.previewMode) {
-				    view.previewMode.applyScroll(line);
-				    // console.log(`Cornell Plugin: Scrolling preview for ${view.file?.path} to line ${line}.`);
-                } else {
-                    console.warn(`Cornell Plugin: previewMode not available for scrolling in ${view.file?.path}`);
-                }
-			}
-			await sleep(50);
-			// console.log(`Cornell Plugin: Scroll command issued for leaf ${view.file?.path}.`);
-		} catch (scrollError) {
-			console.error(`Cornell Plugin: Error during scroll on leaf ${view.file?.path}:`, scrollError);
-		}
-	}
 
-	// Adjust pane widths based on settings using flexbox
-	adjustPaneWidths(ratio = this.settings.paneWidthRatio): void {
-		const { left, center, right } = this.activeCornellLeaves;
-		// const ratio = this.settings.paneWidthRatio; // Use passed ratio or default
+	async onload() {
+		console.log("Cornell Plugin: Loading Combined Plugin...");
+		await this.loadSettingsAndNoteInfo();
+		await this.initializeOrUpdateNoteInfoMap();
 
-		const activeLeavesMap: { [key in LeafPosition]?: WorkspaceLeaf } = {};
-		let totalRatioUnits = 0;
-		let activePaneCount = 0;
+        // Initialize Debounce functions
+		this.debouncedSyncSourceToCue = debounce( this.syncSourceToCue, INTERNAL_SETTINGS.syncDebounceTime, true ) as DebouncedFunction<[TFile]>;
+		this.debouncedSyncCueToSource = debounce( this.syncCueToSource, INTERNAL_SETTINGS.syncDebounceTime, true ) as DebouncedFunction<[TFile]>;
+		this.debouncedCapturePaneWidths = debounce(this.capturePaneWidths, INTERNAL_SETTINGS.paneWidthCaptureDelay, true);
+
+		// --- Register Commands ---
+		this.addCommand({
+			id: 'cornell-capture-mode',
+			name: 'Cornell: Activate Capture Mode (Cue + Source)',
+			hotkeys: [{ modifiers: ["Alt"], key: "1" }],
+			callback: () => this.activateMode('capture')
+		});
+		this.addCommand({
+			id: 'cornell-recall-mode',
+			name: 'Cornell: Activate Recall Mode (Cue + Summary)',
+			hotkeys: [{ modifiers: ["Alt"], key: "2" }],
+			callback: () => this.activateMode('recall')
+		});
+		this.addCommand({
+			id: 'cornell-review-mode',
+			name: 'Cornell: Activate Review Mode (Source + Summary)',
+			hotkeys: [{ modifiers: ["Alt"], key: "3" }],
+			callback: () => this.activateMode('review')
+		});
+        // NEW: Show All Mode Command
+		this.addCommand({
+			id: 'cornell-show-all-mode',
+			name: 'Cornell: Activate Show All Mode (Cue + Source + Summary)',
+			hotkeys: [{ modifiers: ["Alt"], key: "4" }],
+			callback: () => this.activateMode('show-all') // Reuse activateMode with new type
+		});
+        this.settings.customModes.forEach(mode => this.registerCustomModeCommand(mode));
+		this.addCommand({
+			id: 'toggle-cornell-follow-mode',
+			name: 'Cornell: Toggle Follow Mode (panes track the Source pane)',
+			callback: async () => {
+				this.settings.followMode = !this.settings.followMode;
+				await this.saveSettings();
+				new Notice(`Cornell follow mode ${this.settings.followMode ? 'enabled' : 'disabled'}.`);
+			}
+		});
+		this.addCommand({
+			id: 'toggle-cornell-popout',
+			name: 'Cornell: Move Layout to Popout Window (or Back)',
+			callback: () => {
+				const activeFile = this.app.workspace.getActiveFile();
+				const sourceFile = activeFile && (this.isSourceNote(activeFile.path) ? activeFile : this.getSourceNoteFileFromDerived(activeFile.path));
+				const session = sourceFile ? this.sessions.get(sourceFile.path) : undefined;
+				// Without a layout for the note, open all three panes in a popout window
+				this.activateMode(session?.mode ?? 'show-all', sourceFile ?? undefined, false, !session?.popout)
+					.catch(err => {
+						console.error("Error moving Cornell layout between windows:", err);
+						new Notice('Error moving the Cornell layout. See console.');
+					});
+			}
+		});
+		this.addCommand({
+			id: 'cornell-generate-cue',
+			name: 'Cornell: Generate Cue from Selection (adds to Cue note)',
+			hotkeys: [{ modifiers: ["Alt"], key: "c" }],
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+                // This command should only work when the Source pane (center) is active
+				if (view.file && this.isSourceNote(view.file.path)) {
+                    // Allow even if not in Cornell mode, as long as it's a source note
+					this.generateCue(editor, view);
+				} else {
+					new Notice("Cue generation works on the Source note. Activate the Source pane (usually center) or open the Source note.");
+				}
+			}
+		});
+		this.addCommand({
+			id: 'quick-capture-cue',
+			name: 'Cornell: Quick Capture Cue (no selection needed)',
+			hotkeys: [{ modifiers: ["Alt", "Shift"], key: "c" }],
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				const sourceFile = file ? this.resolveSourceFile(file) : null;
+				if (!sourceFile) return false;
+				if (!checking) {
+					this.quickCaptureCue(sourceFile).catch(err => {
+						console.error("Error during quick cue capture:", err);
+						new Notice('Error adding the quick cue. See console.');
+					});
+				}
+				return true;
+			}
+		});
+		this.addCommand({
+			id: 'suggest-cues',
+			name: 'Cornell: Suggest Cues from Source Note',
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				const sourceFile = file ? this.resolveSourceFile(file) : null;
+				if (!sourceFile) return false;
+				if (!checking) {
+					this.suggestCuesForSource(sourceFile).catch(err => {
+						console.error("Error suggesting cues:", err);
+						new Notice('Error suggesting cues. See console.');
+					});
+				}
+				return true;
+			}
+		});
+        // One command per cue style, independent of the default style in settings
+        (Object.keys(CUE_STYLE_LABELS) as CueStyle[]).forEach(style => {
+            this.addCommand({
+                id: `cornell-generate-cue-${style}`,
+                name: `Cornell: Generate ${CUE_STYLE_LABELS[style]} Cue from Selection`,
+                editorCheckCallback: (checking: boolean, editor: Editor, view: MarkdownView) => {
+                    if (!view.file || !this.isSourceNote(view.file.path)) return false;
+                    if (!checking) this.generateCue(editor, view, style);
+                    return true;
+                }
+            });
+        });
+
+        // Commands from main.ts その2
+        this.addCommand({
+			id: 'sync-source-to-cue-manually',
+			name: 'Cornell: Manual Sync: Source -> Cue',
+			editorCallback: (editor: Editor, view: MarkdownView) => this.manualSyncHandler(view, 'S->C')
+		});
+        this.addCommand({
+            id: 'sync-cue-to-source-manually',
+            name: 'Cornell: Manual Sync: Cue -> Source',
+            editorCheckCallback: (checking: boolean, editor: Editor, view: MarkdownView) => this.manualSyncHandler(view, 'C->S', checking)
+        });
+		this.addCommand({
+			id: 'sync-all-notes-source-to-cue',
+			name: 'Cornell: Sync All Notes (Source -> Cue)',
+			callback: async () => {
+				await this.processAllNotesSourceToCue()
+				  .catch(err => { console.error('Error during full sync (S->C):', err); new Notice('Full sync (S->C) failed. See console.'); });
+			},
+		});
+		this.addCommand({
+			id: 'batch-sync-cornell-notes',
+			name: 'Cornell: Batch Sync...',
+			callback: async () => {
+				const options = await new BatchSyncScopeModal(this.app).openAndWait();
+				if (!options) return;
+				await this.runBatchSync(options)
+				  .catch(err => { console.error('Error during batch sync:', err); new Notice('Batch sync failed. See console.'); });
+			},
+		});
+		this.addCommand({
+			id: 'revert-last-cornell-sync',
+			name: 'Cornell: Revert Last Sync',
+			callback: () => {
+				this.revertLastSyncOperation()
+					.catch(err => { console.error('Error reverting the last sync:', err); new Notice('Reverting the last sync failed. See console.'); });
+			},
+		});
+		this.addCommand({
+			id: 'show-cornell-sync-history',
+			name: 'Cornell: Show Sync History',
+			callback: () => this.showSyncHistory(),
+		});
+		this.addCommand({
+			id: 'renumber-cues',
+			name: 'Cornell: Renumber Cues in Reading Order',
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				const sourceFile = file ? this.resolveSourceFile(file) : null;
+				if (!sourceFile) return false;
+				if (!checking) {
+					this.renumberCues(sourceFile)
+						.catch(err => { console.error(`Error renumbering cues of ${sourceFile.path}:`, err); new Notice('Renumbering cues failed. See console.'); });
+				}
+				return true;
+			},
+		});
+		this.addCommand({
+			id: 'check-cornell-integrity',
+			name: 'Cornell: Check Integrity',
+			callback: () => this.showIntegrityCheck(),
+		});
+		this.addCommand({
+			id: 'migrate-cornell-note-locations',
+			name: 'Cornell: Move Cue/Summary Notes to Configured Location',
+			callback: () => {
+				this.migrateDerivedNoteLocations()
+					.catch(err => { console.error('Error migrating Cue/Summary note locations:', err); new Notice('Moving Cue/Summary notes failed. See console.'); });
+			},
+		});
+		this.addCommand({
+			id: 'review-due-cues',
+			name: 'Cornell: Review Due Cues',
+			callback: () => {
+				this.reviewDueCues()
+					.catch(err => { console.error('Error starting cue review:', err); new Notice('Could not start the cue review. See console.'); });
+			},
+		});
+		this.addCommand({
+			id: 'export-cornell-page-html',
+			name: 'Cornell: Export Cornell Page as HTML',
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				const sourceFile = file ? this.resolveSourceFile(file) : null;
+				if (!sourceFile) return false;
+				if (!checking) {
+					this.exportCornellPage(sourceFile)
+						.catch(err => { console.error(`Error exporting Cornell page for ${sourceFile.path}:`, err); new Notice('HTML export failed. See console.'); });
+				}
+				return true;
+			},
+		});
+		this.addCommand({
+			id: 'export-cues-to-anki-note',
+			name: 'Cornell: Export Cues to Anki (Current Note)',
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				const sourceFile = file ? this.resolveSourceFile(file) : null;
+				if (!sourceFile) return false;
+				if (!checking) {
+					this.exportCuesToAnki([sourceFile], sourceFile.basename)
+						.catch(err => { console.error('Error exporting cues to Anki:', err); new Notice('Anki export failed. See console.'); });
+				}
+				return true;
+			},
+		});
+		this.addCommand({
+			id: 'export-cues-to-anki-folder',
+			name: 'Cornell: Export Cues to Anki (Current Folder)',
+			checkCallback: (checking: boolean) => {
+				const folder = this.app.workspace.getActiveFile()?.parent;
+				if (!folder) return false;
+				if (!checking) {
+					this.exportCuesToAnki(this.getSourceNotes(folder), folder.isRoot() ? 'the vault root' : folder.path)
+						.catch(err => { console.error('Error exporting cues to Anki:', err); new Notice('Anki export failed. See console.'); });
+				}
+				return true;
+			},
+		});
+		this.addCommand({
+			id: 'export-cues-to-anki-vault',
+			name: 'Cornell: Export Cues to Anki (Whole Vault)',
+			callback: () => {
+				this.exportCuesToAnki(this.getSourceNotes(), 'the vault')
+					.catch(err => { console.error('Error exporting cues to Anki:', err); new Notice('Anki export failed. See console.'); });
+			},
+		});
+		this.addCommand({
+			id: 'arrange-cornell-notes',
+			name: 'Cornell: Arrange Cornell Notes View',
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+                const file = view.file;
+				if (file && this.isSourceNote(file.path)) {
+                    // Run from Source note
+					this.arrangeCornellNotesView(file, view.leaf)
+						.then(() => new Notice(`Arranged view for ${file.basename}. Cue/Summary notes created/opened if needed.`))
+						.catch(err => {
+							console.error(`Error arranging view for ${file.path}:`, err);
+							new Notice('Error arranging view. See console.');
+						});
+				} else if (file) {
+					new Notice('Run "Arrange Cornell Notes View" from the main Source note.');
+				} else {
+					new Notice('No active file to arrange view for.');
+				}
+            },
+		});
+		this.addCommand({
+			id: 'highlight-first-source-reference',
+			name: 'Cornell: Highlight First Reference in Source (from Cue def/button)',
+			editorCheckCallback: (checking: boolean, editor: Editor, view: MarkdownView) => {
+                if (view.file && (this.isCueNote(view.file.path) || this.getSourceNoteFileForCue(view.file.path) === view.file)) {
+					if (!checking) {
+						const cursor = editor.getCursor();
+						const currentLine = editor.getLine(cursor.line);
+						const defMatch = currentLine.match(/^\s*\[\^([^\]]+?)\]:/);
+                        const cbRefMatch = currentLine.match(/^\s*\[\^(\w+?)\]/); // Matches button text
+                        const ref = defMatch?.[1]?.trim() || cbRefMatch?.[1]?.trim();
+						if (ref) {
+							this.highlightFirstSourceReference(ref, view.file.path)
+								.catch(err => {
+									console.error(`Error highlighting source for ref [${ref}] via command from ${view.file?.path}:`, err);
+                                    new Notice(`Error highlighting ref [${ref}]. See console.`);
+								});
+						} else {
+                            new Notice("Place cursor on a footnote definition line ([^ref]:) or a button ([^ref]) in the Cue note.");
+						}
+					}
+					return true;
+				}
+				return false;
+            }
+		});
+
+		// FR-04: Restore Layout on Load
+		this.app.workspace.onLayoutReady(async () => {
+			if (this.settings.openSessions.length === 0) return;
+			// Restore every layout that was open, one after another
+			const sessionsToRestore = [...this.settings.openSessions];
+			await sleep(1500); // Wait for workspace stability
+
+			for (const { file: path, mode, popout } of sessionsToRestore) {
+				const file = this.app.vault.getAbstractFileByPath(path);
+				if (!(file instanceof TFile) || !this.isSourceNote(file.path)) { // Ensure it's a source note
+					console.log(`Cornell Plugin: Restore cancelled - Source file not found or invalid: ${path}`);
+					await this.forgetOpenSession(path);
+					continue;
+				}
+				if (this.isSwitchingMode) {
+					console.log("Cornell Plugin: Mode switch already in progress during restore attempt.");
+					break;
+				}
+				try {
+					await this.activateMode(mode, file, true, popout ?? false);
+					console.log(`Cornell Plugin: Restore successful for ${file.path} in ${mode} mode.`);
+				} catch (error) {
+					console.error("Cornell Plugin: Error during restore state activation:", error);
+				}
+			}
+		});
+
+
+		// Add Settings Tab
+		this.addSettingTab(new CornellSettingTab(this.app, this));
+
+		// Enforce Cue Preview Mode (From main.ts その1)
+		this.registerEvent(this.app.workspace.on('active-leaf-change', async (leaf) => {
+            // Only enforce if the setting is on, it's the tracked left leaf, and not already enforcing
+			const owner = leaf ? this.findSessionLeaf(l => l === leaf) : null;
+			if (!leaf || !owner || owner.position !== 'left' || !this.isCuePreviewEnforced(owner.session) || this.isEnforcingPreview) {
+				return;
+			}
+			const view = leaf.view;
+			if (view instanceof MarkdownView && view.getMode() !== 'preview') {
+				this.isEnforcingPreview = true;
+				// console.log(`Cornell Plugin: Enforcing preview mode for Cue pane.`);
+				try {
+					await this.setMarkdownViewMode(view, 'preview');
+                    await sleep(50); // Give it time to render
+				} catch (error) {
+					console.error("Error enforcing preview mode:", error);
+				} finally {
+					setTimeout(() => this.isEnforcingPreview = false, 200); // Prevent rapid re-triggering
+				}
+			}
+		}));
+
+        // Remember where each Source note was last focused, so quick capture from the Cue pane attaches there
+        this.registerEvent(this.app.workspace.on('active-leaf-change', (leaf) => {
+            if (!leaf || !(leaf.view instanceof MarkdownView) || !leaf.view.file || !this.isSourceNote(leaf.view.file.path)) return;
+            const position = this.findSessionLeaf(l => l === leaf)?.position;
+            if (position === 'left' || position === 'right') return;
+            this.lastSourceLeaves.set(leaf.view.file.path, leaf);
+        }));
+
+        // Register file modification handler for auto-sync (From main.ts その2)
+		this.registerEvent(this.app.vault.on('modify', this.handleFileModifyForAutoSync));
+        // Keep Cue/Summary notes attached to their Source through rename, move and delete
+        this.registerEvent(this.app.vault.on('rename', this.handleFileRename));
+        this.registerEvent(this.app.vault.on('delete', this.handleFileDelete));
+        // Learn pane widths from manual resizing of the Cornell splits
+        this.registerEvent(this.app.workspace.on('layout-change', () => this.debouncedCapturePaneWidths()));
+        // Forget layouts whose panes were all closed
+        this.registerEvent(this.app.workspace.on('layout-change', this.pruneClosedSessions));
+        this.registerEvent(this.app.workspace.on('layout-change', this.pruneLastSourceLeaves));
+        this.registerEvent(this.app.workspace.on('window-close', this.handlePopoutClose));
+        // Follow mode: Cue/Summary panes switch along with the Source pane
+        this.registerEvent(this.app.workspace.on('file-open', this.handleFileOpenForFollow));
+        this.registerEvent(this.app.workspace.on('resize', () => this.debouncedCapturePaneWidths()));
+
+        // Register custom code block processor (From main.ts その2)
+        this.registerMarkdownCodeBlockProcessor(
+            INTERNAL_SETTINGS.codeBlockProcessorId,
+            this.cornellLinksCodeBlockProcessor
+        );
+
+        // Cloze overlay for cued passages during Recall/Review (reading view and editor)
+        this.registerMarkdownPostProcessor(this.clozePostProcessor);
+        this.registerEditorExtension(this.clozeEditorExtension);
+
+		// Save settings when unloading
+		this.register(async () => {
+			if (!this.isSwitchingMode && !this.isSyncing) { // Avoid saving intermediate state
+				await this.saveData();
+			}
+		});
+
+		console.log("Cornell Plugin: Loaded successfully (Combined).");
+	}
+
+	onunload() {
+		console.log("Cornell Plugin: Unloading Combined Plugin...");
+        // Detach leaves on unload. openSessions is kept, so the layouts come back on the next load.
+		this.getSessions().forEach(session => this.closeSession(session, true).catch(err => console.error("Cornell Plugin: Error closing session on unload:", err)));
+        this.debouncedSyncSourceToCue?.cancel();
+		this.debouncedSyncCueToSource?.cancel();
+        if (this.activeHighlightTimeout) { clearTimeout(this.activeHighlightTimeout); this.activeHighlightTimeout = null; }
+        console.log("Cornell Plugin: Unloaded.");
+	}
+
+	// --- Data Loading/Saving (Combined) ---
+    async loadSettingsAndNoteInfo() {
+        const savedData = await this.loadData();
+        const loadedSettings = savedData?.settings ?? {};
+        this.settings = Object.assign({}, DEFAULT_SETTINGS, loadedSettings);
+
+        // Migrate/Clean old settings if necessary
+        ['captureHotkey', 'recallHotkey', 'reviewHotkey', 'generateCueHotkey', 'someOtherOldSetting', 'showReferencesInCue', 'lastMode', 'lastFile'].forEach(key => {
+            if ((this.settings as any)[key] !== undefined) delete (this.settings as any)[key];
+        });
+
+        // Type checking for settings (using defaults as fallback)
+        for (const key in DEFAULT_SETTINGS) {
+            if (typeof this.settings[key as keyof CornellPluginSettings] !== typeof DEFAULT_SETTINGS[key as keyof CornellPluginSettings]) {
+                if (key !== 'paneWidthRatio') { // Allow object for this
+                     console.warn(`Cornell Setting: Type mismatch for '${key}', reverting to default.`);
+                     (this.settings as any)[key] = DEFAULT_SETTINGS[key as keyof CornellPluginSettings];
+                }
+            }
+        }
+        // Specific checks for complex types
+        if (typeof this.settings.paneWidthRatio !== 'object' || !this.settings.paneWidthRatio || !('left' in this.settings.paneWidthRatio)) {
+            this.settings.paneWidthRatio = DEFAULT_SETTINGS.paneWidthRatio;
+        }
+        if (validatePathTemplates(this.settings.cueNotePathTemplate, this.settings.summaryNotePathTemplate)) {
+            console.warn("Cornell Setting: Invalid note path templates, reverting to defaults.");
+            this.settings.cueNotePathTemplate = DEFAULT_SETTINGS.cueNotePathTemplate;
+            this.settings.summaryNotePathTemplate = DEFAULT_SETTINGS.summaryNotePathTemplate;
+        }
+        if (!['A4', 'Letter'].includes(this.settings.exportPageSize)) {
+            this.settings.exportPageSize = DEFAULT_SETTINGS.exportPageSize;
+        }
+        if (!Object.keys(CUE_STYLE_LABELS).includes(this.settings.cueStyle)) {
+            this.settings.cueStyle = DEFAULT_SETTINGS.cueStyle;
+        }
+        if (!['cursor', 'line-end', 'paragraph-end'].includes(this.settings.quickCueAttachAt)) {
+            this.settings.quickCueAttachAt = DEFAULT_SETTINGS.quickCueAttachAt;
+        }
+        if (!['separate', 'single-file'].includes(this.settings.storageMode)) {
+            this.settings.storageMode = DEFAULT_SETTINGS.storageMode;
+        }
+        if (!['ask', 'delete', 'archive', 'keep'].includes(this.settings.derivedNotesOnSourceDelete)) {
+            this.settings.derivedNotesOnSourceDelete = DEFAULT_SETTINGS.derivedNotesOnSourceDelete;
+        }
+        if (!Array.isArray(this.settings.customModes)) {
+            this.settings.customModes = [];
+        }
+        this.settings.customModes = this.settings.customModes.filter(mode => {
+            const valid = this.isValidModeDefinition(mode);
+            if (!valid) console.warn("Cornell Setting: Invalid custom mode removed:", mode);
+            return valid;
+        });
+        // Layouts saved before several could be open at once
+        const legacySettings = loadedSettings as { lastMode?: CornellMode | null, lastFile?: string | null };
+        if (legacySettings.lastMode && legacySettings.lastFile && this.settings.openSessions.length === 0) {
+            this.settings.openSessions = [{ file: legacySettings.lastFile, mode: legacySettings.lastMode }];
+        }
+        // Ensure saved layouts use existing modes
+        if (!Array.isArray(this.settings.openSessions)) this.settings.openSessions = [];
+        this.settings.openSessions = this.settings.openSessions.filter(open =>
+            typeof open === 'object' && open !== null && typeof open.file === 'string' && !!this.getModeDefinition(open.mode));
+        if (typeof this.settings.modeWidthRatios !== 'object' || this.settings.modeWidthRatios === null) {
+            this.settings.modeWidthRatios = {};
+        }
+
+
+        // Load NoteInfoMap
+        this.noteInfoMap = new Map<string, CornellNoteInfo>();
+        if (savedData?.noteInfoMap && typeof savedData.noteInfoMap === 'object') {
+            try {
+                for (const [key, value] of Object.entries(savedData.noteInfoMap)) {
+                    if (this.isValidCornellNoteInfo(key, value)) {
+                        const info = value as CornellNoteInfo;
+                        info.baseDefinitions = info.baseDefinitions ?? null; // Entries saved before 3-way merge have no base
+                        info.cueSpans = info.cueSpans ?? {};
+                        info.widthRatios = info.widthRatios ?? {};
+                        this.noteInfoMap.set(key, info);
+                    } else {
+                        console.warn("Invalid NoteInfo data found during load for key:", key, "Data:", value);
+                    }
+                }
+                console.log(`Cornell Plugin: Loaded ${this.noteInfoMap.size} entries into noteInfoMap.`);
+            } catch (e) {
+                console.error("Cornell Plugin: Failed to deserialize noteInfoMap:", e);
+                this.noteInfoMap = new Map();
+            }
+        } else {
+            console.log("Cornell Plugin: No valid saved noteInfoMap found, initializing empty map.");
+        }
+
+        // Load review schedules
+        this.reviewCards = new Map<string, CueReviewCard[]>();
+        if (savedData?.reviewCards && typeof savedData.reviewCards === 'object') {
+            for (const [key, value] of Object.entries(savedData.reviewCards)) {
+                if (Array.isArray(value) && value.every(card => this.isValidCueReviewCard(card))) {
+                    const cards = value as CueReviewCard[];
+                    cards.forEach(card => card.id = card.id ?? createCardId()); // Cards saved before export IDs existed
+                    this.reviewCards.set(key, cards);
+                } else {
+                    console.warn("Invalid review card data found during load for key:", key, "Data:", value);
+                }
+            }
+        }
+
+        // Load sync journal (kept in data.json by earlier versions; moved to its own file on the next save)
+        this.syncJournal = [];
+        let savedJournal: unknown = savedData?.syncJournal;
+        let journalFromFile = false;
+        const journalPath = this.getSyncJournalPath();
+        try {
+            if (await this.app.vault.adapter.exists(journalPath)) {
+                savedJournal = JSON.parse(await this.app.vault.adapter.read(journalPath));
+                journalFromFile = true;
+            }
+        } catch (error) {
+            console.error(`Cornell Plugin: Could not read the sync journal from ${journalPath}:`, error);
+        }
+        if (Array.isArray(savedJournal)) {
+            this.syncJournal = savedJournal.filter((entry: unknown) => this.isValidSyncJournalEntry(entry));
+            if (this.syncJournal.length !== savedJournal.length) {
+                console.warn(`Cornell Plugin: Dropped ${savedJournal.length - this.syncJournal.length} invalid sync journal entries during load.`);
+            }
+            this.syncJournal = trimSyncJournal(this.syncJournal, INTERNAL_SETTINGS.syncJournalMaxOperations, INTERNAL_SETTINGS.syncJournalMaxBytes);
+            // An unchanged journal file is not written again; a migrated or trimmed journal is
+            if (journalFromFile && this.syncJournal.length === savedJournal.length) this.savedSyncJournalKey = this.syncJournalKey();
+        }
+    }
+
+    private isValidModeDefinition(data: unknown): boolean {
+        const value = data as Partial<CornellModeDefinition> | null;
+        const positions: LeafPosition[] = ['left', 'center', 'right'];
+        return typeof value === 'object' && value !== null &&
+               typeof value.id === 'string' && !Object.keys(BUILT_IN_MODES).includes(value.id) &&
+               typeof value.name === 'string' &&
+               typeof value.panes === 'object' && value.panes !== null &&
+               Object.entries(value.panes).every(([pos, viewMode]) => positions.includes(pos as LeafPosition) && (viewMode === 'source' || viewMode === 'preview')) &&
+               positions.includes(value.focus as LeafPosition) &&
+               (value.widthRatio === null || (typeof value.widthRatio === 'object' && 'left' in value.widthRatio)) &&
+               (value.popout === undefined || typeof value.popout === 'boolean');
+    }
+
+    private isValidCueReviewCard(data: unknown): boolean {
+        const value = data as Partial<CueReviewCard> | null;
+        return typeof value === 'object' && value !== null &&
+               typeof value.ref === 'string' && typeof value.definition === 'string' &&
+               typeof value.ease === 'number' && typeof value.interval === 'number' &&
+               typeof value.repetitions === 'number' && typeof value.due === 'number' &&
+               (value.lastReviewed === null || typeof value.lastReviewed === 'number');
+    }
+
+    private isValidSyncJournalEntry(data: unknown): boolean {
+        const value = data as Partial<SyncJournalEntry> | null;
+        return typeof value === 'object' && value !== null &&
+               typeof value.operationId === 'string' && typeof value.path === 'string' &&
+               typeof value.trigger === 'string' && Object.keys(SYNC_TRIGGER_LABELS).includes(value.trigger) &&
+               typeof value.timestamp === 'number' &&
+               typeof value.beforeHash === 'string' && typeof value.afterHash === 'string' &&
+               typeof value.beforeContent === 'string';
+    }
+
+    private isValidCornellNoteInfo(key: any, value: any): boolean {
+         return typeof key === 'string' &&
+               typeof value === 'object' && value !== null &&
+               'sourcePath' in value && typeof value.sourcePath === 'string' &&
+               'cuePath' in value && (value.cuePath === null || typeof value.cuePath === 'string') &&
+               'summaryPath' in value && (value.summaryPath === null || typeof value.summaryPath === 'string') &&
+               'lastSyncSourceToCue' in value && (value.lastSyncSourceToCue === null || typeof value.lastSyncSourceToCue === 'number') &&
+               'lastSyncCueToSource' in value && (value.lastSyncCueToSource === null || typeof value.lastSyncCueToSource === 'number') &&
+               (value.baseDefinitions === undefined || value.baseDefinitions === null || typeof value.baseDefinitions === 'object') &&
+               (value.cueSpans === undefined || (typeof value.cueSpans === 'object' && value.cueSpans !== null)) &&
+               (value.widthRatios === undefined || (typeof value.widthRatios === 'object' && value.widthRatios !== null));
+    }
+
+	async saveData() {
+        const serializableMap: { [key: string]: CornellNoteInfo } = {};
+        for (const [key, value] of this.noteInfoMap.entries()) {
+            serializableMap[key] = value;
+        }
+        const serializableReviewCards: { [key: string]: CueReviewCard[] } = {};
+        for (const [key, value] of this.reviewCards.entries()) {
+            serializableReviewCards[key] = value;
+        }
+        // Save settings, note info map and review schedules. The sync journal is only rewritten when it changed.
+        await this.saveSyncJournal();
+        await super.saveData({ settings: this.settings, noteInfoMap: serializableMap, reviewCards: serializableReviewCards });
+	}
+
+    private getSyncJournalPath(): string {
+        const pluginDir = this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+        return normalizePath(`${pluginDir}/${INTERNAL_SETTINGS.syncJournalFileName}`);
+    }
+
+    /** Identifies the journal entries without their before-states, to tell whether the journal file is outdated */
+    private syncJournalKey(): string {
+        return this.syncJournal.map(entry => `${entry.operationId}|${entry.path}|${entry.afterHash}`).join('\n');
+    }
+
+    private async saveSyncJournal(): Promise<void> {
+        const key = this.syncJournalKey();
+        if (key === this.savedSyncJournalKey) return;
+        await this.app.vault.adapter.write(this.getSyncJournalPath(), JSON.stringify(this.syncJournal));
+        this.savedSyncJournalKey = key;
+    }
+
+    async saveSettings() { // Primarily for use by the settings tab
+        await this.saveData();
+    }
+
+	// --- NoteInfoMap Initialization/Update (From main.ts その2) ---
+    async initializeOrUpdateNoteInfoMap() {
+        console.log("[Cornell Plugin] Initializing or updating Note Info Map...");
+        const allMarkdownFiles = this.app.vault.getMarkdownFiles();
+        const currentMapKeys = new Set(this.noteInfoMap.keys());
+        let added = 0, updated = 0, removed = 0;
+        let mapChanged = false;
+        // Derived notes recorded in the map stay derived notes, even if the path templates no longer match them
+        const recordedDerivedPaths = new Set<string>();
+        for (const info of this.noteInfoMap.values()) {
+            if (info.cuePath) recordedDerivedPaths.add(info.cuePath);
+            if (info.summaryPath) recordedDerivedPaths.add(info.summaryPath);
+        }
+        const existingFilePath = (...paths: Array<string | null | undefined>): string | null => {
+            for (const path of paths) {
+                const file = path ? this.app.vault.getAbstractFileByPath(path) : null;
+                if (file instanceof TFile) return file.path;
+            }
+            return null;
+        };
+
+        await Promise.all(allMarkdownFiles.map(async file => {
+            if (!this.isSourceNote(file.path) || recordedDerivedPaths.has(file.path)) return; // Only process Source notes
+
+            const sourcePath = file.path;
+            const currentInfo = this.noteInfoMap.get(sourcePath);
+            // Prefer the expected location; fall back to a recorded location not yet migrated
+            const actualCuePath = existingFilePath(this.getCueNotePath(file), currentInfo?.cuePath);
+            const actualSummaryPath = existingFilePath(this.getSummaryNotePath(file), currentInfo?.summaryPath);
+
+            if (currentInfo) {
+                let infoNeedsUpdate = false;
+                if (currentInfo.cuePath !== actualCuePath) {
+                    currentInfo.cuePath = actualCuePath;
+                    infoNeedsUpdate = true;
+                }
+                if (currentInfo.summaryPath !== actualSummaryPath) {
+                    currentInfo.summaryPath = actualSummaryPath;
+                    infoNeedsUpdate = true;
+                }
+                if (infoNeedsUpdate) {
+                    updated++;
+                    this.noteInfoMap.set(sourcePath, currentInfo);
+                    mapChanged = true;
+                }
+                currentMapKeys.delete(sourcePath);
+            } else {
+                const newInfo: CornellNoteInfo = {
+                    sourcePath,
+                    cuePath: actualCuePath,
+                    summaryPath: actualSummaryPath,
+                    lastSyncSourceToCue: null,
+                    lastSyncCueToSource: null,
+                    baseDefinitions: null,
+                    cueSpans: {},
+                    widthRatios: {}
+                };
+                this.noteInfoMap.set(sourcePath, newInfo);
+                added++;
+                mapChanged = true;
+            }
+        }));
+
+        for (const deletedSourcePath of currentMapKeys) {
+            if (this.noteInfoMap.delete(deletedSourcePath)) {
+                removed++;
+                mapChanged = true;
+            }
+        }
+
+        console.log(`[Cornell Plugin] Note Info Map update: Added ${added}, Updated ${updated}, Removed ${removed}. Total: ${this.noteInfoMap.size}`);
+        if (mapChanged) {
+            await this.saveData();
+            console.log("[Cornell Plugin] NoteInfoMap saved.");
+        }
+    }
+
+	// --- Event Handlers (Combined) ---
+	private handleFileModifyForAutoSync = (file: TAbstractFile) => {
+		if (!this.settings.syncOnSave || this.isSyncing || this.isSwitchingMode) return;
+
+		if (file instanceof TFile && file.extension === 'md') {
+			if (this.isSourceNote(file.path)) {
+                // Source note modified -> Schedule S->C sync
+                console.log(`[Auto Sync] Detected modification in Source: ${file.path}. Scheduling S->C sync.`);
+                this.debouncedSyncSourceToCue(file);
+			} else if (this.isCueNote(file.path)) {
+                // Cue note modified -> Schedule C->S sync
+                console.log(`[Auto Sync] Detected modification in Cue: ${file.path}. Scheduling C->S sync.`);
+                this.debouncedSyncCueToSource(file);
+			}
+            // Summary note changes do not trigger sync
+		}
+	};
+
+    /** Source renamed/moved: move its Cue/Summary notes along. Derived note renamed/moved: update the map. */
+    private handleFileRename = async (file: TAbstractFile, oldPath: string): Promise<void> => {
+        if (!(file instanceof TFile) || file.extension !== 'md') return;
+        try {
+            // An open layout follows its Source note
+            const session = this.sessions.get(oldPath);
+            if (session) {
+                this.sessions.delete(oldPath);
+                this.sessions.set(file.path, session);
+            }
+            this.settings.openSessions.forEach(open => { if (open.file === oldPath) open.file = file.path; });
+            const lastSourceLeaf = this.lastSourceLeaves.get(oldPath);
+            if (lastSourceLeaf) {
+                this.lastSourceLeaves.delete(oldPath);
+                this.lastSourceLeaves.set(file.path, lastSourceLeaf);
+            }
+
+            // Review schedules follow their Source note
+            const reviewCards = this.reviewCards.get(oldPath);
+            if (reviewCards) {
+                this.reviewCards.delete(oldPath);
+                this.reviewCards.set(file.path, reviewCards);
+            }
+            let journalChanged = false;
+            this.syncJournal.forEach(entry => {
+                if (entry.path === oldPath) {
+                    entry.path = file.path;
+                    journalChanged = true;
+                }
+            });
+
+            const info = this.noteInfoMap.get(oldPath);
+            if (info && this.isSourceNote(file.path)) {
+                console.log(`[Rename] Source note moved: ${oldPath} -> ${file.path}`);
+                await this.moveDerivedNotesWithSource(file, oldPath, info);
+                return;
+            }
+
+            let mapChanged = false;
+            for (const noteInfo of this.noteInfoMap.values()) {
+                if (noteInfo.cuePath === oldPath) {
+                    noteInfo.cuePath = file.path;
+                    mapChanged = true;
+                }
+                if (noteInfo.summaryPath === oldPath) {
+                    noteInfo.summaryPath = file.path;
+                    mapChanged = true;
+                }
+            }
+            if (mapChanged) {
+                console.log(`[Rename] Derived note moved: ${oldPath} -> ${file.path}`);
+            }
+            if (mapChanged || reviewCards || journalChanged) await this.saveData();
+        } catch (error) {
+            console.error(`[Rename] Error handling rename ${oldPath} -> ${file.path}:`, error);
+            new Notice(`Error updating Cornell notes after renaming ${file.basename}. See console.`);
+        }
+    };
+
+    /** Source deleted: forget it and delete, archive or keep its Cue/Summary notes. Derived note deleted: update the map. */
+    private handleFileDelete = async (file: TAbstractFile): Promise<void> => {
+        if (!(file instanceof TFile) || file.extension !== 'md') return;
+        try {
+            this.lastSourceLeaves.delete(file.path);
+            const hadReviewCards = this.reviewCards.delete(file.path);
+            const info = this.noteInfoMap.get(file.path);
+            if (!info) {
+                let mapChanged = hadReviewCards;
+                for (const noteInfo of this.noteInfoMap.values()) {
+                    if (noteInfo.cuePath === file.path) {
+                        noteInfo.cuePath = null;
+                        noteInfo.baseDefinitions = null;
+                        mapChanged = true;
+                    }
+                    if (noteInfo.summaryPath === file.path) {
+                        noteInfo.summaryPath = null;
+                        mapChanged = true;
+                    }
+                }
+                if (mapChanged) await this.saveData();
+                return;
+            }
+
+            console.log(`[Delete] Source note deleted: ${file.path}`);
+            this.noteInfoMap.delete(file.path);
+            const derivedFiles = [info.cuePath, info.summaryPath]
+                .map(path => path ? this.app.vault.getAbstractFileByPath(path) : null)
+                .filter((f): f is TFile => f instanceof TFile);
+            const onDelete = this.settings.derivedNotesOnSourceDelete;
+            if (derivedFiles.length > 0 && onDelete === 'ask') {
+                // Queued before any await, so all Sources of a deleted folder end up in one modal
+                if (this.pendingSourceDeletes.length === 0) window.setTimeout(() => this.askAboutDeletedSources(), 0);
+                this.pendingSourceDeletes.push({ sourceName: file.basename, files: derivedFiles });
+            }
+
+            const session = this.sessions.get(file.path);
+            if (session) await this.closeSession(session, false);
+            await this.forgetOpenSession(file.path); // Saves
+            if (derivedFiles.length > 0 && onDelete !== 'ask') {
+                await this.applyDerivedNotesDeleteAction(derivedFiles, onDelete);
+            }
+        } catch (error) {
+            console.error(`[Delete] Error handling deletion of ${file.path}:`, error);
+            new Notice(`Error cleaning up Cornell notes for ${file.basename}. See console.`);
+        }
+    };
+
+    // --- Manual Sync Handler (From main.ts その2) ---
+	private manualSyncHandler(view: MarkdownView, direction: 'S->C' | 'C->S', checking?: boolean): boolean | void {
+		const file = view.file;
+		if (!file) {
+			if (!checking) new Notice('No active file.');
+			return false;
+		}
+
+		if (direction === 'S->C') {
+            // S->C sync runs from Source note
+			if (!this.isSourceNote(file.path)) {
+				if (!checking) new Notice('Run S->C sync from the Source note.');
+				return false;
+			}
+			if (!checking) {
+				new Notice(`Manual Sync: S->C starting for ${file.basename}...`);
+				this.syncSourceToCue(file, this.startSyncOperation('sync-source-to-cue'), true)
+					.then(result => this.notifyManualSyncResult('S->C', result, `Manual Sync: Cue updated for ${file.basename}.`))
+					.catch(err => {
+						console.error(`Manual Sync Error (S->C): ${file.path}`, err);
+						new Notice('Sync Error (S->C). See console.');
+					});
+			}
+            return true;
+		} else if (direction === 'C->S') {
+            // C->S sync runs from Cue note
+			if (!this.isCueNote(file.path)) {
+				if (!checking) new Notice('Run C->S sync from the Cue note.');
+				return false;
+			}
+			if (!checking) {
+				new Notice(`Manual Sync: C->S starting from ${file.basename}...`);
+				this.syncCueToSource(file, this.startSyncOperation('sync-cue-to-source'), true)
+					.then(result => {
+                        const sourceFile = this.getSourceNoteFileFromDerived(file.path);
+                        this.notifyManualSyncResult('C->S', result, `Manual Sync: Source (${sourceFile?.basename ?? 'unknown'}) updated from ${file.basename}.`);
+                    })
+					.catch(err => {
+						console.error(`Manual Sync Error (C->S): ${file.path}`, err);
+						new Notice('Sync Error (C->S). See console.');
+					});
+			}
+            return true;
+		}
+		return false;
+	}
+
+	/** Notice for the result of a manual sync: the success message only if something was written */
+	private notifyManualSyncResult(direction: 'S->C' | 'C->S', result: SyncResult, updatedMessage: string): void {
+		switch (result.outcome) {
+			case 'created':
+			case 'updated':
+				new Notice(updatedMessage);
+				break;
+			case 'unchanged':
+				new Notice(`Manual Sync (${direction}): Already in sync, nothing was written.`);
+				break;
+			case 'skipped':
+				new Notice(`Manual Sync (${direction}) skipped: ${result.detail ?? 'Nothing was written.'}`);
+				break;
+			default:
+				new Notice(`Manual Sync (${direction}) failed: ${result.detail ?? 'See console.'}`);
+		}
+	}
+
+	// --- Core Cornell Mode Switching Logic (Combined) ---
+
+	/**
+	 * Main function to activate a Cornell mode (Capture, Recall, Review, Show All).
+	 * @param mode The Cornell mode to activate.
+	 * @param targetSourceFile The specific SOURCE file to use. If null, uses the active file.
+	 * @param isRestore Whether this activation is part of restoring the layout on load.
+	 */
+	async activateMode(mode: CornellMode, targetSourceFile?: TFile, isRestore: boolean = false, inPopout?: boolean): Promise<void> {
+		if (this.isSwitchingMode || this.isSyncing) {
+			console.warn(`Cornell Plugin: Mode switch (${mode}) aborted, another operation in progress (Switching: ${this.isSwitchingMode}, Syncing: ${this.isSyncing}).`);
+			if (!isRestore) new Notice("Please wait for the current operation to finish.");
+			return;
+		}
+		const modeDefinition = this.getModeDefinition(mode);
+		if (!modeDefinition) {
+			if (!isRestore) new Notice(`Cornell mode "${mode}" no longer exists.`);
+			return;
+		}
+		this.isSwitchingMode = true;
+		console.log(`Cornell Plugin: Activating mode ${mode}... (Restore: ${isRestore})`);
+
+		const activeFile = targetSourceFile ?? this.app.workspace.getActiveFile();
+		if (!activeFile) {
+			new Notice("Please open a note file first.");
+			this.isSwitchingMode = false;
+			return;
+		}
+
+        // Ensure we are operating on a SOURCE note
+        const sourceFile = this.isSourceNote(activeFile.path)
+            ? activeFile
+            : this.getSourceNoteFileFromDerived(activeFile.path);
+
+        if (!sourceFile) {
+            new Notice("Could not determine the Source note. Please activate a Source note or its Cue/Summary note.");
+			this.isSwitchingMode = false;
+            return;
+        }
+
+        // Layouts of other Source notes stay open: each Source note has its own session
+        const currentSession = this.sessions.get(sourceFile.path);
+        // An explicit request wins, then the mode's own setting; modes without one stay in the layout's current window
+        const popout = inPopout ?? modeDefinition.popout ?? currentSession?.popout ?? false;
+        if (popout && !Platform.isDesktopApp) {
+            new Notice("Popout windows are only available in the desktop app.");
+            this.isSwitchingMode = false;
+            return;
+        }
+        // A layout moving between the main workspace and a popout window is rebuilt from scratch
+        const existingSession = currentSession?.popout === popout ? currentSession : undefined;
+        const session: CornellSession = existingSession ?? {
+            sourceFile,
+            mode,
+            leaves: { left: null, center: null, right: null },
+            recallQuiz: null,
+            clozeActive: false,
+            revealedClozes: new Set(),
+            cuePaneEditable: false,
+            appliedWidthRatio: null,
+            popout,
+        };
+
+		try {
+			console.log(`Cornell Plugin: Target Source file - ${sourceFile.path}`);
+
+            // --- Clean Up Previous State ---
+            const requiredPositions = this.getRequiredPositions(mode);
+			if (currentSession && !existingSession) await this.closeSession(currentSession, true);
+			if (existingSession) {
+                // Clean up leaves not needed for the new mode
+				await this.cleanupUnneededLeaves(session, requiredPositions);
+			} else {
+				this.sessions.set(sourceFile.path, session);
+			}
+			session.mode = mode;
+
+            // --- Get or Create Cue/Summary Files ---
+            let cueFile: TFile | null;
+            let summaryFile: TFile | null = null;
+            if (this.getStorageMode(sourceFile) === 'single-file') {
+                // Single-file mode: every pane shows the Source, scrolled to its section
+                await this.ensureCornellSections(sourceFile);
+                cueFile = sourceFile;
+                summaryFile = sourceFile;
+            } else {
+                const noteInfo = this.getOrCreateNoteInfo(sourceFile);
+                const cuePath = this.getCueNotePath(sourceFile);
+                const summaryPath = this.getSummaryNotePath(sourceFile);
+
+                cueFile = await this.ensureCueNoteExists(cuePath, sourceFile);
+                if (!cueFile) throw new Error(`Failed to ensure Cue note exists at ${cuePath}`);
+
+                // Summary needed whenever the mode shows the right pane
+                if (requiredPositions.includes('right')) {
+                     summaryFile = await this.ensureSummaryNoteExists(summaryPath, sourceFile, cueFile);
+                     if (!summaryFile) console.warn(`Cornell Plugin: Could not create or find Summary note at ${summaryPath}. Mode ${mode} might be incomplete.`);
+                     // Update noteInfo map after ensuring existence
+                     noteInfo.summaryPath = summaryFile ? summaryFile.path : null;
+                }
+                noteInfo.cuePath = cueFile.path;
+                this.noteInfoMap.set(sourceFile.path, noteInfo); // Update map
+                await this.saveData(); // Save potentially updated map
+            }
+
+			// --- Save State (restored on the next load) ---
+			await this.rememberOpenSession(sourceFile.path, mode, popout);
+			console.log(`Cornell Plugin: Saved state: Mode=${mode}, File=${sourceFile.path}`);
+
+            // --- Initial Sync S->C (ensure Cue note has definitions) ---
+            // Run S->C sync before setting up the layout to populate the cue note
+            console.log(`[ActivateMode] Running S->C sync for ${sourceFile.basename} -> ${cueFile.basename}`);
+            await this.syncSourceToCue(sourceFile); // Run sync after ensuring files exist
+
+			// --- Ensure Layout and Get Leaves ---
+            // Pass the required files to the layout function
+            const filesForMode: { [key in LeafPosition]?: TFile | null } = {};
+            if (requiredPositions.includes('left')) filesForMode.left = cueFile;
+            if (requiredPositions.includes('center')) filesForMode.center = sourceFile;
+            if (requiredPositions.includes('right')) filesForMode.right = summaryFile;
+
+			session.leaves = await this.ensureLeafLayout(session, requiredPositions, filesForMode); // Update the tracked leaves
+
+			// --- Setup Content (View Mode) in Leaves ---
+            // A fresh quiz starts with every Recall activation
+            session.recallQuiz = mode === 'recall' ? { sourcePath: sourceFile.path, revealed: new Set(), results: new Map() } : null;
+            this.setClozeOverlay(session, mode === 'recall' || mode === 'review');
+            session.cuePaneEditable = modeDefinition.panes.left === 'source';
+			await this.setupLeavesContent(session); // Sets preview/source modes
+            this.rerenderPreview(session.leaves.left); // Switch the links code block between quiz and buttons
+
+			// --- Apply Styles, Focus, and Scroll ---
+			this.applyStylesAndWidth(session); // Uses the mode's ratio
+			const finalFocusLeaf = this.getFinalFocusLeaf(session);
+			await this.applyFocusAndScroll(session, finalFocusLeaf, sourceFile, cueFile, summaryFile); // Pass files for scrolling
+
+			console.log(`Cornell Plugin: Mode ${mode} activated successfully for ${sourceFile.path}.`);
+
+		} catch (error) {
+			console.error(`Cornell Plugin: Error activating Cornell mode "${mode}" for ${sourceFile?.path}:`, error);
+			new Notice(`Failed to activate Cornell mode. ${error instanceof Error ? error.message : 'Check console for details.'}`);
+			await this.closeSession(session, true); // Clean up on error
+            // Clear saved state on failure
+			await this.forgetOpenSession(sourceFile.path);
+		} finally {
+			this.isSwitchingMode = false;
+			console.log(`Cornell Plugin: Mode switch finished for ${mode}.`);
+		}
+	}
+
+	/** Returns the definition of a built-in or user-defined mode, or null if no such mode exists. */
+	getModeDefinition(mode: CornellMode): CornellModeDefinition | null {
+		if (Object.keys(BUILT_IN_MODES).includes(mode)) return BUILT_IN_MODES[mode as BuiltInCornellMode];
+		return this.settings.customModes.find(custom => custom.id === mode) ?? null;
+	}
+
+	/** Registers the command of a user-defined mode. Commands of deleted modes remain until the plugin reloads. */
+	registerCustomModeCommand(modeDefinition: CornellModeDefinition): void {
+		this.addCommand({
+			id: `cornell-mode-${modeDefinition.id}`,
+			name: `Cornell: Activate ${modeDefinition.name} Mode`,
+			callback: () => this.activateMode(modeDefinition.id)
+		});
+	}
+
+	/** Whether the Cue pane of a session is kept in Preview mode */
+	isCuePreviewEnforced(session: CornellSession | null): boolean {
+		return this.settings.enforceCuePreview && !session?.cuePaneEditable;
+	}
+
+	/** Finds the session and position of a tracked leaf */
+	private findSessionLeaf(match: (leaf: WorkspaceLeaf) => boolean): { session: CornellSession, position: LeafPosition } | null {
+		for (const session of this.sessions.values()) {
+			for (const position of ['left', 'center', 'right'] as LeafPosition[]) {
+				const leaf = session.leaves[position];
+				if (leaf && match(leaf)) return { session, position };
+			}
+		}
+		return null;
+	}
+
+	/** Records an open layout so it is restored on the next load */
+	private async rememberOpenSession(sourcePath: string, mode: CornellMode, popout: boolean): Promise<void> {
+		const open = this.settings.openSessions.find(o => o.file === sourcePath);
+		if (open) {
+			open.mode = mode;
+			open.popout = popout;
+		} else {
+			this.settings.openSessions.push({ file: sourcePath, mode, popout });
+		}
+		await this.saveData();
+	}
+
+	/** Follow mode: when a session's Source pane opens another Source note, the session moves to that note */
+	private handleFileOpenForFollow = async (file: TFile | null): Promise<void> => {
+		if (!this.settings.followMode || !file || this.isSwitchingMode || this.isSyncing) return;
+		const activeLeaf = this.app.workspace.getActiveViewOfType(MarkdownView)?.leaf;
+		const owner = activeLeaf ? this.findSessionLeaf(leaf => leaf === activeLeaf) : null;
+		if (!owner || owner.position !== 'center' || owner.session.sourceFile === file || !this.isSourceNote(file.path)) return;
+		if (this.sessions.has(file.path)) {
+			new Notice(`"${file.basename}" already has its own Cornell layout.`);
+			return;
+		}
+		await this.followSourceNote(owner.session, file);
+	};
+
+	/**
+	 * Points a session's Cue and Summary panes at another Source note, keeping the mode and pane widths.
+	 * Missing Cue/Summary notes are not created here: their pane shows an empty placeholder until a mode is activated.
+	 */
+	private async followSourceNote(session: CornellSession, sourceFile: TFile): Promise<void> {
+		this.isSwitchingMode = true;
+		const oldPath = session.sourceFile.path;
+		console.log(`Cornell Plugin: Following Source pane from ${oldPath} to ${sourceFile.path}.`);
+		try {
+			const clozeWasActive = session.clozeActive;
+			this.setClozeOverlay(session, false);
+			this.sessions.delete(oldPath);
+			session.sourceFile = sourceFile;
+			this.sessions.set(sourceFile.path, session);
+			await this.forgetOpenSession(oldPath);
+			await this.rememberOpenSession(sourceFile.path, session.mode, session.popout);
+
+			const findNote = (path: string | null | undefined): TFile | null => {
+				const note = path ? this.app.vault.getAbstractFileByPath(path) : null;
+				return note instanceof TFile ? note : null;
+			};
+			const info = this.noteInfoMap.get(sourceFile.path);
+			const singleFile = this.getStorageMode(sourceFile) === 'single-file';
+			const targets: { [key in LeafPosition]?: TFile | null } = {
+				left: singleFile ? sourceFile : findNote(info?.cuePath ?? this.getCueNotePath(sourceFile)),
+				right: singleFile ? sourceFile : findNote(info?.summaryPath ?? this.getSummaryNotePath(sourceFile)),
+			};
+
+			const missing: string[] = [];
+			for (const pos of ['left', 'right'] as LeafPosition[]) {
+				const leaf = session.leaves[pos];
+				if (!leaf?.parent) continue;
+				const target = targets[pos];
+				if (target) {
+					await this.openFileInLeaf(leaf, target, false);
+				} else {
+					await leaf.setViewState({ type: 'empty', active: false }); // Placeholder, reused on the next activation
+					missing.push(pos === 'left' ? 'Cue' : 'Summary');
+				}
+			}
+
+			session.recallQuiz = session.mode === 'recall' ? { sourcePath: sourceFile.path, revealed: new Set(), results: new Map() } : null;
+			await this.setupLeavesContent(session);
+			this.setClozeOverlay(session, clozeWasActive);
+			this.rerenderPreview(session.leaves.left);
+			this.adjustPaneWidths(session, session.appliedWidthRatio ?? this.getWidthRatioForMode(session.mode, sourceFile)); // Keep the current widths
+
+			if (missing.length > 0) {
+				new Notice(`"${sourceFile.basename}" has no ${missing.join(' or ')} note yet. Activate a Cornell mode to create it.`);
+			}
+		} catch (error) {
+			console.error(`Cornell Plugin: Error following Source pane to ${sourceFile.path}:`, error);
+			new Notice("Follow mode could not update the Cornell panes. See console.");
+		} finally {
+			this.isSwitchingMode = false;
+		}
+	}
+
+	/** Whether a leaf lives in a popout window rather than the main workspace */
+	private isLeafInPopout(leaf: WorkspaceLeaf): boolean {
+		return leaf.getContainer().win !== window;
+	}
+
+	/** A popout window was closed: end the sessions whose layout it held */
+	private handlePopoutClose = async (win: WorkspaceWindow): Promise<void> => {
+		for (const session of this.getSessions()) {
+			if (!session.popout) continue;
+			const leaves = Object.values(session.leaves).filter((leaf): leaf is WorkspaceLeaf => leaf !== null);
+			if (leaves.some(leaf => leaf.parent && leaf.getContainer() !== win)) continue; // Still shown elsewhere
+			console.log(`Cornell Plugin: Popout window of ${session.sourceFile.path} closed, ending its session.`);
+			await this.closeSession(session, false);
+			await this.forgetOpenSession(session.sourceFile.path);
+		}
+	};
+
+	private async forgetOpenSession(sourcePath: string): Promise<void> {
+		this.settings.openSessions = this.settings.openSessions.filter(o => o.file !== sourcePath);
+		await this.saveData();
+	}
+
+	/** Determines which leaf positions are required for a given mode. */
+	private getRequiredPositions(mode: CornellMode): LeafPosition[] {
+		const modeDefinition = this.getModeDefinition(mode);
+		if (!modeDefinition) {
+			console.warn(`Cornell Plugin: Unknown mode "${mode}" in getRequiredPositions.`);
+			return [];
+		}
+		return (['left', 'center', 'right'] as LeafPosition[]).filter(pos => modeDefinition.panes[pos]);
+	}
+
+    /**
+	 * Helper to get or create a leaf for a specific position, ensuring it's a MarkdownView
+	 * containing the target file for that position (Cue, Source, or Summary).
+     * Prioritizes reusing existing tracked leaves if they contain the correct file.
+	 */
+	private async getOrCreateLeaf(session: CornellSession, position: LeafPosition, targetFile: TFile, claimedLeaves: WorkspaceLeaf[] = []): Promise<WorkspaceLeaf> {
+		console.log(`Cornell Plugin: Getting or creating leaf for position: ${position} with file ${targetFile.path}`);
+
+		let leaf = session.leaves[position];
+		let leafIsValid = false;
+		if (leaf) {
+			let exists = false;
+            this.app.workspace.iterateAllLeaves(l => { if (l === leaf) exists = true; });
+            // Check if the existing leaf holds the CORRECT file for this position, in the session's window
+			if (exists && leaf.view instanceof MarkdownView && leaf.view.file?.path === targetFile.path && this.isLeafInPopout(leaf) === session.popout) {
+				console.log(`Cornell Plugin: Reusing valid tracked leaf for ${position} (${targetFile.basename}).`);
+				leafIsValid = true;
+			} else if (exists && leaf.parent && leaf.view?.getViewType() === 'empty') {
+				console.log(`Cornell Plugin: Reusing follow-mode placeholder leaf for ${position}.`); // File is opened below
+			} else {
+				console.log(`Cornell Plugin: Tracked leaf for ${position} is invalid (exists: ${exists}, file: ${leaf?.view instanceof MarkdownView ? leaf.view.file?.path : 'N/A'}, expected: ${targetFile.path}). Clearing.`);
+				session.leaves[position] = null; // Clear invalid tracked leaf
+				leaf = null;
+			}
+		}
+
+        // If no valid tracked leaf, try finding ANY existing leaf with the target file
+		if (!leafIsValid && !leaf) {
+			leaf = this.findExistingLeafForFile(targetFile, session.popout);
+			if (leaf) {
+                // If found, check if it's already assigned to a DIFFERENT Cornell position, of this or another session
+                // (or already claimed by another position of the layout being built)
+                const foundLeaf = leaf;
+                const owner = this.findSessionLeaf(l => l === foundLeaf);
+                const assignedToOther = claimedLeaves.includes(leaf) || (owner !== null && (owner.session !== session || owner.position !== position));
+                if (assignedToOther) {
+                    console.log(`Cornell Plugin: Found existing leaf for ${targetFile.basename}, but it's assigned to another Cornell position. Will create new.`);
+                    leaf = null; // Force creation of a new leaf
+                } else {
+				    console.log(`Cornell Plugin: Found existing unassigned leaf for ${position} containing ${targetFile.basename}.`);
+				    leafIsValid = true;
+                }
+			}
+		}
+
+		// If still no leaf, create a new one
+        if (!leaf) {
+			console.log(`Cornell Plugin: No suitable existing leaf found for ${position}. Creating new leaf.`);
+			if (session.popout) {
+				// Popout layouts grow from a leaf already in the popout window, or open a new window
+				const anchor = [...claimedLeaves, ...Object.values(session.leaves)].find((l): l is WorkspaceLeaf => !!l?.parent && this.isLeafInPopout(l));
+				leaf = anchor ? this.app.workspace.createLeafBySplit(anchor, 'vertical') : this.app.workspace.openPopoutLeaf();
+			} else {
+				leaf = this.app.workspace.getLeaf('tab'); // Create new tab leaf
+			}
+			if (!leaf) throw new Error(`Failed to create new leaf for ${position}.`);
+			console.log(`Cornell Plugin: New leaf created for ${position}.`);
+			leafIsValid = false; // Needs file opened
+		}
+
+        // Ensure the chosen/created leaf has the correct file opened
+		if (!leafIsValid || !(leaf.view instanceof MarkdownView) || leaf.view.file?.path !== targetFile.path) {
+			console.log(`Cornell Plugin: Preparing leaf for ${position} - ensuring file ${targetFile.basename}.`);
+			try {
+                await this.openFileInLeaf(leaf, targetFile, false); // Open file, don't activate yet
+                await sleep(150); // Allow time for file to open and view to be ready
+
+				if (!(leaf.view instanceof MarkdownView) || leaf.view.file?.path !== targetFile.path) {
+                    // Fallback using setViewState if openFile didn't work as expected
+                    console.warn(`Cornell Plugin: openFile didn't result in MarkdownView for ${targetFile.basename}. Trying setViewState.`);
+                    const viewState: ViewState = {
+						type: 'markdown',
+						state: { file: targetFile.path, mode: position === 'left' ? 'preview' : 'source' }, // Set initial mode based on position
+						active: false
+					};
+					await leaf.setViewState(viewState, { history: false });
+                    await sleep(150);
+                    if (!(leaf.view instanceof MarkdownView) || leaf.view.file?.path !== targetFile.path) {
+					    throw new Error(`Leaf preparation failed for ${position}. Current type: ${leaf.view?.getViewType()}, File: ${(leaf.view as any)?.file?.path}`);
+                    }
+				}
+				console.log(`Cornell Plugin: Leaf for ${position} successfully prepared with ${targetFile.basename}.`);
+			} catch (error) {
+				console.error(`Error preparing leaf for ${position} with file ${targetFile.path}:`, error);
+				if (leaf && leaf.parent) try { leaf.detach(); } catch { } // Clean up failed leaf
+                session.leaves[position] = null; // Ensure it's cleared
+				throw error;
+			}
+		}
+
+		session.leaves[position] = leaf; // Track the prepared leaf
+		return leaf;
+	}
+
+	/**
+	 * Ensures the required leaves exist, contain the correct files, and arranges them horizontally.
+	 * @param session The session whose leaves are reused.
+	 * @param requiredPositions Which positions (left, center, right) are needed.
+	 * @param filesForMode A map containing the TFile object for each required position.
+	 */
+	private async ensureLeafLayout(
+		session: CornellSession,
+		requiredPositions: LeafPosition[],
+		filesForMode: { [key in LeafPosition]?: TFile | null }
+	): Promise<CornellLeaves> {
+		console.log("Cornell Plugin: Ensuring leaf layout for positions:", requiredPositions);
+		const result: CornellLeaves = {
+			left: null, center: null, right: null,
+		};
+		const leavesToArrange: WorkspaceLeaf[] = [];
+        const creationPromises: Promise<void>[] = [];
+
+        // Get or create leaves for each required position in parallel.
+        // When several positions show the same file (single-file mode), prepare them one after another
+        // so each position gets its own leaf. Popout layouts are also prepared in order, so only the
+        // first position opens the window and the others are created inside it.
+        const targetPaths = requiredPositions.map(pos => filesForMode[pos]?.path).filter(p => p);
+        const hasSharedFile = new Set(targetPaths).size < targetPaths.length;
+        const sequential = hasSharedFile || session.popout;
+        let previousCreation: Promise<void> = Promise.resolve();
+        requiredPositions.forEach(pos => {
+            const targetFile = filesForMode[pos];
+            if (!targetFile) {
+                // The position is required by the mode but its file is missing
+                // (Summary might be null if creation failed but mode proceeds)
+                console.warn(`Cornell Plugin: Target file missing for required position ${pos}. Layout might be incomplete.`);
+                return; // Skip if no file specified or found for a position
+            }
+            const waitFor = sequential ? previousCreation : Promise.resolve();
+            const creation = (async () => {
+                    await waitFor;
+                    try {
+                        const claimedLeaves = Object.values(result).filter((l): l is WorkspaceLeaf => !!l);
+                        const leaf = await this.getOrCreateLeaf(session, pos, targetFile, claimedLeaves);
+                        result[pos] = leaf;
+                    } catch (err) {
+                        console.error(`Failed to get or create leaf for ${pos} (${targetFile.basename}):`, err);
+                        // Mark as null if failed
+                        result[pos] = null;
+                        // Don't throw here, allow arrangement to proceed with available leaves if possible
+                        // throw new Error(`Layout setup failed: Could not prepare leaf for ${pos}.`);
+                    }
+                })();
+            previousCreation = creation;
+            creationPromises.push(creation);
+        });
+        await Promise.all(creationPromises); // Wait for all leaves to be ready
+
+        // Determine the order for arrangement based on required positions, filtering out failed leaves (nulls)
+        if (requiredPositions.includes('left') && result.left) leavesToArrange.push(result.left);
+        if (requiredPositions.includes('center') && result.center) leavesToArrange.push(result.center);
+        if (requiredPositions.includes('right') && result.right) leavesToArrange.push(result.right);
+
+        // Filter out any nulls again just in case (shouldn't be necessary after push logic)
+        const validLeavesToArrange = leavesToArrange.filter((l): l is WorkspaceLeaf => l !== null);
+
+        if (validLeavesToArrange.length === 0) {
+            throw new Error("No valid leaves could be prepared for the layout.");
+        }
+		if (validLeavesToArrange.length === 1) {
+			// If only one leaf, ensure it's not split unnecessarily
+			const singleLeaf = validLeavesToArrange[0];
+            if (singleLeaf.parent && 'children' in singleLeaf.parent && Array.isArray(singleLeaf.parent.children) && singleLeaf.parent.children.length > 1) {
+				console.log("Cornell Plugin: Only one leaf in layout, ensuring it's tracked.");
+			}
+		} else if (validLeavesToArrange.length > 1) {
+			// Arrange the leaves horizontally using splitLeaf
+            const arrangingSourceFile = filesForMode.center ?? filesForMode.left ?? filesForMode.right;
+            if (!arrangingSourceFile) {
+                throw new Error("Cannot arrange leaves: No valid source file context found.");
+            }
+            const arrangedLeaves = await this.arrangeLeavesHorizontally(validLeavesToArrange, arrangingSourceFile);
+
+            // Update the result map with potentially new leaf objects created by splitLeaf.
+            // Leaves showing the same file can only be told apart by their order.
+            if (hasSharedFile && arrangedLeaves.length === validLeavesToArrange.length) {
+                const arrangedPositions = (['left', 'center', 'right'] as LeafPosition[]).filter(pos => requiredPositions.includes(pos) && result[pos]);
+                arrangedPositions.forEach((pos, index) => result[pos] = arrangedLeaves[index]);
+            } else {
+                if (requiredPositions.includes('left') && result.left) {
+                    // Find the leaf corresponding to the left file in the *newly* arranged leaves
+                    const newLeaf = arrangedLeaves.find(l => l.view instanceof MarkdownView && l.view.file?.path === filesForMode.left?.path);
+                    result.left = newLeaf || result.left; // Use the new leaf if found, otherwise keep original (should exist)
+                }
+                if (requiredPositions.includes('center') && result.center) {
+                    const newLeaf = arrangedLeaves.find(l => l.view instanceof MarkdownView && l.view.file?.path === filesForMode.center?.path);
+                    result.center = newLeaf || result.center;
+                }
+                if (requiredPositions.includes('right') && result.right) {
+                    const newLeaf = arrangedLeaves.find(l => l.view instanceof MarkdownView && l.view.file?.path === filesForMode.right?.path);
+                    result.right = newLeaf || result.right;
+                }
+            }
+		}
+
+		console.log("Cornell Plugin: Leaf layout ensured. Final structure:", {
+			left: result.left ? `Leaf Exists (${result.left.view instanceof MarkdownView ? result.left.view.file?.basename : 'N/A'})` : null,
+			center: result.center ? `Leaf Exists (${result.center.view instanceof MarkdownView ? result.center.view.file?.basename : 'N/A'})` : null,
+			right: result.right ? `Leaf Exists (${result.right.view instanceof MarkdownView ? result.right.view.file?.basename : 'N/A'})` : null
+		});
+		return result;
+	}
+
+
+	/**
+	 * Arranges the provided leaves horizontally using workspace.createLeafBySplit.
+     * Assumes the first leaf in the array is the anchor.
+     * Tries to open the correct file in the newly created leaves.
+	 */
+	private async arrangeLeavesHorizontally(leaves: WorkspaceLeaf[], contextFile: TFile): Promise<WorkspaceLeaf[]> {
+		if (leaves.length <= 1) return leaves;
+
+		console.log(`Cornell Plugin: Arranging ${leaves.length} leaves horizontally...`);
+		const finalLeaves: WorkspaceLeaf[] = [leaves[0]]; // Start with the first leaf as the anchor
+
+		let previousLeafInLayout = leaves[0];
+        // Ensure the first leaf is attached to the workspace
+        let leafExists = false;
+        this.app.workspace.iterateAllLeaves(leaf => { if (leaf === previousLeafInLayout) leafExists = true; });
+        if (!previousLeafInLayout.parent || !leafExists) {
+			console.warn("Cornell Plugin: First leaf for arrangement is detached or not found. Re-attaching or creating new.");
+            // Attempt to re-attach or get a new leaf if the anchor is lost
+            const reAttachedLeaf = this.app.workspace.getLeaf(false) ?? this.app.workspace.getLeaf(true);
+            if (!reAttachedLeaf) throw new Error("Cannot arrange leaves: Failed to get a valid starting leaf.");
+            if (previousLeafInLayout.view instanceof MarkdownView && previousLeafInLayout.view.file) {
+                await this.openFileInLeaf(reAttachedLeaf, previousLeafInLayout.view.file, false);
+            } else {
+                 await this.openFileInLeaf(reAttachedLeaf, contextFile, false); // Open context file as fallback
+            }
+            previousLeafInLayout = reAttachedLeaf;
+            finalLeaves[0] = reAttachedLeaf; // Update the anchor
+			// throw new Error("Cannot arrange leaves: the starting leaf is detached.");
+		}
+
+		for (let i = 1; i < leaves.length; i++) {
+			const originalLeafToPlace = leaves[i];
+            const targetFileForThisLeaf = originalLeafToPlace.view instanceof MarkdownView ? originalLeafToPlace.view.file : null;
+            if (!targetFileForThisLeaf) {
+                console.warn(`Cornell Plugin: Could not determine target file for leaf at index ${i}. Skipping arrangement for this leaf.`);
+                continue; // Skip if we don't know what file to put in the new leaf
+            }
+
+			console.log(`Cornell Plugin: Placing leaf ${i} (${targetFileForThisLeaf.basename}) relative to leaf ${i - 1}.`);
+
+            // If the leaf to place is the same as the previous one (shouldn't happen with unique leaves), skip
+			if (previousLeafInLayout === originalLeafToPlace) {
+				console.warn(`Warning: Attempting to arrange the same leaf at position ${i - 1} and ${i}. Skipping split.`);
+				continue;
+			}
+
+            // Detach the original leaf if it exists and is not already the previous leaf
+            let originalLeafDetached = false;
+            let exists = false;
+            this.app.workspace.iterateAllLeaves(l => { if (l === originalLeafToPlace) exists = true; });
+            if (originalLeafToPlace.parent && exists) {
+				console.log(`Cornell Plugin: Detaching original leaf intended for position ${i} (${targetFileForThisLeaf.basename}) before splitting.`);
+                try {
+				    originalLeafToPlace.detach();
+                    originalLeafDetached = true;
+                    await sleep(50);
+                } catch (detachError) {
+                    console.error("Error detaching original leaf:", detachError);
+                }
+			}
+
+			try {
+				console.log(`Cornell Plugin: Splitting vertically from previous leaf (${previousLeafInLayout.view instanceof MarkdownView ? previousLeafInLayout.view.file?.basename : 'N/A'}) to create space for leaf ${i}`);
+				const newLeaf = this.app.workspace.createLeafBySplit(previousLeafInLayout, 'vertical'); // Split vertically for horizontal layout
+				if (!newLeaf) throw new Error(`this.app.workspace.createLeafBySplit returned null when placing leaf ${i}`);
+
+				console.log(`Cornell Plugin: Created new leaf by splitting. Opening file ${targetFileForThisLeaf.basename} in it.`);
+
+                await this.openFileInLeaf(newLeaf, targetFileForThisLeaf, false); // Open the correct file
+                await sleep(150); // Allow file open
+
+				if (!(newLeaf.view instanceof MarkdownView) || newLeaf.view.file?.path !== targetFileForThisLeaf.path) {
+					console.error(`Failed to set up newly split leaf ${i}. Type: ${newLeaf.view?.getViewType()}, File: ${(newLeaf.view as any)?.file?.path}, Expected: ${targetFileForThisLeaf.path}`);
+                    // Attempt setViewState as fallback
+                    await newLeaf.setViewState({
+                        type: 'markdown',
+                        state: { file: targetFileForThisLeaf.path, mode: 'source' }, // Default to source, will be set later
+                        active: false
+                    }, { history: false });
+                    await sleep(100);
+                    if (!(newLeaf.view instanceof MarkdownView) || newLeaf.view.file?.path !== targetFileForThisLeaf.path) {
+                        throw new Error(`Newly split leaf failed to become MarkdownView with the correct file for position ${i}.`);
+                    }
+				}
+
+				finalLeaves.push(newLeaf); // Add the newly created and populated leaf
+				previousLeafInLayout = newLeaf; // Update the anchor for the next split
+				console.log(`Cornell Plugin: Leaf ${i} (${targetFileForThisLeaf.basename}) successfully placed.`);
+
+			} catch (splitError) {
+				console.error(`Error creating split for leaf ${i} from previous leaf:`, splitError);
+				// Clean up leaves created so far in this arrangement attempt
+                await Promise.all(finalLeaves.slice(1).map(async (l) => { // Detach leaves created *during* this arrangement
+                    if (l?.parent) try { l.detach(); } catch { }
+                }));
+				throw new Error(`Failed to arrange leaves using splitLeaf method at step ${i}.`);
+			}
+		}
+		console.log("Cornell Plugin: Leaf arrangement completed.");
+		return finalLeaves; // Return the array of leaves in their final arranged order/objects
+	}
+
+	/**
+	 * Sets the view mode (source/preview) and applies CSS classes for the active Cornell leaves based on the mode.
+	 */
+	private async setupLeavesContent(session: CornellSession): Promise<void> {
+		const mode = session.mode;
+		console.log(`Cornell Plugin: Setting up leaf content modes and styles for mode: ${mode}`);
+		const setupTasks: Promise<void>[] = [];
+
+        // Helper to configure a single leaf
+		const setupLeaf = async (
+			leaf: WorkspaceLeaf | null,
+            position: LeafPosition,
+			viewMode: 'source' | 'preview',
+			cssClass: string
+		): Promise<void> => {
+			if (!leaf || !(leaf.view instanceof MarkdownView) || !leaf.parent) {
+				console.log(`Cornell Plugin: Skipping setup for leaf (${position}) - leaf is null, not Markdown, or detached.`);
+				return;
+			}
+            const view = leaf.view;
+			console.log(`Cornell Plugin: Setting up ${position} leaf (${view.file?.basename}). Mode: ${viewMode}, Class: ${cssClass}.`);
+
+            // Clear existing Cornell classes first
+			view.containerEl?.classList.remove(
+				CORNELL_PANE_CLASS, CORNELL_LEFT_PANE_CLASS, CORNELL_CENTER_PANE_CLASS, CORNELL_RIGHT_PANE_CLASS, CORNELL_RECALL_QUIZ_CLASS
+			);
+            // Add new classes
+			view.containerEl?.classList.add(CORNELL_PANE_CLASS, cssClass);
+            // Recall mode quizzes on the Cue pane: rendered definitions are masked
+            if (position === 'left' && mode === 'recall') view.containerEl?.classList.add(CORNELL_RECALL_QUIZ_CLASS);
+
+			try {
+                // Enforce preview for left pane (Cue) if setting is enabled
+                const targetMode = (position === 'left' && this.isCuePreviewEnforced(session)) ? 'preview' : viewMode;
+				await this.setMarkdownViewMode(view, targetMode);
+			} catch (error) {
+				console.error(`Failed setting mode to ${viewMode} for ${position} leaf ${view.file?.path}:`, error);
+			}
+		};
+
+        // Remove styles/classes from leaves not used in this mode
+        const requiredPositions = this.getRequiredPositions(mode);
+        (Object.keys(session.leaves) as LeafPosition[]).forEach(pos => {
+            if (!requiredPositions.includes(pos)) {
+                const leaf = session.leaves[pos];
+                leaf?.view?.containerEl?.classList.remove(CORNELL_PANE_CLASS, CORNELL_LEFT_PANE_CLASS, CORNELL_CENTER_PANE_CLASS, CORNELL_RIGHT_PANE_CLASS, CORNELL_RECALL_QUIZ_CLASS);
+                // Reset flex style if it was applied
+                if (leaf?.view?.containerEl) {
+                    leaf.view.containerEl.style.flex = '';
+                }
+            }
+        });
+
+        // Configure leaves required for the current mode, using the view mode its definition gives each pane
+        const modeDefinition = this.getModeDefinition(mode);
+        const paneClasses: { [key in LeafPosition]: string } = { left: CORNELL_LEFT_PANE_CLASS, center: CORNELL_CENTER_PANE_CLASS, right: CORNELL_RIGHT_PANE_CLASS };
+        requiredPositions.forEach(pos => {
+            const viewMode = modeDefinition?.panes[pos];
+            const leaf = session.leaves[pos];
+            if (viewMode && leaf) setupTasks.push(setupLeaf(leaf, pos, viewMode, paneClasses[pos]));
+        });
+		await Promise.all(setupTasks);
+		await sleep(100); // Short delay for rendering
+		console.log("Cornell Plugin: Leaf content setup complete.");
+	}
+
+
+	/** Determines which leaf should receive focus based on the mode. */
+	private getFinalFocusLeaf(session: CornellSession): WorkspaceLeaf | null {
+		const mode = session.mode;
+		const modeDefinition = this.getModeDefinition(mode);
+		if (!modeDefinition) return null;
+		// Fall back to the first shown pane if the focus pane is hidden
+		const focusPosition = modeDefinition.panes[modeDefinition.focus] ? modeDefinition.focus : this.getRequiredPositions(mode)[0];
+		return focusPosition ? session.leaves[focusPosition] : null;
+	}
+
+	/** Applies styles (width). Can adjust ratios based on mode. */
+	private applyStylesAndWidth(session: CornellSession): void {
+		console.log("Cornell Plugin: Applying styles and widths...");
+		const ratio = this.getWidthRatioForMode(session.mode, session.sourceFile);
+		this.adjustPaneWidths(session, ratio); // Pass the chosen ratio
+	}
+
+	/** Re-applies the pane widths of the open Cornell layouts, e.g. after the ratio settings changed. */
+	refreshPaneWidths(): void {
+		this.sessions.forEach(session => this.applyStylesAndWidth(session));
+	}
+
+	/**
+	 * Ratio for a mode: widths learned from manual resizing (per note or per mode),
+	 * then the mode's own ratio (e.g. equal widths for show-all), then the settings.
+	 */
+	private getWidthRatioForMode(mode: CornellMode, sourceFile: TFile): PaneWidthRatio {
+		const learned = this.settings.paneWidthsPerNote
+			? this.noteInfoMap.get(sourceFile.path)?.widthRatios[mode]
+			: this.settings.modeWidthRatios[mode];
+		return (this.settings.rememberPaneWidths ? learned : undefined)
+			?? this.getModeDefinition(mode)?.widthRatio
+			?? this.settings.paneWidthRatio;
+	}
+
+	/**
+	 * Measures the Cornell panes after a layout change. If their widths differ from the ratio the
+	 * plugin applied, the user resized them by hand: remember the widths for the session's mode.
+	 */
+	private capturePaneWidths = async (): Promise<void> => {
+		if (!this.settings.rememberPaneWidths || this.isSwitchingMode) return;
+		for (const session of this.sessions.values()) {
+			await this.captureSessionPaneWidths(session);
+		}
+	};
+
+	private async captureSessionPaneWidths(session: CornellSession): Promise<void> {
+		const { sourceFile, mode, appliedWidthRatio: applied } = session;
+		if (!applied) return;
+
+		const widths: { [key in LeafPosition]?: number } = {};
+		(['left', 'center', 'right'] as LeafPosition[]).forEach(pos => {
+			const leaf = session.leaves[pos];
+			const width = leaf?.parent ? leaf.view?.containerEl?.getBoundingClientRect().width : undefined;
+			if (width) widths[pos] = width;
+		});
+		const positions = Object.keys(widths) as LeafPosition[];
+		if (positions.length < 2) return; // Nothing to distribute
+
+		const totalWidth = positions.reduce((sum, pos) => sum + (widths[pos] ?? 0), 0);
+		const totalApplied = positions.reduce((sum, pos) => sum + applied[pos], 0);
+		if (totalWidth <= 0 || totalApplied <= 0) return;
+
+		const learned: PaneWidthRatio = { ...applied };
+		let resized = false;
+		positions.forEach(pos => {
+			const percentage = Math.round(((widths[pos] ?? 0) / totalWidth) * 100);
+			if (Math.abs(percentage - (applied[pos] / totalApplied) * 100) > INTERNAL_SETTINGS.paneWidthCaptureTolerance) resized = true;
+			learned[pos] = percentage;
+		});
+		if (!resized) return;
+
+		if (this.settings.paneWidthsPerNote) {
+			const info = this.getOrCreateNoteInfo(sourceFile);
+			info.widthRatios[mode] = learned;
+		} else {
+			this.settings.modeWidthRatios[mode] = learned;
+		}
+		session.appliedWidthRatio = learned; // The current layout now matches the learned ratio
+		await this.saveData();
+		console.log(`Cornell Plugin: Remembered pane widths for mode ${mode}: L=${learned.left}, C=${learned.center}, R=${learned.right}.`);
+	}
+
+	/** Forgets all pane widths learned from manual resizing. */
+	async resetLearnedPaneWidths(): Promise<void> {
+		this.settings.modeWidthRatios = {};
+		this.noteInfoMap.forEach(info => info.widthRatios = {});
+		await this.saveData();
+		this.refreshPaneWidths();
+	}
+
+	/** Sets focus and scrolls panes to relevant sections. */
+	private async applyFocusAndScroll(
+		session: CornellSession,
+		finalFocusLeaf: WorkspaceLeaf | null,
+        sourceFile: TFile,
+        cueFile: TFile,
+        summaryFile: TFile | null
+	): Promise<void> {
+		console.log("Cornell Plugin: Applying focus and scroll...");
+		await sleep(50);
+
+		// --- Focus ---
+		if (finalFocusLeaf) {
+			let exists = false;
+            this.app.workspace.iterateAllLeaves(l => { if (l === finalFocusLeaf) exists = true; });
+			if (exists && finalFocusLeaf.parent) {
+				console.log(`Cornell Plugin: Setting final focus to leaf (${finalFocusLeaf.view instanceof MarkdownView ? finalFocusLeaf.view.file?.basename : 'N/A'}).`);
+				this.app.workspace.setActiveLeaf(finalFocusLeaf, { focus: true });
+				await sleep(100); // Allow focus to take effect
+			} else {
+				console.warn(`Cornell Plugin: Leaf intended for focus no longer exists or is detached.`);
+                // Fallback focus to center if available
+                if (session.leaves.center?.parent) {
+                    this.app.workspace.setActiveLeaf(session.leaves.center, { focus: true });
+                     await sleep(100);
+                }
+			}
+		} else {
+			console.log("Cornell Plugin: No specific leaf targeted for final focus.");
+            // Fallback: Ensure the source pane (center) is focused if available
+            if (session.leaves.center?.parent) {
+                this.app.workspace.setActiveLeaf(session.leaves.center, { focus: true });
+                await sleep(100);
+            }
+		}
+
+		// --- Scroll ---
+        // Find section lines in each relevant file
+        const scrollTasks: Promise<void>[] = [];
+        try {
+            const sourceContent = await this.app.vault.cachedRead(sourceFile);
+            const cueContent = await this.app.vault.cachedRead(cueFile);
+            const summaryContent = summaryFile ? await this.app.vault.cachedRead(summaryFile) : "";
+
+            const sectionLines = {
+                CUE: this.findSectionLine(cueContent, "CUE") ?? 0,
+                MAIN: this.findSectionLine(sourceContent, "MAIN") ?? 0,
+                SUMMARY: this.findSectionLine(summaryContent, "SUMMARY") ?? 0
+            };
+
+            console.log("Section lines found:", sectionLines);
+
+            // Scroll each active pane to its corresponding section
+            if (session.leaves.left?.parent) {
+                scrollTasks.push(this.scrollToSection(session.leaves.left, sectionLines.CUE));
+            }
+            if (session.leaves.center?.parent) {
+                scrollTasks.push(this.scrollToSection(session.leaves.center, sectionLines.MAIN));
+            }
+            if (session.leaves.right?.parent) {
+                scrollTasks.push(this.scrollToSection(session.leaves.right, sectionLines.SUMMARY));
+            }
+
+            if (scrollTasks.length > 0) {
+                console.log(`Cornell Plugin: Executing ${scrollTasks.length} scroll tasks.`);
+                await Promise.all(scrollTasks);
+                await sleep(50); // Allow scrolls to finish
+                console.log("Cornell Plugin: Scrolling tasks complete.");
+            } else {
+                console.log("Cornell Plugin: No active panes to scroll.");
+            }
+        } catch (readError) {
+             console.error("Cornell Plugin: Error reading file content for scrolling:", readError);
+        }
+	}
+
+	// Helper to find the line number of a section header (e.g., ## CUE)
+	findSectionLine(content: string, section: CornellSection): number | null {
+        if (!content) return null;
+		const lines = content.split('\n');
+		// Matches ## CUE, ##CUE, ## Cue, etc. at the start of a line
+		const regex = new RegExp(`^##\\s*${section}\\b.*`, 'i');
+		for (let i = 0; i < lines.length; i++) {
+			if (regex.test(lines[i].trim())) {
+				// console.log(`Cornell Plugin: Found "## ${section}" at line ${i} in content.`);
+				return i;
+			}
+		}
+		// console.warn(`Cornell Plugin: Section header "## ${section}" not found in the provided content.`);
+		return null;
+	}
+
+	// Helper function to scroll a leaf's view to a specific line
+	async scrollToSection(leaf: WorkspaceLeaf | null, line: number | null): Promise<void> {
+		if (!leaf || line === null || !(leaf.view instanceof MarkdownView) || !leaf.parent) {
+			// console.log(`Cornell Plugin: Skipping scroll for leaf - invalid input or leaf detached.`);
+			return;
+		}
+		const view = leaf.view;
+        const targetMode = view.getMode(); // Scroll in the current mode
+		// console.log(`Cornell Plugin: Scrolling leaf ${view.file?.path} to line ${line} (current mode: ${targetMode}).`);
+
+		try {
+			// No need to switch mode here, scroll in the current mode
+			if (targetMode === 'source') {
+				const editor = view.editor;
+				if (!editor) {
+					console.warn(`Cornell Plugin: Editor not available for source mode scroll in ${view.file?.path}.`);
+					return;
+				}
+				const lineCount = editor.lineCount();
+				const targetLine = Math.max(0, Math.min(line, lineCount > 0 ? lineCount - 1 : 0));
+				const position: EditorPosition = { line: targetLine, ch: 0 };
+				// console.log(`Cornell Plugin: Scrolling source editor to line ${targetLine}.`);
+                // Use scrollIntoView with center alignment if possible
+				editor.scrollIntoView({ from: position, to: position }, true);
+                // Set cursor after scrolling
+                await sleep(50); // Allow scroll animation
+                editor.setCursor(position);
+			} else { // Preview mode scroll
+				// Use the internal scroll function which handles preview scrolling
+                // Ensure previewMode object exists
+                if (view.previewMode) {
+				    view.previewMode.applyScroll(line);
+				    // console.log(`Cornell Plugin: Scrolling preview for ${view.file?.path} to line ${line}.`);
+                } else {
+                    console.warn(`Cornell Plugin: previewMode not available for scrolling in ${view.file?.path}`);
+                }
+			}
+			await sleep(50);
+			// console.log(`Cornell Plugin: Scroll command issued for leaf ${view.file?.path}.`);
+		} catch (scrollError) {
+			console.error(`Cornell Plugin: Error during scroll on leaf ${view.file?.path}:`, scrollError);
+		}
+	}
+
+	// Adjust pane widths based on settings using flexbox
+	adjustPaneWidths(session: CornellSession, ratio = this.settings.paneWidthRatio): void {
+		const { left, center, right } = session.leaves;
+		// const ratio = this.settings.paneWidthRatio; // Use passed ratio or default
+
+		const activeLeavesMap: { [key in LeafPosition]?: WorkspaceLeaf } = {};
+		let totalRatioUnits = 0;
+		let activePaneCount = 0;
 
         // Check which panes are actually active and visible
 		if (left?.parent && left.view?.containerEl) {
@@ -1251,1245 +3576,3588 @@ export default class CornellPlugin extends Plugin {
 			totalRatioUnits += ratio.left;
 			activePaneCount++;
 		}
-		if (center?.parent && center.view?.containerEl) {
-			activeLeavesMap.center = center;
-			totalRatioUnits += ratio.center;
-			activePaneCount++;
+		if (center?.parent && center.view?.containerEl) {
+			activeLeavesMap.center = center;
+			totalRatioUnits += ratio.center;
+			activePaneCount++;
+		}
+		if (right?.parent && right.view?.containerEl) {
+			activeLeavesMap.right = right;
+			totalRatioUnits += ratio.right;
+			activePaneCount++;
+		}
+
+		if (activePaneCount === 0) {
+			return;
+		}
+		session.appliedWidthRatio = ratio;
+
+		console.log(`Cornell Plugin: Adjusting widths for ${activePaneCount} panes. Ratios: L=${ratio.left}, C=${ratio.center}, R=${ratio.right}. Total units: ${totalRatioUnits}.`);
+
+        // Calculate flex-basis percentage
+		const calculateBasis = (leafRatio: number): string => {
+			if (totalRatioUnits <= 0 || activePaneCount <= 0) {
+				return `${100 / (activePaneCount || 1)}%`; // Equal distribution fallback
+			}
+			const percentage = (leafRatio / totalRatioUnits) * 100;
+			return `${percentage}%`;
+		};
+
+        // Apply flex style to the container element of the view
+		const setWidth = (leaf: WorkspaceLeaf | undefined, basis: string, leafRatio: number) => {
+			const containerEl = leaf?.view?.containerEl;
+			if (containerEl) {
+                const flexGrow = (totalRatioUnits <= 0) ? 1 : leafRatio;
+				containerEl.style.flex = `${flexGrow} 1 ${basis}`;
+				// console.log(`Cornell Plugin: Applied flex=${containerEl.style.flex} to leaf (${leaf.view instanceof MarkdownView ? leaf.view.file?.basename : 'N/A'})`);
+			}
+		};
+
+        // Apply widths only to the panes active in the current layout
+		if (activeLeavesMap.left) setWidth(activeLeavesMap.left, calculateBasis(ratio.left), ratio.left);
+		if (activeLeavesMap.center) setWidth(activeLeavesMap.center, calculateBasis(ratio.center), ratio.center);
+		if (activeLeavesMap.right) setWidth(activeLeavesMap.right, calculateBasis(ratio.right), ratio.right);
+	}
+
+
+	// --- Leaf Management Helpers (Adapted from main.ts その1) ---
+
+    /** Find an existing, attached Markdown leaf containing the target file (optionally only in popout windows, or only outside them) */
+    private findExistingLeafForFile(file: TFile, inPopout?: boolean): WorkspaceLeaf | null {
+        let foundLeaf: WorkspaceLeaf | null = null;
+        this.app.workspace.iterateAllLeaves((leaf) => {
+            if (foundLeaf) return; // Stop searching once found
+            if (inPopout !== undefined && this.isLeafInPopout(leaf) !== inPopout) return;
+            if (leaf.view instanceof MarkdownView && leaf.view.file?.path === file.path && leaf.parent) {
+                foundLeaf = leaf;
+            }
+        });
+        return foundLeaf;
+    }
+
+	/**
+	 * Detaches leaves that are currently tracked but not needed for the target layout.
+	 */
+	private async cleanupUnneededLeaves(session: CornellSession, neededPositions: LeafPosition[]): Promise<void> {
+		console.log("Cornell Plugin: Cleaning up unneeded leaves...");
+		const cleanupTasks: Promise<void>[] = [];
+		const currentLeaves = { ...session.leaves }; // Operate on a copy
+
+		(Object.keys(currentLeaves) as LeafPosition[]).forEach(pos => {
+			const leaf = currentLeaves[pos];
+			// If a leaf exists for this position but is NOT needed in the new layout
+			if (leaf && !neededPositions.includes(pos)) {
+				console.log(`Cornell Plugin: Detaching unneeded leaf at position ${pos} (${leaf.view instanceof MarkdownView ? leaf.view.file?.basename : 'N/A'}).`);
+				cleanupTasks.push((async () => {
+					try {
+						// Double-check if the leaf still exists in the workspace
+                        let exists = false;
+                        this.app.workspace.iterateAllLeaves(l => { if (l === leaf) exists = true; });
+
+						if (exists && leaf.parent) {
+							// Remove Cornell CSS classes before detaching
+							leaf.view?.containerEl?.classList.remove(CORNELL_PANE_CLASS, CORNELL_LEFT_PANE_CLASS, CORNELL_CENTER_PANE_CLASS, CORNELL_RIGHT_PANE_CLASS, CORNELL_RECALL_QUIZ_CLASS);
+                            // Reset flex style
+                            if (leaf.view?.containerEl) leaf.view.containerEl.style.flex = '';
+							leaf.detach(); // Detach the leaf
+						}
+					} catch (error) {
+						console.error(`Error detaching leaf for position ${pos}:`, error);
+					} finally {
+                        // Always clear the reference in the main tracking object
+                        if (session.leaves[pos] === leaf) {
+						    session.leaves[pos] = null;
+                        }
+                    }
+				})());
+			}
+		});
+
+		try {
+			await Promise.all(cleanupTasks);
+			console.log("Cornell Plugin: Unneeded leaf cleanup completed.");
+		} catch (error) {
+			console.error("Error waiting for unneeded leaf cleanup:", error);
+		}
+	}
+
+	/**
+	 * Closes a session: clears its tracked state and optionally detaches its leaves.
+	 * The saved openSessions entry is kept; callers forget it when the layout should not come back.
+     * @param forceDetachAll If true (e.g., on unload), detach leaves. If false (e.g., on error), just remove styles/tracking.
+	 */
+	private async closeSession(session: CornellSession, forceDetachAll: boolean = true): Promise<void> {
+		console.log(`Cornell Plugin: Closing Cornell session for ${session.sourceFile.path} (Force detach all: ${forceDetachAll})`);
+		// Get a list of unique leaves currently tracked
+		const leavesToCleanup = [
+			session.leaves.left,
+			session.leaves.center,
+			session.leaves.right
+		].filter((leaf): leaf is WorkspaceLeaf => leaf !== null);
+
+		const uniqueLeaves = [...new Set(leavesToCleanup)];
+
+		const cleanupPromises = uniqueLeaves.map(async (leaf) => {
+			try {
+				// Check if the leaf still exists in the workspace
+                let exists = false;
+                this.app.workspace.iterateAllLeaves(l => { if (l === leaf) exists = true; });
+
+                if (exists && leaf.parent) {
+                    // Remove styles regardless
+                    leaf.view?.containerEl?.classList.remove(CORNELL_PANE_CLASS, CORNELL_LEFT_PANE_CLASS, CORNELL_CENTER_PANE_CLASS, CORNELL_RIGHT_PANE_CLASS, CORNELL_RECALL_QUIZ_CLASS);
+                    if (leaf.view?.containerEl) leaf.view.containerEl.style.flex = ''; // Reset flex
+
+                    if (forceDetachAll) {
+                        console.log(`Cornell Plugin: Detaching leaf (${leaf.view instanceof MarkdownView ? leaf.view.file?.basename : 'N/A'}) in full clear.`);
+                        leaf.detach();
+                    }
+                }
+			} catch (error) {
+				console.error(`Error during full leaf cleanup for leaf (${leaf.view instanceof MarkdownView ? leaf.view.file?.basename : 'N/A'}):`, error);
+			}
+		});
+
+		try {
+			await Promise.all(cleanupPromises);
+			console.log("Cornell Plugin: Full leaf cleanup tasks completed.");
+		} catch (error) {
+			console.error("Error waiting for full leaf cleanup:", error);
+		}
+
+		// Reset tracked state AFTER cleanup attempts
+		session.leaves = { left: null, center: null, right: null };
+        session.recallQuiz = null;
+        this.setClozeOverlay(session, false);
+        if (this.sessions.get(session.sourceFile.path) === session) this.sessions.delete(session.sourceFile.path);
+		console.log("Cornell Plugin: Cornell session closed.");
+	}
+
+	/** Forget remembered Source leaves that were closed or now show another note */
+	private pruneLastSourceLeaves = (): void => {
+		for (const [path, leaf] of this.lastSourceLeaves) {
+			if (!leaf.parent || !(leaf.view instanceof MarkdownView) || leaf.view.file?.path !== path) {
+				this.lastSourceLeaves.delete(path);
+			}
 		}
-		if (right?.parent && right.view?.containerEl) {
-			activeLeavesMap.right = right;
-			totalRatioUnits += ratio.right;
-			activePaneCount++;
+	};
+
+	/** Forgets sessions whose panes were all closed by the user */
+	private pruneClosedSessions = async (): Promise<void> => {
+		if (this.isSwitchingMode) return;
+		const attachedLeaves = new Set<WorkspaceLeaf>();
+		this.app.workspace.iterateAllLeaves(leaf => { if (leaf.parent) attachedLeaves.add(leaf); });
+		for (const session of this.getSessions()) {
+			const tracked = Object.values(session.leaves).filter((leaf): leaf is WorkspaceLeaf => leaf !== null);
+			if (tracked.some(leaf => attachedLeaves.has(leaf))) continue;
+			console.log(`Cornell Plugin: All panes of ${session.sourceFile.path} were closed, ending its session.`);
+			await this.closeSession(session, false);
+			await this.forgetOpenSession(session.sourceFile.path);
+		}
+	};
+
+
+    /** Re-render a leaf in preview mode so code blocks pick up plugin state changes */
+    private rerenderPreview(leaf: WorkspaceLeaf | null): void {
+        if (leaf?.view instanceof MarkdownView && leaf.view.getMode() === 'preview') {
+            leaf.view.previewMode.rerender(true);
+        }
+    }
+
+	// Set MarkdownView mode reliably (From main.ts その1, adapted)
+	async setMarkdownViewMode(view: MarkdownView, mode: 'source' | 'preview'): Promise<void> {
+        // Check if trying to switch Cue pane to source while enforcement is on
+        const owner = this.findSessionLeaf(leaf => leaf.view === view);
+        if (owner?.position === 'left' && this.isCuePreviewEnforced(owner.session) && mode === 'source') {
+             console.log(`Cornell Plugin: Blocked attempt to switch Cue pane to source mode while enforcing preview.`);
+             // new Notice("Cue pane is locked to Preview mode.");
+             return; // Prevent switch
+        }
+		try {
+			const prevState = view.getState();
+			if (prevState.mode !== mode) {
+				console.log(`Cornell Plugin: Setting mode to ${mode} for view: ${view.file?.path}`);
+				const nextState: ViewState = {
+					type: prevState.type as string,
+					state: { ...(prevState.state || {}), mode: mode } // Correctly merge state
+				};
+                // Check if view is still valid before setting state
+                if (!view.leaf || !view.leaf.parent) {
+                    console.warn(`Cornell Plugin: View for ${view.file?.path} is detached. Cannot set mode.`);
+                    return;
+                }
+				await view.setState(nextState, { history: false });
+				await sleep(50); // Allow mode change to render
+			}
+		} catch (error) {
+			console.error(`Failed to set mode to ${mode} for view ${view.file?.path}:`, error);
+            // Don't rethrow, just log the error
+		}
+	}
+
+
+	// --- Cue Generation Logic (Combined - writes to Cue Note) ---
+	async generateCue(editor: Editor, view: MarkdownView, style: CueStyle = this.settings.cueStyle) { // view is the SOURCE view
+		const sourceFile = view.file;
+        if (!sourceFile || !this.isSourceNote(sourceFile.path)) {
+            new Notice("Cue generation must be run from the Source note.");
+            return;
+        }
+
+        // One cue per non-empty selection, the reference goes at the end of each selection
+        const drafts: CueDraft[] = [];
+        for (const selection of editor.listSelections()) {
+            const selectedText = editor.getRange(selection.anchor, selection.head);
+            if (selectedText.trim().length === 0) continue;
+            const at = editor.posToOffset(selection.anchor) < editor.posToOffset(selection.head) ? selection.head : selection.anchor;
+            drafts.push({ at, definition: selectedText.trim().replace(/\s+/g, ' '), span: selectedText });
+        }
+		if (drafts.length === 0) {
+			new Notice("Please select text in the Source note to create a Cue.");
+			return;
+		}
+        const definitions = await this.styleCueDefinitions(drafts.map(draft => draft.definition), style);
+        if (!definitions) return; // Cancelled in the question modal
+        await this.createCues(editor, sourceFile, drafts.map((draft, i) => ({ ...draft, definition: definitions[i] })));
+    }
+
+    /** Turns selected texts into definitions of the given cue style. Q&A asks for the questions; resolves null if cancelled. */
+    private async styleCueDefinitions(texts: string[], style: CueStyle): Promise<string[] | null> {
+        switch (style) {
+            case 'qa': {
+                const pairs = await new QuestionCueModal(this.app, texts).openAndWait();
+                return pairs && pairs.map(pair => formatStyledCue({ style: 'qa', prompt: pair.question, answer: pair.answer }));
+            }
+            case 'term': {
+                let unsplit = 0;
+                const definitions = texts.map(text => {
+                    const split = splitTermDefinition(text);
+                    if (!split) {
+                        unsplit++;
+                        return text;
+                    }
+                    return formatStyledCue({ style: 'term', prompt: split.term, answer: split.definition });
+                });
+                if (unsplit > 0) new Notice(`${unsplit} selection(s) are not in "term: definition" form and were added as free-form cues.`);
+                return definitions;
+            }
+            case 'keyword':
+                return texts.map(text => formatStyledCue({ style: 'keyword', prompt: stripInlineMarkdown(text).trim() || text, answer: null }));
+            default:
+                return texts;
+        }
+    }
+
+    /**
+     * Creates cues with consecutive references: all references are inserted into the Source in one editor transaction,
+     * all definitions go to the Cue note in one write (or into the ## CUE section, in the same transaction), then one S->C sync runs.
+     * Returns the created references (e.g. `[^cue4]`), or null if nothing was created.
+     */
+    async createCues(editor: Editor, sourceFile: TFile, drafts: CueDraft[]): Promise<string[] | null> {
+        // References are numbered in reading order
+        const sortedDrafts = [...drafts].sort((a, b) => editor.posToOffset(a.at) - editor.posToOffset(b.at));
+
+        if (this.getStorageMode(sourceFile) === 'single-file') {
+            return this.createSingleFileCues(editor, sourceFile, sortedDrafts);
+        }
+
+        // Get the corresponding Cue file
+        const cuePath = this.getCueNotePath(sourceFile);
+        let cueFile : TFile | null = null;
+        const cueFileAbstract = this.app.vault.getAbstractFileByPath(cuePath);
+
+
+        // Ensure Cue note exists, create if necessary
+        if (cueFileAbstract instanceof TFile) {
+             cueFile = cueFileAbstract;
+        } else {
+            new Notice(`Cue note not found at ${cuePath}. Attempting to create...`);
+            cueFile = await this.ensureCueNoteExists(cuePath, sourceFile);
+            if (!cueFile) {
+                new Notice(`Failed to create Cue note at ${cuePath}. Cannot generate Cue.`);
+                return null;
+            }
+            new Notice(`Created Cue note: ${cueFile.basename}`);
+        }
+
+		try {
+            // 1. Determine the next footnote indices/references based on the CUE note content
+			const cueContent = await this.app.vault.read(cueFile);
+            const existingCueDefs = this.parseFootnotesSimple(cueContent); // Get existing definitions from Cue note
+			const footnoteRefs = this.getNextCueReferences(existingCueDefs, sortedDrafts.length);
+
+            // 2. Insert the footnote references into the SOURCE note, in one transaction
+            const operation = this.startSyncOperation('generate-cue');
+            const sourceBefore = editor.getValue();
+            editor.transaction({ changes: sortedDrafts.map((draft, i) => ({ from: draft.at, text: footnoteRefs[i] })) });
+            this.recordSyncWrite(operation, sourceFile.path, sourceBefore, editor.getValue());
+            await this.rememberCueSpans(sourceFile, sortedDrafts.map((draft, i) => [footnoteRefs[i], draft.span]));
+
+            // 3. Add the footnote definitions to the CUE note, next to their neighbours in reading order
+            const cueFootnotes = new Map(existingCueDefs);
+            sortedDrafts.forEach((draft, i) => cueFootnotes.set(footnoteRefs[i].slice(2, -1), draft.definition));
+            const linkToSource = this.settings.linkToSourceText.replace('{{sourceNote}}', sourceFile.basename);
+            const newCueContent = updateCueNoteStructure(cueContent, cueFootnotes, sourceRefOrder(editor.getValue()), linkToSource);
+
+			await this.modifyJournaled(cueFile, newCueContent, operation);
+			new Notice(`Cue ${footnoteRefs.join(', ')} added to ${cueFile.basename}.`);
+
+            // 4. Trigger S->C sync to ensure Cue note is fully updated/formatted
+            // Use timeout to allow source editor changes to settle before sync reads it
+            setTimeout(() => {
+                console.log(`[GenerateCue] Triggering S->C sync after adding ${footnoteRefs.join(', ')}`);
+                this.syncSourceToCue(sourceFile, operation).catch(err => {
+                    console.error("Error during post-generateCue sync:", err);
+                    new Notice("Sync after Cue generation failed. Manual sync might be needed.");
+                });
+            }, 300); // Short delay
+
+            // 5. Refresh Cue pane if open and in preview mode
+            const cueLeaf = this.sessions.get(sourceFile.path)?.leaves.left;
+            if (cueLeaf && cueLeaf.view instanceof MarkdownView && cueLeaf.view.file === cueFile) {
+                const cueView = cueLeaf.view;
+                if (cueView.getMode() === 'preview') {
+                     console.log("Refreshing Cue pane preview after generation.");
+                     // Re-setting state forces preview refresh
+                     await this.setMarkdownViewMode(cueView, 'preview');
+                }
+            }
+            return footnoteRefs;
+
+		} catch (error) {
+			console.error("Failed to generate Cue:", error);
+			new Notice(`Error generating Cue. ${error instanceof Error ? error.message : 'Unknown error'}`);
+            return null;
 		}
+	}
+
+
+    /** Next free footnote references (e.g. `[^cue4]`, `[^cue5]`) after the highest numbered existing definition */
+    private getNextCueReferences(existingDefs: Map<string, string>, count: number): string[] {
+        const prefix = this.settings.cuePrefix.trim();
+        let lastIndex = 0;
+
+        existingDefs.forEach((_def, key) => {
+            let num = NaN;
+            if (prefix && key.startsWith(prefix)) {
+                const numStr = key.substring(prefix.length);
+                if (/^\d+$/.test(numStr)) num = parseInt(numStr, 10);
+            } else if (!prefix && /^\d+$/.test(key)) {
+                num = parseInt(key, 10);
+            }
+            if (!isNaN(num) && num > lastIndex) lastIndex = num;
+        });
+
+        return Array.from({ length: count }, (_, i) => prefix ? `[^${prefix}${lastIndex + 1 + i}]` : `[^${lastIndex + 1 + i}]`);
+    }
+
+    /** Single-file variant of createCues: references and definitions (into the ## CUE section) in one transaction */
+    private async createSingleFileCues(editor: Editor, sourceFile: TFile, drafts: CueDraft[]): Promise<string[] | null> {
+        try {
+            // Add missing section headings first, shifting each insert position by the headings inserted before it
+            let positions = drafts.map(draft => editor.posToOffset(draft.at));
+            const insertions = cornellSectionInsertions(editor.getValue());
+            if (insertions.length > 0) {
+                editor.transaction({ changes: insertions.map(ins => ({ from: editor.offsetToPos(ins.offset), text: ins.text })) });
+                positions = positions.map(pos => pos + insertions
+                    .filter(ins => ins.offset < pos || (ins.offset === pos && !ins.trailing))
+                    .reduce((sum, ins) => sum + ins.text.length, 0));
+            }
+            const content = editor.getValue();
+            const cue = findCornellSection(content, 'CUE');
+            if (!cue) throw new Error("## CUE section could not be created.");
+
+            if (positions.some(pos => pos > cue.headingStart && pos <= cue.end)) {
+                new Notice("Select text outside the ## CUE section to create a Cue.");
+                return null;
+            }
+            const footnoteRefs = this.getNextCueReferences(this.parseFootnotesSimple(content), drafts.length);
+
+            // Definitions go at the end of the CUE body, before the links code block if there is one
+            const codeBlockIndex = content.slice(cue.headingEnd, cue.end).indexOf('```' + INTERNAL_SETTINGS.codeBlockProcessorId);
+            let definitionOffset = codeBlockIndex !== -1 ? cue.headingEnd + codeBlockIndex : cue.end;
+            while (definitionOffset > cue.headingEnd && /\s/.test(content[definitionOffset - 1])) definitionOffset--;
+            const definitionsText = drafts.map((draft, i) => `\n\n${formatFootnoteDefinition(footnoteRefs[i].slice(2, -1), draft.definition)}`).join('');
+
+            const operation = this.startSyncOperation('generate-cue');
+            editor.transaction({
+                changes: [
+                    ...positions.map((pos, i) => ({ from: editor.offsetToPos(pos), text: footnoteRefs[i] })),
+                    { from: editor.offsetToPos(definitionOffset), text: definitionsText }
+                ]
+            });
+            this.recordSyncWrite(operation, sourceFile.path, content, editor.getValue());
+            await this.rememberCueSpans(sourceFile, drafts.map((draft, i) => [footnoteRefs[i], draft.span]));
+            new Notice(`Cue ${footnoteRefs.join(', ')} added to the CUE section.`);
+
+            // Sort the definitions and refresh the links code block
+            setTimeout(() => {
+                this.syncSourceToCue(sourceFile, operation).catch(err => {
+                    console.error("Error during post-generateCue sync:", err);
+                    new Notice("Sync after Cue generation failed. Manual sync might be needed.");
+                });
+            }, 300);
+            return footnoteRefs;
+        } catch (error) {
+            console.error("Failed to generate Cue:", error);
+            new Notice(`Error generating Cue. ${error instanceof Error ? error.message : 'Unknown error'}`);
+            return null;
+        }
+    }
+
+
+    // --- Quick Capture ---
+
+    /** Asks for a cue without needing a selection and attaches it in the Source. Works from the Cue pane too. */
+    async quickCaptureCue(sourceFile: TFile): Promise<void> {
+        const view = this.findSourceView(sourceFile);
+        if (!view) {
+            new Notice(`Open ${sourceFile.basename} in an editor to attach a quick cue.`);
+            return;
+        }
+        const definitions = await this.getCueDefinitionsForSource(sourceFile) ?? new Map<string, string>();
+        const result = await new QuickCueModal(this.app, sourceFile.basename, definitions, this.settings.quickCueAttachAt).openAndWait();
+        if (!result) return;
+        if (view.file !== sourceFile) {
+            new Notice(`${sourceFile.basename} is no longer open. The cue was not added.`);
+            return;
+        }
+
+        const at = this.getQuickCueAttachPosition(view.editor, this.settings.quickCueAttachAt);
+        if (result.kind === 'reuse') {
+            await this.attachExistingCue(view.editor, sourceFile, at, result.ref);
+        } else {
+            await this.createCues(view.editor, sourceFile, [{ at, definition: result.definition, span: null }]);
+        }
+    }
+
+    /** The view of a Source note to attach cues in: the active one, the one last focused, the layout's Source pane, or any open one (never a Cue/Summary pane) */
+    private findSourceView(sourceFile: TFile): MarkdownView | null {
+        const isSidePane = (leaf: WorkspaceLeaf) => {
+            const position = this.findSessionLeaf(l => l === leaf)?.position;
+            return position === 'left' || position === 'right';
+        };
+        const candidates: (WorkspaceLeaf | null | undefined)[] = [
+            this.app.workspace.getActiveViewOfType(MarkdownView)?.leaf,
+            this.lastSourceLeaves.get(sourceFile.path),
+            this.sessions.get(sourceFile.path)?.leaves.center,
+        ];
+        this.app.workspace.iterateAllLeaves(leaf => { candidates.push(leaf); });
+        for (const leaf of candidates) {
+            if (leaf && leaf.view instanceof MarkdownView && leaf.view.file === sourceFile && !isSidePane(leaf)) {
+                return leaf.view;
+            }
+        }
+        return null;
+    }
+
+    /** Where a quick-capture reference goes: at the cursor, or after the last character of its line or paragraph */
+    private getQuickCueAttachPosition(editor: Editor, attachAt: QuickCueAttachPosition): EditorPosition {
+        const cursor = editor.getCursor('to');
+        if (attachAt === 'cursor') return cursor;
+        let line = cursor.line;
+        if (attachAt === 'paragraph-end') {
+            while (line < editor.lastLine() && editor.getLine(line + 1).trim() !== '') line++;
+        }
+        return { line, ch: editor.getLine(line).trimEnd().length };
+    }
+
+    /** Inserts another reference to an existing cue into the Source, without a new definition */
+    private async attachExistingCue(editor: Editor, sourceFile: TFile, at: EditorPosition, ref: string): Promise<void> {
+        const operation = this.startSyncOperation('generate-cue');
+        const before = editor.getValue();
+        editor.transaction({ changes: [{ from: at, text: `[^${ref}]` }] });
+        this.recordSyncWrite(operation, sourceFile.path, before, editor.getValue());
+        await this.saveData();
+        new Notice(`Attached [^${ref}] in ${sourceFile.basename}.`);
+    }
+
+
+    // --- Cue Suggestions ---
+
+    /** Scans the Source for cue candidates and turns the ones accepted in a checklist into cues */
+    async suggestCuesForSource(sourceFile: TFile): Promise<void> {
+        const view = this.findSourceView(sourceFile);
+        if (!view) {
+            new Notice(`Open ${sourceFile.basename} in an editor to get cue suggestions.`);
+            return;
+        }
+        const editor = view.editor;
+        const content = editor.getValue();
+        // Single-file notes: only the MAIN section holds lecture text
+        const main = this.getStorageMode(sourceFile) === 'single-file' ? findCornellSection(content, 'MAIN') : null;
+        const definitions = await this.getCueDefinitionsForSource(sourceFile) ?? new Map<string, string>();
+        const suggestions = suggestCues(content, Array.from(definitions.values()), main ? { from: main.headingEnd, to: main.end } : undefined);
+        if (suggestions.length === 0) {
+            new Notice(`No new cue candidates found in ${sourceFile.basename}.`);
+            return;
+        }
+
+        const accepted = await new CueSuggestionsModal(this.app, sourceFile.basename, suggestions).openAndWait();
+        if (!accepted || accepted.length === 0) return;
+        if (view.file !== sourceFile || editor.getValue() !== content) {
+            new Notice(`${sourceFile.basename} changed while choosing. Run "Suggest Cues" again.`);
+            return;
+        }
+        console.log(`[SuggestCues] Creating ${accepted.length} of ${suggestions.length} suggested cues in ${sourceFile.path}`);
+        await this.createCues(editor, sourceFile, accepted.map(suggestion => ({ at: editor.offsetToPos(suggestion.at), definition: suggestion.definition, span: suggestion.span })));
+    }
+
+
+    // --- Renumber Cues ---
+
+    /**
+     * Renumbers the prefixed cues of a Source note in reading order, in the Source and its Cue note together.
+     * Per-ref data (spans, base snapshot, review cards, session state) follows the new names.
+     */
+    async renumberCues(sourceFile: TFile): Promise<void> {
+        const sourcePath = sourceFile.path;
+        if (this.isRestoringSync || this.isSwitchingMode || this.syncingSources.has(sourcePath)) {
+            new Notice('Please wait for the current operation to finish.');
+            return;
+        }
+        const singleFile = this.getStorageMode(sourceFile) === 'single-file';
+        const cueFileAbstract = singleFile ? null : this.app.vault.getAbstractFileByPath(this.getCueNotePath(sourceFile));
+        const cueFile = cueFileAbstract instanceof TFile ? cueFileAbstract : null;
+
+        const sourceBefore = await this.readCurrentContent(sourceFile);
+        const cueBefore = cueFile ? await this.readCurrentContent(cueFile) : null;
+        const sourceParsed = parseMarkdownFootnotes(sourceBefore);
+        const definedRefs = [...sourceParsed.definitions, ...(cueBefore !== null ? parseMarkdownFootnotes(cueBefore).definitions : [])].map(def => def.ref);
+        const mapping = computeReadingOrderRefs(sourceParsed.references.map(ref => ref.ref), definedRefs, this.settings.cuePrefix.trim());
+        if (mapping.size === 0) {
+            new Notice(`Cues of ${sourceFile.basename} are already numbered in reading order.`);
+            return;
+        }
+
+        // Both new contents are computed before anything is written
+        const renamedSource = renameFootnoteRefs(sourceBefore, mapping);
+        const sourceAfter = singleFile ? buildSingleFileCueContent(renamedSource) : renamedSource;
+        // Cue definitions are renamed, then put into reading order in the places definitions already took in the Cue note
+        const renamedCue = cueBefore !== null ? renameFootnoteRefs(cueBefore, mapping) : null;
+        const cueAfter = cueFile && renamedCue !== null
+            ? this.generateCueContent(renamedCue, sourceFile, this.parseFootnotesSimple(renamedCue), sourceRefOrder(renamedSource), true)
+            : null;
+
+        const operation = this.startSyncOperation('renumber-cues');
+        this.syncingSources.add(sourcePath);
+        try {
+            await this.writeNoteContent(sourceFile, sourceAfter, operation);
+            if (cueFile && cueAfter !== null) {
+                try {
+                    await this.writeNoteContent(cueFile, cueAfter, operation);
+                } catch (error) {
+                    // Keep the pair consistent: put the Source back if the Cue note could not be written
+                    console.error(`[Renumber] Writing ${cueFile.path} failed, restoring ${sourcePath}:`, error);
+                    await this.writeNoteContent(sourceFile, sourceBefore);
+                    this.syncJournal = this.syncJournal.filter(entry => entry.operationId !== operation.id);
+                    throw error;
+                }
+            }
+            this.renameRefData(sourceFile, mapping);
+            await this.saveData();
+        } finally {
+            await sleep(INTERNAL_SETTINGS.syncFlagReleaseDelay);
+            this.syncingSources.delete(sourcePath);
+        }
+        console.log(`[Renumber] ${sourcePath}: ${Array.from(mapping.entries()).map(([from, to]) => `${from}->${to}`).join(', ')}`);
+        new Notice(`Renumbered ${mapping.size} cue(s) of ${sourceFile.basename}.`);
+    }
+
+    /** Renames the refs in everything the plugin keeps per ref for a Source note */
+    private renameRefData(sourceFile: TFile, mapping: Map<string, string>): void {
+        const rename = (ref: string) => mapping.get(ref) ?? ref;
+        const renameKeys = <T>(record: { [ref: string]: T }) => {
+            const renamed: { [ref: string]: T } = {};
+            Object.entries(record).forEach(([ref, value]) => renamed[rename(ref)] = value);
+            return renamed;
+        };
+
+        const info = this.noteInfoMap.get(sourceFile.path);
+        if (info) {
+            info.cueSpans = renameKeys(info.cueSpans);
+            if (info.baseDefinitions) info.baseDefinitions = renameKeys(info.baseDefinitions);
+        }
+        this.reviewCards.get(sourceFile.path)?.forEach(card => card.ref = rename(card.ref));
+
+        const session = this.sessions.get(sourceFile.path);
+        if (session) {
+            session.revealedClozes = new Set(Array.from(session.revealedClozes, rename));
+            if (session.recallQuiz) {
+                session.recallQuiz.revealed = new Set(Array.from(session.recallQuiz.revealed, rename));
+                session.recallQuiz.results = new Map(Array.from(session.recallQuiz.results, ([ref, result]) => [rename(ref), result]));
+            }
+        }
+    }
+
+
+	// --- Synchronization Logic (From main.ts その2, adapted) ---
+
+    /**
+     * Source -> Cue Sync: Merges the Source definitions into the Cue note.
+     * Definitions edited only in the Cue since the last sync are kept (and written back to the Source).
+     * Writes are journaled under `operation` (a new one if omitted). A dry-run operation only reports what would change.
+     * @param manual Ask about differing definitions on a first sync (auto-sync keeps the Source's).
+     */
+    syncSourceToCue = async (sourceNoteFile: TFile, operation: SyncOperation = this.startSyncOperation('sync-source-to-cue'), manual = false): Promise<SyncResult> => {
+        const sourcePath = sourceNoteFile.path;
+        if (this.isRestoringSync || this.isSwitchingMode || this.syncingSources.has(sourcePath)) {
+            console.log(`[S->C Sync] Skipped for ${sourceNoteFile.basename}: Operation already in progress.`);
+            return { outcome: 'skipped', detail: 'Another operation was in progress.' };
+        }
+        if (!this.isSourceNote(sourcePath)) {
+            console.warn(`[S->C Sync] Invalid call: syncSourceToCue called with non-source note: ${sourcePath}`);
+            return { outcome: 'skipped', detail: 'Not a Source note.' };
+        }
+
+        this.syncingSources.add(sourcePath);
+        console.log(`[S->C Sync] Starting for ${sourcePath}${operation.dryRun ? ' (dry run)' : ''}`);
+        let mapNeedsSave = false;
+        let cueNoteUpdated = false;
+        let cueNoteCreated = false;
+
+        try {
+            // Single-file notes keep their definitions in their own ## CUE section
+            if (this.getStorageMode(sourceNoteFile) === 'single-file') {
+                // Only notes already laid out in sections (or open in a layout) are restructured; others stay as written
+                if (!this.sessions.has(sourcePath) && !findCornellSection(await this.readCurrentContent(sourceNoteFile), 'CUE')) {
+                    return { outcome: 'skipped', detail: 'No ## CUE section yet. Open the note in a Cornell layout or generate a cue to set it up.' };
+                }
+                const updated = await this.syncSingleFileCueSection(sourceNoteFile, operation);
+                return { outcome: updated ? 'updated' : 'unchanged', detail: null };
+            }
+
+            const sourceContent = await this.app.vault.cachedRead(sourceNoteFile);
+
+            const cueNotePath = this.getCueNotePath(sourceNoteFile);
+            const cueFileAbstract = this.app.vault.getAbstractFileByPath(cueNotePath);
+            let cueFileInstance: TFile | null = null;
+
+            if (cueFileAbstract instanceof TFile) {
+                cueFileInstance = cueFileAbstract;
+            } else if (operation.dryRun) {
+                return { outcome: 'created', detail: `Would create ${cueNotePath}.` };
+            } else {
+                // Optionally create the cue note if it doesn't exist during sync
+                console.log(`[S->C Sync] Cue note not found for ${sourcePath}. Attempting to create.`);
+                cueFileInstance = await this.ensureCueNoteExists(cueNotePath, sourceNoteFile);
+                if (!cueFileInstance) {
+                    if (operation.trigger !== 'batch-sync') new Notice(`Cue note for "${sourceNoteFile.basename}" not found and could not be created. Skipping S->C sync.`, 7000);
+                    console.log(`[S->C Sync] Cue note creation failed for ${sourcePath}. Skipping.`);
+                    // Update map if it previously thought cue existed
+                    const info = this.getOrCreateNoteInfo(sourceNoteFile);
+                    if (info.cuePath !== null) {
+                        info.cuePath = null;
+                        this.noteInfoMap.set(sourcePath, info);
+                        await this.saveData();
+                    }
+                    return { outcome: 'error', detail: `Cue note ${cueNotePath} could not be created.` };
+                } else {
+                    if (operation.trigger !== 'batch-sync') new Notice(`Created missing Cue note: ${cueFileInstance.basename}`);
+                    mapNeedsSave = true; // Map updated in ensureCueNoteExists
+                    cueNoteCreated = true;
+                }
+            }
+
+            // Three-way merge Source and Cue definitions, then write the result to both sides
+            const cueContent = await this.app.vault.cachedRead(cueFileInstance);
+            // Merged Cue-side deletions still rewrite the Source, so they are confirmed here too
+            const result = await this.mergeAndWriteDefinitions(sourceNoteFile, sourceContent, cueFileInstance, cueContent, operation, false, 'destructive', this.getUnaskedMergeSide('source', operation, manual));
+            if (!result) {
+                console.log(`[S->C Sync] Cancelled for ${sourcePath} during conflict resolution or change preview.`);
+                return { outcome: 'skipped', detail: 'Cancelled during conflict resolution or change preview.' };
+            }
+            if (result.skipReason) {
+                return { outcome: 'skipped', detail: result.skipReason };
+            }
+            const outcome: SyncOutcome = cueNoteCreated ? 'created' : (result.cueUpdated || result.sourceUpdated) ? 'updated' : 'unchanged';
+            if (operation.dryRun) return { outcome, detail: null };
+            if (result.cueUpdated) {
+                console.log(`[S->C Sync] Cue note ${cueFileInstance.path} updated.`);
+                cueNoteUpdated = true;
+            }
+
+            // Update NoteInfoMap (sync time, ensure cuePath is correct)
+            const info = this.getOrCreateNoteInfo(sourceNoteFile);
+            let infoChanged = false;
+            if (info.cuePath !== cueFileInstance.path) {
+                info.cuePath = cueFileInstance.path;
+                infoChanged = true;
+            }
+            if (cueNoteUpdated) { // Only update timestamp if content actually changed
+                info.lastSyncSourceToCue = Date.now();
+                infoChanged = true;
+            }
+            if (result.sourceUpdated) { // Cue-side edits merged back into the Source
+                info.lastSyncCueToSource = Date.now();
+                infoChanged = true;
+            }
+            if (infoChanged || mapNeedsSave || result.baseChanged) {
+                this.noteInfoMap.set(sourcePath, info);
+                await this.saveData();
+            }
+
+            // Refresh Cue pane if open and in preview mode
+            const session = this.sessions.get(sourcePath) ?? null;
+            const cueLeaf = session?.leaves.left;
+            if (cueNoteUpdated && cueLeaf && cueLeaf.view instanceof MarkdownView && cueLeaf.view.file === cueFileInstance) {
+                const cueView = cueLeaf.view;
+                 if (cueView.getMode() === 'preview' || this.isCuePreviewEnforced(session)) {
+                     console.log("[S->C Sync] Refreshing Cue pane preview.");
+                     // Re-setting state forces preview refresh
+                     // Ensure it stays in preview if enforced
+                     await this.setMarkdownViewMode(cueView, 'preview');
+                 }
+            }
+            return { outcome, detail: null };
+
+        } catch (error) {
+            console.error(`[S->C Sync] Error during sync for ${sourceNoteFile?.basename}:`, error);
+            if (operation.trigger !== 'batch-sync') new Notice(`Error during S->C sync for ${sourceNoteFile.basename}. See console.`);
+            return { outcome: 'error', detail: error instanceof Error ? error.message : String(error) };
+        } finally {
+            await sleep(INTERNAL_SETTINGS.syncFlagReleaseDelay);
+            this.syncingSources.delete(sourcePath);
+            // console.log(`[S->C Sync] Finished for ${sourceNoteFile.path}`);
+        }
+	}
+
+    /**
+     * Cue -> Source Sync: Merges the Cue definitions into the Source note.
+     * Definitions edited only in the Source since the last sync are kept (and written back to the Cue).
+     * Writes are journaled under `operation` (a new one if omitted). A dry-run operation only reports what would change.
+     * @param manual Always preview the Source changes (auto-sync only previews deletions), and ask about differing
+     * definitions on a first sync (auto-sync keeps the Cue's).
+     */
+    async syncCueToSource(cueNoteFile: TFile, operation: SyncOperation = this.startSyncOperation('sync-cue-to-source'), manual = false): Promise<SyncResult> {
+        if (!this.isCueNote(cueNoteFile.path)) {
+             console.warn(`[C->S Sync] Invalid call: syncCueToSource called with non-cue note: ${cueNoteFile.path}`);
+             return { outcome: 'skipped', detail: 'Not a Cue note.' };
+        }
+        const sourceNoteFile = this.getSourceNoteFileFromDerived(cueNoteFile.path);
+        if (!sourceNoteFile) {
+            if (operation.trigger !== 'batch-sync') new Notice(`Source note not found for ${cueNoteFile.basename}. Cannot sync C->S.`);
+            console.error(`[C->S Sync] Source note not found for cue note: ${cueNoteFile.path}`);
+            return { outcome: 'error', detail: 'Source note not found.' };
+        }
+        const sourcePath = sourceNoteFile.path;
+        if (this.isRestoringSync || this.isSwitchingMode || this.syncingSources.has(sourcePath)) {
+            console.log(`[C->S Sync] Skipped for ${cueNoteFile.basename}: Operation already in progress.`);
+            return { outcome: 'skipped', detail: 'Another operation was in progress.' };
+        }
+
+        this.syncingSources.add(sourcePath);
+        let sourceNoteUpdated = false;
+
+        console.log(`[C->S Sync] Starting from ${cueNoteFile.path}${operation.dryRun ? ' (dry run)' : ''}`);
+        console.log(`[C->S Sync] Target Source note: ${sourcePath}`);
+
+        try {
+            const cueContent = await this.app.vault.cachedRead(cueNoteFile);
+            const sourceContent = await this.app.vault.cachedRead(sourceNoteFile);
+
+            // Three-way merge Source and Cue definitions, then write the result to both sides
+            const result = await this.mergeAndWriteDefinitions(sourceNoteFile, sourceContent, cueNoteFile, cueContent, operation, true, manual ? 'always' : 'destructive', this.getUnaskedMergeSide('cue', operation, manual));
+            if (!result) {
+                console.log(`[C->S Sync] Cancelled for ${sourcePath} during conflict resolution.`);
+                return { outcome: 'skipped', detail: 'Cancelled during conflict resolution or change preview.' };
+            }
+            if (result.skipReason) {
+                return { outcome: 'skipped', detail: result.skipReason };
+            }
+            const outcome: SyncOutcome = (result.sourceUpdated || result.cueUpdated) ? 'updated' : 'unchanged';
+            if (operation.dryRun) return { outcome, detail: null };
+            if (result.sourceUpdated) {
+                sourceNoteUpdated = true;
+                console.log(`[C->S Sync] Source note ${sourcePath} updated.`);
+            }
+
+            // Update NoteInfoMap
+            const info = this.getOrCreateNoteInfo(sourceNoteFile);
+            let infoChanged = false;
+            if (info.cuePath !== cueNoteFile.path) { // Should generally match, but good to check
+                info.cuePath = cueNoteFile.path;
+                infoChanged = true;
+            }
+            if (sourceNoteUpdated) { // Only update timestamp if content actually changed
+                info.lastSyncCueToSource = Date.now();
+                infoChanged = true;
+            }
+            if (result.cueUpdated) { // Source-side edits merged into the Cue
+                info.lastSyncSourceToCue = Date.now();
+                infoChanged = true;
+            }
+            if (infoChanged || result.baseChanged) {
+                this.noteInfoMap.set(sourcePath, info);
+                await this.saveData();
+            }
+            return { outcome, detail: null };
+
+        } catch (error) {
+            console.error(`[C->S Sync] Error during sync from '${cueNoteFile.basename}':`, error);
+            if (operation.trigger !== 'batch-sync') new Notice(`Error C->S sync for ${cueNoteFile.basename}. See console.`);
+            return { outcome: 'error', detail: error instanceof Error ? error.message : String(error) };
+        } finally {
+            await sleep(INTERNAL_SETTINGS.syncFlagReleaseDelay);
+            this.syncingSources.delete(sourcePath);
+            // console.log(`[C->S Sync] Finished for ${cueNoteFile.path}`);
+        }
+    }
+
+
+	// --- Synchronization & Parsing Helpers (From main.ts その2, adapted) ---
+
+    /**
+     * Three-way merges the Source and Cue definitions against the base snapshot in CornellNoteInfo,
+     * lets the user resolve definitions edited on both sides, and writes the merged result to each side.
+     * Returns null if the user cancels conflict resolution or the change preview (nothing is written).
+     * Batch syncs and dry runs never prompt: conflicts and (in a batch, either direction) destructive Source changes are returned as `skipReason` instead.
+     * @param rebuildSource Always rebuild the Source footnote block (C->S), even if its definitions are unchanged.
+     * @param preview When to confirm the Source rewrite in a diff preview first.
+     * @param preferWithoutBase Side that wins differing definitions when there is no base yet (first sync), instead of asking.
+     */
+    private async mergeAndWriteDefinitions(
+        sourceNoteFile: TFile,
+        sourceContent: string,
+        cueNoteFile: TFile,
+        cueContent: string,
+        operation: SyncOperation,
+        rebuildSource = false,
+        preview: SyncPreviewMode = 'never',
+        preferWithoutBase: 'source' | 'cue' | null = null
+    ): Promise<{ sourceUpdated: boolean, cueUpdated: boolean, baseChanged: boolean, skipReason: string | null } | null> {
+        const { definitions: sourceDefs, references: sourceRefs } = this.parseSourceContent(sourceContent);
+        const sourceDefinitionsMap = new Map<string, string>(sourceDefs.map(def => [def.ref, def.definition]));
+        const cueDefinitionsMap = this.parseFootnotesSimple(cueContent);
+        const info = this.getOrCreateNoteInfo(sourceNoteFile);
+        const base = info.baseDefinitions ? new Map<string, string>(Object.entries(info.baseDefinitions)) : null;
+
+        const { merged, conflicts } = mergeFootnoteDefinitions(base, sourceDefinitionsMap, cueDefinitionsMap, preferWithoutBase);
+        if (!base && preferWithoutBase) {
+            console.log(`[Merge] No base yet for ${sourceNoteFile.path}: differing definitions taken from the ${preferWithoutBase === 'source' ? 'Source' : 'Cue'} note.`);
+        }
+        const unattended = operation.dryRun || operation.trigger === 'batch-sync';
+        if (conflicts.length > 0 && unattended) {
+            const skipReason = `Conflicting definitions: ${conflicts.map(c => `[^${c.ref}]`).join(', ')}`;
+            return { sourceUpdated: false, cueUpdated: false, baseChanged: false, skipReason };
+        }
+        if (conflicts.length > 0) {
+            console.log(`[Merge] ${conflicts.length} conflicting definition(s) for ${sourceNoteFile.path}: ${conflicts.map(c => c.ref).join(', ')}`);
+            const resolutions = await new DefinitionConflictModal(this.app, sourceNoteFile.basename, conflicts).openAndWait();
+            if (!resolutions) {
+                new Notice(`Sync cancelled for ${sourceNoteFile.basename}. Conflicting definitions were left untouched.`);
+                return null;
+            }
+            resolutions.forEach((definition, ref) => {
+                if (definition === null) merged.delete(ref);
+                else merged.set(ref, definition);
+            });
+        }
+
+        // Option: Keep definitions out of the Cue note if no references exist in Source
+        const cueFootnotes = new Map<string, string>();
+        const presentSourceRefKeys = new Set(sourceRefs.map(r => r.ref));
+        for (const [ref, def] of merged.entries()) {
+            if (this.settings.deleteDefinitionsOnReferenceDelete && !presentSourceRefKeys.has(ref)) {
+                console.log(`[Merge] Excluding def [^${ref}] from Cue (no refs in Source & setting enabled).`);
+                continue;
+            }
+            cueFootnotes.set(ref, def);
+        }
+
+        let sourceUpdated = false;
+        if (rebuildSource || !this.areDefinitionMapsEqual(merged, sourceDefinitionsMap)) {
+            let newSourceContent = this.updateSourceNoteContentRebuild(
+                sourceContent,
+                merged,
+                this.settings.deleteReferencesOnDefinitionDelete, // Delete source refs if cue def deleted?
+                this.settings.moveFootnotesToEnd // Move all defs to end of source?
+            );
+            if (newSourceContent !== sourceContent && operation.trigger === 'batch-sync') {
+                // No preview in a batch: destructive changes wait for a sync where the user can confirm them
+                const changes = summarizeSourceChanges(sourceContent, newSourceContent);
+                const removed = [...changes.deletedDefinitions.map(ref => `definition [^${ref}]`), ...changes.removedReferences.map(ref => `reference [^${ref}]`)];
+                if (removed.length > 0) {
+                    return { sourceUpdated: false, cueUpdated: false, baseChanged: false, skipReason: `Would delete ${removed.join(', ')}; sync this note manually to review.` };
+                }
+            } else if (newSourceContent !== sourceContent && preview !== 'never' && !operation.dryRun) {
+                const action = await this.previewSourceChanges(sourceNoteFile, sourceContent, newSourceContent, preview);
+                if (action === 'cancel') {
+                    new Notice(`Sync cancelled for ${sourceNoteFile.basename}. Nothing was written.`);
+                    return null;
+                }
+                if (action === 'apply-keep-references') {
+                    newSourceContent = this.updateSourceNoteContentRebuild(sourceContent, merged, false, this.settings.moveFootnotesToEnd);
+                }
+            }
+            if (newSourceContent !== sourceContent) {
+                await this.modifyJournaled(sourceNoteFile, newSourceContent, operation);
+                sourceUpdated = true;
+            }
+        }
+        const cueUpdated = await this.updateCueNoteContent(cueNoteFile, sourceNoteFile, cueFootnotes, operation);
+        if (operation.dryRun) return { sourceUpdated, cueUpdated, baseChanged: false, skipReason: null };
+
+        // Both sides now agree on the Cue definitions: they become the base for the next merge
+        const newBase: { [ref: string]: string } = {};
+        cueFootnotes.forEach((def, ref) => newBase[ref] = def);
+        const baseChanged = JSON.stringify(newBase) !== JSON.stringify(info.baseDefinitions);
+        info.baseDefinitions = newBase;
+        this.noteInfoMap.set(sourceNoteFile.path, info);
+
+        return { sourceUpdated, cueUpdated, baseChanged, skipReason: null };
+    }
+
+    /** Side an automatic (save-triggered) sync takes on its first merge. Manual and batch syncs handle conflicts themselves. */
+    private getUnaskedMergeSide(side: 'source' | 'cue', operation: SyncOperation, manual: boolean): 'source' | 'cue' | null {
+        return manual || operation.trigger === 'batch-sync' ? null : side;
+    }
+
+    /** Shows the diff preview for a Source rewrite when `preview` asks for it. Resolves 'apply' without asking otherwise. */
+    private async previewSourceChanges(sourceNoteFile: TFile, before: string, after: string, preview: SyncPreviewMode): Promise<SyncPreviewAction> {
+        const changes = summarizeSourceChanges(before, after);
+        const destructive = changes.deletedDefinitions.length > 0 || changes.removedReferences.length > 0;
+        const additionsOnly = !destructive && changes.changedDefinitions.length === 0 && changes.movedDefinitions.length === 0;
+        const ask = preview === 'always'
+            ? !(additionsOnly && !this.settings.confirmAdditionsOnlySync)
+            : destructive;
+        if (!ask) return 'apply';
+
+        const { action, dontAskForAdditions } = await new SyncPreviewModal(this.app, sourceNoteFile.basename, changes, additionsOnly).openAndWait();
+        if (dontAskForAdditions && action !== 'cancel') {
+            this.settings.confirmAdditionsOnlySync = false;
+            await this.saveSettings();
+        }
+        console.log(`[Sync] Preview for ${sourceNoteFile.path}: ${action}`);
+        return action;
+    }
+
+    /** Compare two ref -> definition maps */
+    private areDefinitionMapsEqual(a: Map<string, string>, b: Map<string, string>): boolean {
+        if (a.size !== b.size) return false;
+        for (const [ref, def] of a.entries()) {
+            if (b.get(ref) !== def) return false;
+        }
+        return true;
+    }
+
+	/** Get or create NoteInfo for a Source note */
+	getOrCreateNoteInfo(sourceNoteFile: TFile): CornellNoteInfo {
+        const sourcePath = sourceNoteFile.path;
+        let info = this.noteInfoMap.get(sourcePath);
+        if (!info) {
+            const cuePath = this.getCueNotePath(sourceNoteFile);
+            const summaryPath = this.getSummaryNotePath(sourceNoteFile);
+            const cueFile = this.app.vault.getAbstractFileByPath(cuePath);
+            const summaryFile = this.app.vault.getAbstractFileByPath(summaryPath);
+            info = {
+                sourcePath,
+                cuePath: cueFile instanceof TFile ? cueFile.path : null,
+                summaryPath: summaryFile instanceof TFile ? summaryFile.path : null,
+                lastSyncSourceToCue: null,
+                lastSyncCueToSource: null,
+                baseDefinitions: null,
+                cueSpans: {},
+                widthRatios: {}
+            };
+            this.noteInfoMap.set(sourcePath, info);
+             console.log(`[Util] Created new NoteInfo entry for ${sourcePath}`);
+             // No save here, caller should save if needed
+        }
+        return info;
+    }
+
+	/** Parse Markdown for footnote definitions and references (code, math, comments and frontmatter are ignored) */
+	parseSourceContent(content: string): { definitions: ParsedDefinition[], references: ParsedReference[] } {
+		return parseMarkdownFootnotes(content);
+	}
+
+    /** Update Source note content based on Cue definitions (for C->S sync) */
+	updateSourceNoteContentRebuild(sourceContent: string, footnotesFromCue: Map<string, string>, deleteReferences: boolean, moveToEnd: boolean): string {
+		const { definitions: sourceDefs } = this.parseSourceContent(sourceContent);
+        const refsDefinedInCue = new Set(footnotesFromCue.keys());
+        const refsToDeleteCompletely = new Set<string>(); // Defs removed from Cue
+
+        // Determine final definitions for Source (Cue is the authority)
+        const finalDefinitions = new Map<string, string>();
+        sourceDefs.forEach(def => {
+            if (refsDefinedInCue.has(def.ref)) {
+                finalDefinitions.set(def.ref, footnotesFromCue.get(def.ref)!); // Update with Cue content
+            } else {
+                refsToDeleteCompletely.add(def.ref); // Mark for full deletion
+                console.log(`[C->S Rebuild] Marking def [^${def.ref}] for deletion from Source (not in Cue).`);
+            }
+        });
+        footnotesFromCue.forEach((cueDef, cueRef) => {
+            if (!sourceDefs.some(d => d.ref === cueRef)) {
+                finalDefinitions.set(cueRef, cueDef); // Add new defs from Cue
+                console.log(`[C->S Rebuild] Adding new def [^${cueRef}] to Source from Cue.`);
+            }
+        });
+
+        // Remove all old definition blocks from source content
+        let bodyContent = sourceContent;
+        const sortedDefsToRemove = [...sourceDefs].sort((a, b) => b.start - a.start); // Remove from end to start
+        for (const def of sortedDefsToRemove) {
+            bodyContent = bodyContent.slice(0, def.start) + bodyContent.slice(def.end);
+        }
+        bodyContent = bodyContent.trimEnd(); // Clean trailing whitespace
+
+        // Optional: Remove references ([^ref]) in the body if their def was removed from Cue
+        if (deleteReferences && refsToDeleteCompletely.size > 0) {
+             console.log(`[C->S Rebuild] Removing references for deleted definitions: ${Array.from(refsToDeleteCompletely).join(', ')}`);
+            const refsToDelete = this.parseSourceContent(bodyContent).references
+                .filter(r => refsToDeleteCompletely.has(r.ref))
+                .sort((a, b) => b.start - a.start); // Remove from end to start
+            for (const ref of refsToDelete) {
+                bodyContent = bodyContent.slice(0, ref.start) + bodyContent.slice(ref.end);
+            }
+             new Notice(`Removed references in Source for deleted Cue definitions: ${Array.from(refsToDeleteCompletely).join(', ')}`, 5000);
+        }
+
+        // Generate the new, sorted footnote definition block
+        let finalDefinitionsText = "";
+        if (finalDefinitions.size > 0) {
+             finalDefinitionsText = Array.from(finalDefinitions.entries())
+                .sort((a, b) => a[0].localeCompare(b[0], undefined, { numeric: true, sensitivity: 'base' })) // Sort numerically/alphabetically
+                .map(([ref, def]) => formatFootnoteDefinition(ref, def))
+                .join('\n\n'); // Separate defs by double newline
+        }
+
+        // Combine body and definitions
+        let newSourceContent = bodyContent;
+        if (finalDefinitionsText) {
+            if (moveToEnd || !moveToEnd) { // Currently always moves to end, original position logic is complex
+                if (!moveToEnd) console.warn("[Cornell Plugin] moveFootnotesToEnd=false is not fully implemented for C->S; footnotes will be appended.");
+                // Add definitions at the end, separated by newlines
+                newSourceContent += (bodyContent.trim() ? '\n\n' : '') + finalDefinitionsText; // Ensure separation only if body isn't empty
+            }
+            // else { // Logic to find original position is complex, append for now
+            //     newSourceContent += (bodyContent ? '\n\n' : '') + finalDefinitionsText;
+            // }
+        }
+        newSourceContent = newSourceContent.trimEnd() + '\n'; // Ensure single trailing newline
+
+		// Normalize multiple newlines
+		return newSourceContent.replace(/\n{3,}/g, '\n\n');
+	}
+
+    /**
+     * Expected content of a Cue note. Only the definitions, the link to the Source and the links code block are updated;
+     * headings, comments and layout the user added stay as they are. New definitions follow the Source order
+     * (all of them with `reorder`).
+     */
+    private generateCueContent(currentContent: string | null, sourceNoteFile: TFile, footnotes: Map<string, string>, sourceOrder: string[] = [], reorder = false): string {
+        const linkToSource = this.settings.linkToSourceText.replace('{{sourceNote}}', sourceNoteFile.basename);
+        return updateCueNoteStructure(currentContent ?? '', footnotes, sourceOrder, linkToSource, reorder);
+    }
+
+	/** Update Cue note content if it differs from the generated expected content */
+	async updateCueNoteContent(cueNoteFile: TFile, sourceNoteFile: TFile, footnotes: Map<string, string>, operation: SyncOperation): Promise<boolean> {
+        let updated = false;
+		try {
+            const currentContent = await this.app.vault.cachedRead(cueNoteFile);
+            const sourceOrder = sourceRefOrder(await this.readCurrentContent(sourceNoteFile));
+            const newContent = this.generateCueContent(currentContent, sourceNoteFile, footnotes, sourceOrder);
+
+            if (currentContent !== newContent) {
+                 console.log(`[Util] Updating content of Cue note: ${cueNoteFile.path}`);
+                await this.modifyJournaled(cueNoteFile, newContent, operation);
+                updated = true;
+            }
+		} catch (error) {
+            console.error(`[Util] Error updating Cue note content for '${cueNoteFile.basename}':`, error);
+        }
+        return updated;
+	}
+
+    /** Parse content simply for footnote definitions Map<ref, definition> */
+	parseFootnotesSimple = (content: string): Map<string, string> => {
+        const footnotesMap = new Map<string, string>();
+        for (const def of parseMarkdownFootnotes(content).definitions) {
+            footnotesMap.set(def.ref, def.definition);
+        }
+        return footnotesMap;
+    }
+
+	// --- Note Type & Path Helpers (From main.ts その2) ---
+
+    /** Check if a file path represents a Source note */
+    isSourceNote(filePath: string): boolean {
+        const normPath = normalizePath(filePath);
+        return normPath.endsWith('.md') && !this.isCueNote(normPath) && !this.isSummaryNote(normPath);
+    }
+
+	/** Check if a file path represents a Cue note */
+	isCueNote = (filePath: string): boolean => {
+        return filePath ? this.matchPathTemplate(this.settings.cueNotePathTemplate, filePath) !== null : false;
+    }
+
+	/** Check if a file path represents a Summary note */
+	isSummaryNote = (filePath: string): boolean => {
+        return filePath ? this.matchPathTemplate(this.settings.summaryNotePathTemplate, filePath) !== null : false;
+    }
 
-		if (activePaneCount === 0) {
-			return;
-		}
+	/** Get the expected Cue note path for a Source note */
+	getCueNotePath = (sourceFile: TFile): string => {
+        return this.getDerivedNotePath(this.settings.cueNotePathTemplate, sourceFile);
+    }
 
-		console.log(`Cornell Plugin: Adjusting widths for ${activePaneCount} panes. Ratios: L=${ratio.left}, C=${ratio.center}, R=${ratio.right}. Total units: ${totalRatioUnits}.`);
+	/** Get the expected Summary note path for a Source note */
+	getSummaryNotePath = (sourceFile: TFile): string => {
+        return this.getDerivedNotePath(this.settings.summaryNotePathTemplate, sourceFile);
+    }
 
-        // Calculate flex-basis percentage
-		const calculateBasis = (leafRatio: number): string => {
-			if (totalRatioUnits <= 0 || activePaneCount <= 0) {
-				return `${100 / (activePaneCount || 1)}%`; // Equal distribution fallback
-			}
-			const percentage = (leafRatio / totalRatioUnits) * 100;
-			return `${percentage}%`;
-		};
+    /** Expand a path template for a Source note */
+    private getDerivedNotePath(template: string, sourceFile: TFile): string {
+        const folderPath = sourceFile.parent?.path ?? '/';
+        return expandPathTemplate(template, folderPath === '/' ? '' : folderPath, sourceFile.basename);
+    }
 
-        // Apply flex style to the container element of the view
-		const setWidth = (leaf: WorkspaceLeaf | undefined, basis: string, leafRatio: number) => {
-			const containerEl = leaf?.view?.containerEl;
-			if (containerEl) {
-                const flexGrow = (totalRatioUnits <= 0) ? 1 : leafRatio;
-				containerEl.style.flex = `${flexGrow} 1 ${basis}`;
-				// console.log(`Cornell Plugin: Applied flex=${containerEl.style.flex} to leaf (${leaf.view instanceof MarkdownView ? leaf.view.file?.basename : 'N/A'})`);
-			}
-		};
+    /** Match a path against a path template. Returns the captured folder ('' if none) and basename, or null. */
+    private matchPathTemplate(template: string, filePath: string): { folder: string | null, basename: string | null } | null {
+        let compiled = this.compiledPathTemplates.get(template);
+        if (!compiled) {
+            compiled = compilePathTemplate(template);
+            this.compiledPathTemplates.set(template, compiled);
+        }
+        const match = normalizePath(filePath).match(compiled.regex);
+        if (!match) return null;
+        return {
+            folder: compiled.folderGroup !== null ? (match[compiled.folderGroup] ?? '') : null,
+            basename: compiled.basenameGroup !== null ? match[compiled.basenameGroup] : null
+        };
+    }
 
-        // Apply widths only to the panes active in the current layout
-		if (activeLeavesMap.left) setWidth(activeLeavesMap.left, calculateBasis(ratio.left), ratio.left);
-		if (activeLeavesMap.center) setWidth(activeLeavesMap.center, calculateBasis(ratio.center), ratio.center);
-		if (activeLeavesMap.right) setWidth(activeLeavesMap.right, calculateBasis(ratio.right), ratio.right);
+	/** Get the Source TFile corresponding to a Cue or Summary note path */
+	getSourceNoteFileFromDerived = (derivedPath: string): TFile | null => {
+        const normalizedDerivedPath = normalizePath(derivedPath);
+
+        // Try map first
+        for (const info of this.noteInfoMap.values()) {
+            if (info.cuePath === normalizedDerivedPath || info.summaryPath === normalizedDerivedPath) {
+                const sourceFile = this.app.vault.getAbstractFileByPath(info.sourcePath);
+                if (sourceFile instanceof TFile) return sourceFile;
+            }
+        }
+
+        // Guess from path (through the path templates) if not in map
+        const templateMatch = this.matchPathTemplate(this.settings.cueNotePathTemplate, normalizedDerivedPath)
+            ?? this.matchPathTemplate(this.settings.summaryNotePathTemplate, normalizedDerivedPath);
+        const sourceBasename = templateMatch?.basename ?? null;
+
+        if (!templateMatch || !sourceBasename) return null;
+
+        let file: TAbstractFile | null;
+        let potentialPath: string;
+        if (templateMatch.folder !== null) {
+            potentialPath = normalizePath(templateMatch.folder ? `${templateMatch.folder}/${sourceBasename}.md` : `${sourceBasename}.md`);
+            file = this.app.vault.getAbstractFileByPath(potentialPath);
+        } else {
+            // Template without {{folder}}: resolve the basename like a wikilink
+            potentialPath = sourceBasename;
+            file = this.app.metadataCache.getFirstLinkpathDest(sourceBasename, '');
+        }
+
+        if (file instanceof TFile && file.basename === sourceBasename && this.isSourceNote(file.path)) {
+            console.log(`[Util] Guessed Source note for ${derivedPath} -> ${file.path}`);
+            // Update map if found via guessing
+            this.getOrCreateNoteInfo(file); // Creates entry if missing
+            const info = this.noteInfoMap.get(file.path)!;
+             if (this.isCueNote(normalizedDerivedPath) && info.cuePath !== normalizedDerivedPath) {
+                info.cuePath = normalizedDerivedPath;
+                this.noteInfoMap.set(file.path, info);
+                this.saveData().catch(e => console.error("[Util] Error saving NoteInfoMap after guessing source:", e));
+             }
+             if (this.isSummaryNote(normalizedDerivedPath) && info.summaryPath !== normalizedDerivedPath) {
+                 info.summaryPath = normalizedDerivedPath;
+                 this.noteInfoMap.set(file.path, info);
+                 this.saveData().catch(e => console.error("[Util] Error saving NoteInfoMap after guessing source:", e));
+             }
+            return file;
+        }
+
+        // console.warn(`[Util] Source note file not found for derived path: ${derivedPath} (tried path: ${potentialPath})`);
+		return null;
 	}
 
+    /** All Source notes in the vault, or in a folder and its subfolders */
+    getSourceNotes(folder?: TFolder): TFile[] {
+        const prefix = folder && !folder.isRoot() ? `${folder.path}/` : '';
+        return this.app.vault.getMarkdownFiles().filter(f => f.path.startsWith(prefix) && this.isSourceNote(f.path));
+    }
 
-	// --- Leaf Management Helpers (Adapted from main.ts その1) ---
+    /** Source note of any Cornell note: the file itself if it is a Source, otherwise the Source of a Cue/Summary note */
+    resolveSourceFile(file: TFile): TFile | null {
+        return this.isSourceNote(file.path) ? file : this.getSourceNoteFileFromDerived(file.path);
+    }
 
-    /** Find an existing, attached Markdown leaf containing the target file */
-    private findExistingLeafForFile(file: TFile): WorkspaceLeaf | null {
-        let foundLeaf: WorkspaceLeaf | null = null;
-        this.app.workspace.iterateAllLeaves((leaf) => {
-            if (foundLeaf) return; // Stop searching once found
-            if (leaf.view instanceof MarkdownView && leaf.view.file?.path === file.path && leaf.parent) {
-                foundLeaf = leaf;
+    /** Get the Source TFile that holds the cues shown at a path: the note itself in single-file mode, otherwise its Source */
+    getSourceNoteFileForCue = (cuePath: string): TFile | null => {
+        const file = this.app.vault.getAbstractFileByPath(normalizePath(cuePath));
+        if (file instanceof TFile && this.isSourceNote(file.path) && this.getStorageMode(file) === 'single-file') {
+            return file;
+        }
+        return this.getSourceNoteFileFromDerived(cuePath);
+    }
+
+    /** Ensure a folder exists, creating it if necessary */
+    async ensureFolderExists(folderPath: string): Promise<void> {
+        const normalizedPath = normalizePath(folderPath);
+        if (!normalizedPath || normalizedPath === '/') return; // No need to create root
+        try {
+            const folder = this.app.vault.getAbstractFileByPath(normalizedPath);
+            if (!folder) {
+                console.log(`[Util] Creating folder: ${normalizedPath}`);
+                await this.app.vault.createFolder(normalizedPath);
+            } else if (!(folder instanceof TFolder)) {
+                throw new Error(`Path exists but is not a folder: ${normalizedPath}`);
+            }
+        } catch (e: any) {
+            // Ignore "Folder already exists" errors, rethrow others
+            if (!(e?.message?.includes('already exists'))) {
+                console.error(`[Util] Error ensuring folder exists '${normalizedPath}':`, e);
+                throw e;
+            }
+        }
+    }
+
+	/** Escape regex special characters */
+	escapeRegex = (s: string): string => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+    /** Open a file in a specific leaf */
+    private async openFileInLeaf(leaf: WorkspaceLeaf, file: TFile, active: boolean): Promise<void> {
+        await leaf.openFile(file, { active });
+        // console.log(`[Util] Opened ${file.path} in leaf ${leaf.id}, active: ${active}`);
+    }
+
+
+    // --- Single-file Mode Helpers ---
+
+    /** Storage mode of a Source note: the `cornell-storage` frontmatter value if set, otherwise the default from settings */
+    getStorageMode(sourceFile: TFile): CornellStorageMode {
+        const value = this.app.metadataCache.getFileCache(sourceFile)?.frontmatter?.[INTERNAL_SETTINGS.storageModeFrontmatterKey];
+        if (value === 'single-file' || value === 'separate') return value;
+        return this.settings.storageMode;
+    }
+
+    /** Find an open editor showing the file, so writes can keep the cursor and undo history */
+    private findEditorForFile(file: TFile): Editor | null {
+        let editor: Editor | null = null;
+        this.app.workspace.iterateAllLeaves(leaf => {
+            if (!editor && leaf.view instanceof MarkdownView && leaf.view.file?.path === file.path && leaf.view.getMode() === 'source') {
+                editor = leaf.view.editor;
             }
         });
-        return foundLeaf;
+        return editor;
     }
 
-	/**
-	 * Detaches leaves that are currently tracked but not needed for the target layout.
-	 */
-	private async cleanupUnneededLeaves(neededPositions: LeafPosition[]): Promise<void> {
-		console.log("Cornell Plugin: Cleaning up unneeded leaves...");
-		const cleanupTasks: Promise<void>[] = [];
-		const currentLeaves = { ...this.activeCornellLeaves }; // Operate on a copy
+    /** Write new content, replacing only the changed middle part when the file is open in an editor. Journaled if `operation` is given (not written for a dry run). */
+    private async writeNoteContent(file: TFile, newContent: string, operation: SyncOperation | null = null): Promise<boolean> {
+        const editor = this.findEditorForFile(file);
+        const currentContent = editor ? editor.getValue() : await this.app.vault.read(file);
+        if (currentContent === newContent) return false;
+        if (operation?.dryRun) return true;
+        if (!editor) {
+            await this.app.vault.modify(file, newContent);
+        } else {
+            this.replaceEditorContent(editor, newContent);
+        }
+        if (operation) this.recordSyncWrite(operation, file.path, currentContent, newContent);
+        return true;
+    }
+
+    /** Replace editor content by changing only the range between the common prefix and suffix */
+    private replaceEditorContent(editor: Editor, newContent: string): void {
+        const currentContent = editor.getValue();
+        let prefix = 0;
+        const maxPrefix = Math.min(currentContent.length, newContent.length);
+        while (prefix < maxPrefix && currentContent[prefix] === newContent[prefix]) prefix++;
+        let suffix = 0;
+        while (suffix < maxPrefix - prefix && currentContent[currentContent.length - 1 - suffix] === newContent[newContent.length - 1 - suffix]) suffix++;
+        if (prefix === currentContent.length && prefix === newContent.length) return;
+        editor.replaceRange(
+            newContent.slice(prefix, newContent.length - suffix),
+            editor.offsetToPos(prefix),
+            editor.offsetToPos(currentContent.length - suffix)
+        );
+    }
+
+    /** Add any missing `## CUE` / `## MAIN` / `## SUMMARY` headings to a single-file Cornell note */
+    async ensureCornellSections(file: TFile): Promise<void> {
+        const editor = this.findEditorForFile(file);
+        const content = editor ? editor.getValue() : await this.app.vault.read(file);
+        if (await this.writeNoteContent(file, ensureCornellSectionsInContent(content))) {
+            console.log(`[Single-file] Added Cornell section headings to ${file.path}`);
+        }
+    }
+
+    /** S->C for single-file notes: collect every definition into the `## CUE` section. Returns true if the note changed. */
+    async syncSingleFileCueSection(file: TFile, operation: SyncOperation | null = null): Promise<boolean> {
+        const editor = this.findEditorForFile(file);
+        const content = editor ? editor.getValue() : await this.app.vault.read(file);
+        const withSections = ensureCornellSectionsInContent(content);
+        const updated = await this.writeNoteContent(file, buildSingleFileCueContent(withSections), operation);
+        if (updated) console.log(`[Single-file] CUE section of ${file.path} updated.`);
+        return updated;
+    }
+
+    // --- File Creation Helpers (for Arrange Command, etc.) ---
+
+    /** Ensure Cue note exists, create with basic content if not */
+    async ensureCueNoteExists(cuePath: string, sourceFile: TFile): Promise<TFile | null> {
+        try {
+            let abstractFile = this.app.vault.getAbstractFileByPath(cuePath);
+            if (abstractFile instanceof TFile) return abstractFile;
+            if (abstractFile) throw new Error(`Path exists but is not a file: ${cuePath}`);
+
+            console.log(`[Util] Cue note does not exist, creating: ${cuePath}`);
+            const parentFolder = cuePath.substring(0, cuePath.lastIndexOf('/')) || '/';
+            await this.ensureFolderExists(parentFolder);
+
+            // Initial content: Link to source + placeholder for sync
+            const initialContent = this.generateCueContent(null, sourceFile, new Map()); // Generate with empty footnotes
+
+            abstractFile = await this.app.vault.create(cuePath, initialContent);
+            if (!(abstractFile instanceof TFile)) throw new Error(`Failed to create cue note file: ${cuePath}`);
+
+            // Update NoteInfoMap immediately
+            const info = this.getOrCreateNoteInfo(sourceFile);
+            info.cuePath = abstractFile.path;
+            info.baseDefinitions = null; // A new Cue note shares no history with the Source
+            this.noteInfoMap.set(sourceFile.path, info);
+            await this.saveData(); // Save map after creation
+
+            return abstractFile;
+        } catch (e) {
+            console.error(`[Util] Error ensuring Cue note exists at '${cuePath}':`, e);
+            new Notice(`Error creating Cue note at ${cuePath}. See console.`);
+            return null;
+        }
+    }
+
+	/** Ensure Summary note exists, create with basic content if not */
+	async ensureSummaryNoteExists(summaryPath: string, sourceFile: TFile, cueFile: TFile): Promise<TFile | null> {
+        try {
+            let abstractFile = this.app.vault.getAbstractFileByPath(summaryPath);
+            if (abstractFile instanceof TFile) return abstractFile;
+            if (abstractFile) throw new Error(`Path exists but is not a file: ${summaryPath}`);
+
+            console.log(`[Util] Summary note does not exist, creating: ${summaryPath}`);
+            const parentFolder = summaryPath.substring(0, summaryPath.lastIndexOf('/')) || '/';
+            await this.ensureFolderExists(parentFolder);
+
+            const sourceLink = this.settings.linkToSourceText.replace('{{sourceNote}}', sourceFile.basename);
+            const cueLink = this.settings.linkToCueText.replace('{{cueNote}}', cueFile.basename);
+            const initialContent = `${sourceLink}\n${cueLink}\n\n## SUMMARY\n\n`; // Use correct section header
+
+            abstractFile = await this.app.vault.create(summaryPath, initialContent);
+            if (!(abstractFile instanceof TFile)) throw new Error(`Failed to create summary note file: ${summaryPath}`);
+
+            // Update NoteInfoMap immediately
+            const info = this.getOrCreateNoteInfo(sourceFile);
+            info.summaryPath = abstractFile.path;
+            this.noteInfoMap.set(sourceFile.path, info);
+            await this.saveData();
+
+            return abstractFile;
+        } catch (e) {
+            console.error(`[Util] Error ensuring Summary note exists at '${summaryPath}':`, e);
+             new Notice(`Error creating Summary note at ${summaryPath}. See console.`);
+            return null;
+        }
+    }
+
+    // --- Rename / Delete Helpers ---
+
+    /** Move and rename a Source's derived notes to match its new path and rewrite the template links in them */
+    private async moveDerivedNotesWithSource(sourceFile: TFile, oldSourcePath: string, info: CornellNoteInfo): Promise<void> {
+        const oldSourceBasename = this.getBasenameFromPath(oldSourcePath);
+        const oldCueBasename = info.cuePath ? this.getBasenameFromPath(info.cuePath) : null;
+
+        this.noteInfoMap.delete(oldSourcePath);
+        info.sourcePath = sourceFile.path;
+        this.noteInfoMap.set(sourceFile.path, info);
+
+        info.cuePath = await this.moveDerivedNote(info.cuePath, this.getCueNotePath(sourceFile));
+        info.summaryPath = await this.moveDerivedNote(info.summaryPath, this.getSummaryNotePath(sourceFile));
+        this.noteInfoMap.set(sourceFile.path, info);
+        await this.saveData();
+
+        // Rewrite the header links generated from the link templates
+        const sourceLinkReplacement: [string, string] = [
+            this.settings.linkToSourceText.replace('{{sourceNote}}', oldSourceBasename),
+            this.settings.linkToSourceText.replace('{{sourceNote}}', sourceFile.basename)
+        ];
+        if (info.cuePath) {
+            await this.replaceTextInNote(info.cuePath, [sourceLinkReplacement]);
+        }
+        if (info.summaryPath) {
+            const replacements = [sourceLinkReplacement];
+            if (oldCueBasename && info.cuePath) {
+                replacements.push([
+                    this.settings.linkToCueText.replace('{{cueNote}}', oldCueBasename),
+                    this.settings.linkToCueText.replace('{{cueNote}}', this.getBasenameFromPath(info.cuePath))
+                ]);
+            }
+            await this.replaceTextInNote(info.summaryPath, replacements);
+        }
+    }
+
+    /**
+     * Move a derived note to its expected path. Returns the path the note ends up at,
+     * or null if it no longer exists (e.g. it was already moved along with a folder).
+     */
+    private async moveDerivedNote(currentPath: string | null, expectedPath: string): Promise<string | null> {
+        const file = currentPath ? this.app.vault.getAbstractFileByPath(currentPath) : null;
+        if (!(file instanceof TFile)) {
+            const movedFile = this.app.vault.getAbstractFileByPath(expectedPath);
+            return movedFile instanceof TFile ? movedFile.path : null;
+        }
+        if (file.path === expectedPath) return file.path;
+        if (this.app.vault.getAbstractFileByPath(expectedPath)) {
+            console.warn(`[Rename] Cannot move ${file.path}: ${expectedPath} already exists.`);
+            new Notice(`Could not move ${file.basename}: ${expectedPath} already exists.`);
+            return file.path;
+        }
+        await this.ensureFolderExists(expectedPath.substring(0, expectedPath.lastIndexOf('/')) || '/');
+        console.log(`[Rename] Moving derived note ${file.path} -> ${expectedPath}`);
+        await this.app.fileManager.renameFile(file, expectedPath);
+        return expectedPath;
+    }
+
+    /** Replace literal text occurrences in a note, writing only if something changed */
+    private async replaceTextInNote(path: string, replacements: [string, string][]): Promise<void> {
+        const file = this.app.vault.getAbstractFileByPath(path);
+        if (!(file instanceof TFile)) return;
+        const content = await this.app.vault.read(file);
+        let newContent = content;
+        for (const [from, to] of replacements) {
+            if (from !== to) newContent = newContent.split(from).join(to);
+        }
+        if (newContent !== content) {
+            await this.app.vault.modify(file, newContent);
+        }
+    }
+
+    /** Asks once what to do with the Cornell notes of every Source deleted in the same turn */
+    private askAboutDeletedSources = async (): Promise<void> => {
+        const pending = this.pendingSourceDeletes;
+        this.pendingSourceDeletes = [];
+        try {
+            // Cornell notes deleted together with their Source (e.g. in the same folder) need no decision
+            const deletions = pending
+                .map(({ sourceName, files }) => ({ sourceName, files: files.filter(f => this.app.vault.getAbstractFileByPath(f.path) instanceof TFile) }))
+                .filter(deletion => deletion.files.length > 0);
+            if (deletions.length === 0) return;
+            const action = await new DerivedNotesDeleteModal(this.app, deletions).openAndWait();
+            await this.applyDerivedNotesDeleteAction(deletions.reduce<TFile[]>((files, deletion) => files.concat(deletion.files), []), action);
+        } catch (error) {
+            console.error('[Delete] Error handling deleted Source notes:', error);
+            new Notice('Error cleaning up Cornell notes of deleted Source notes. See console.');
+        }
+    };
+
+    /** Delete, archive or keep the Cue/Summary notes of a deleted Source */
+    private async applyDerivedNotesDeleteAction(files: TFile[], action: DerivedNotesDeleteAction): Promise<void> {
+        if (action === 'keep') return;
+        for (const file of files) {
+            // The notes may already be gone, e.g. when a whole folder was deleted
+            if (!(this.app.vault.getAbstractFileByPath(file.path) instanceof TFile)) continue;
+            if (action === 'delete') {
+                await this.app.fileManager.trashFile(file);
+            } else {
+                const archiveFolder = normalizePath(this.settings.archiveFolder || DEFAULT_SETTINGS.archiveFolder);
+                await this.ensureFolderExists(archiveFolder);
+                let targetPath = normalizePath(`${archiveFolder}/${file.name}`);
+                if (this.app.vault.getAbstractFileByPath(targetPath)) {
+                    targetPath = normalizePath(`${archiveFolder}/${file.basename} ${Date.now()}.${file.extension}`);
+                }
+                await this.app.fileManager.renameFile(file, targetPath);
+            }
+        }
+        new Notice(`${action === 'delete' ? 'Deleted' : 'Archived'} ${files.map(f => f.basename).join(', ')}.`);
+    }
+
+    /** File name without folder and extension */
+    private getBasenameFromPath(path: string): string {
+        const filename = path.split('/').pop() ?? path;
+        return filename.replace(/\.md$/, '');
+    }
+
+    // --- Note Location Migration ---
+
+    /**
+     * Move every recorded Cue/Summary note to the location given by the current path templates.
+     * @param previousTemplates Templates in use before a settings change; notes matching them are picked up even if not recorded yet.
+     */
+    async migrateDerivedNoteLocations(previousTemplates?: { cue: string, summary: string }): Promise<void> {
+        if (previousTemplates) {
+            // Record notes that only the previous templates can find
+            for (const file of this.app.vault.getMarkdownFiles()) {
+                for (const kind of ['cue', 'summary'] as const) {
+                    const match = this.matchPathTemplate(kind === 'cue' ? previousTemplates.cue : previousTemplates.summary, file.path);
+                    if (!match?.basename) continue;
+                    const sourcePath = normalizePath(match.folder ? `${match.folder}/${match.basename}.md` : `${match.basename}.md`);
+                    const sourceFile = this.app.vault.getAbstractFileByPath(sourcePath);
+                    if (!(sourceFile instanceof TFile)) continue;
+                    const info = this.getOrCreateNoteInfo(sourceFile);
+                    if (kind === 'cue' && !info.cuePath) info.cuePath = file.path;
+                    if (kind === 'summary' && !info.summaryPath) info.summaryPath = file.path;
+                }
+            }
+        }
+
+        let moved = 0, failed = 0;
+        for (const info of Array.from(this.noteInfoMap.values())) {
+            const sourceFile = this.app.vault.getAbstractFileByPath(info.sourcePath);
+            if (!(sourceFile instanceof TFile)) continue;
+            for (const kind of ['cue', 'summary'] as const) {
+                const currentPath = kind === 'cue' ? info.cuePath : info.summaryPath;
+                const expectedPath = kind === 'cue' ? this.getCueNotePath(sourceFile) : this.getSummaryNotePath(sourceFile);
+                if (!currentPath || currentPath === expectedPath) continue;
+                try {
+                    const newPath = await this.moveDerivedNote(currentPath, expectedPath);
+                    if (kind === 'cue') info.cuePath = newPath; else info.summaryPath = newPath;
+                    if (newPath === expectedPath) moved++; else failed++;
+                } catch (e) {
+                    failed++;
+                    console.error(`[Migrate] Error moving ${currentPath} -> ${expectedPath}:`, e);
+                }
+            }
+        }
+        await this.saveData();
+        await this.initializeOrUpdateNoteInfoMap(); // Drop entries for notes that are no longer Source notes
+        new Notice(`Moved ${moved} Cue/Summary note(s) to the configured location.${failed > 0 ? ` ${failed} could not be moved (see console).` : ''}`);
+    }
+
+    /** Apply new path templates and move existing Cue/Summary notes to match */
+    async applyNotePathTemplates(cueTemplate: string, summaryTemplate: string): Promise<boolean> {
+        const error = validatePathTemplates(cueTemplate, summaryTemplate);
+        if (error) {
+            new Notice(error);
+            return false;
+        }
+        const previousTemplates = { cue: this.settings.cueNotePathTemplate, summary: this.settings.summaryNotePathTemplate };
+        this.settings.cueNotePathTemplate = normalizePathTemplate(cueTemplate);
+        this.settings.summaryNotePathTemplate = normalizePathTemplate(summaryTemplate);
+        await this.saveSettings();
+        await this.migrateDerivedNoteLocations(previousTemplates);
+        return true;
+    }
+
+    // --- Arrange View Command Logic (From main.ts その2, adapted for Cornell layout) ---
+    /** Arrange Source, Cue, and Summary notes in the Cornell layout */
+    async arrangeCornellNotesView(sourceFile: TFile, sourceLeaf: WorkspaceLeaf): Promise<void> {
+        try {
+            console.log(`[Arrange] Starting arrange command for ${sourceFile.path}`);
+            // Use 'show-all' mode to arrange all three panes
+            await this.activateMode('show-all', sourceFile);
+            console.log(`[Arrange] Finished arranging view for ${sourceFile.basename} (using Show All mode).`);
+            new Notice(`Arranged view for ${sourceFile.basename} (Cue + Source + Summary). Use Alt+1/2/3 to switch modes.`);
 
-		(Object.keys(currentLeaves) as LeafPosition[]).forEach(pos => {
-			const leaf = currentLeaves[pos];
-			// If a leaf exists for this position but is NOT needed in the new layout
-			if (leaf && !neededPositions.includes(pos)) {
-				console.log(`Cornell Plugin: Detaching unneeded leaf at position ${pos} (${leaf.view instanceof MarkdownView ? leaf.view.file?.basename : 'N/A'}).`);
-				cleanupTasks.push((async () => {
-					try {
-						// Double-check if the leaf still exists in the workspace
-                        let exists = false;
-                        this.app.workspace.iterateAllLeaves(l => { if (l === leaf) exists = true; });
+        } catch (e) {
+            console.error(`[Arrange] Error arranging Cornell notes view for ${sourceFile.basename}:`, e);
+            new Notice(`Error arranging view for ${sourceFile.basename}. See console.`);
+        }
+    }
 
-						if (exists && leaf.parent) {
-							// Remove Cornell CSS classes before detaching
-							leaf.view?.containerEl?.classList.remove(CORNELL_PANE_CLASS, CORNELL_LEFT_PANE_CLASS, CORNELL_CENTER_PANE_CLASS, CORNELL_RIGHT_PANE_CLASS);
-                            // Reset flex style
-                            if (leaf.view?.containerEl) leaf.view.containerEl.style.flex = '';
-							leaf.detach(); // Detach the leaf
-						}
-					} catch (error) {
-						console.error(`Error detaching leaf for position ${pos}:`, error);
-					} finally {
-                        // Always clear the reference in the main tracking object
-                        if (this.activeCornellLeaves[pos] === leaf) {
-						    this.activeCornellLeaves[pos] = null;
-                        }
-                    }
-				})());
-			}
-		});
+    // --- Navigation & Highlighting (From main.ts その2, adapted) ---
 
-		try {
-			await Promise.all(cleanupTasks);
-			console.log("Cornell Plugin: Unneeded leaf cleanup completed.");
-		} catch (error) {
-			console.error("Error waiting for unneeded leaf cleanup:", error);
-		}
-	}
+	/** Navigate from Cue button/def to first reference in Source */
+	async navigateToSourceReference(ref: string, cuePath: string): Promise<void> {
+        console.log(`[Navigate] Request to navigate to ref [^${ref}] from ${cuePath}`);
+        const sourceFile = this.getSourceNoteFileForCue(cuePath);
+        if (!sourceFile) {
+            new Notice(`Source note not found for "${cuePath}". Cannot navigate.`);
+            throw new Error(`Source note not found for cue: ${cuePath}`);
+        }
 
-	/**
-	 * Clears all tracked Cornell state and optionally detaches all tracked leaves.
-     * @param forceDetachAll If true (e.g., on unload), detach leaves. If false (e.g., on error), just remove styles/tracking.
-	 */
-	private async clearCornellState(forceDetachAll: boolean = true): Promise<void> {
-		console.log(`Cornell Plugin: Clearing Cornell state (Force detach all: ${forceDetachAll})`);
-		// Get a list of unique leaves currently tracked
-		const leavesToCleanup = [
-			this.activeCornellLeaves.left,
-			this.activeCornellLeaves.center,
-			this.activeCornellLeaves.right
-		].filter((leaf): leaf is WorkspaceLeaf => leaf !== null);
+        // Find or open the Source note's leaf (prefer existing Cornell center pane)
+        const centerLeaf = this.sessions.get(sourceFile.path)?.leaves.center;
+        let sourceLeaf = (centerLeaf?.view instanceof MarkdownView && centerLeaf.view.file === sourceFile) ? centerLeaf : this.findExistingLeafForFile(sourceFile);
 
-		const uniqueLeaves = [...new Set(leavesToCleanup)];
+        if (!sourceLeaf || !sourceLeaf.parent) {
+            new Notice(`Source note "${sourceFile.basename}" is not open. Opening...`);
+            try {
+                // Get a leaf, prefer reusing empty ones
+                sourceLeaf = this.app.workspace.getLeaf(false) ?? this.app.workspace.getLeaf(true);
+                if (!sourceLeaf) throw new Error("Could not get a leaf to open the source note.");
+                await this.openFileInLeaf(sourceLeaf, sourceFile, true); // Open and activate
+                this.app.workspace.setActiveLeaf(sourceLeaf, {focus: true});
+                await sleep(INTERNAL_SETTINGS.uiUpdateDelay * 2); // Wait longer for opening
+                if (!(sourceLeaf?.view instanceof MarkdownView)) throw new Error("Opened file is not a Markdown view.");
+                console.log(`[Navigate] Opened Source note ${sourceFile.path} in new leaf.`);
+            } catch (e) {
+                console.error(`[Navigate] Error auto-opening source note ${sourceFile.path}:`, e);
+                new Notice(`Failed to open source note "${sourceFile.basename}".`);
+                throw e;
+            }
+        } else {
+            // If leaf exists but isn't active, activate it
+            if (this.app.workspace.activeLeaf !== sourceLeaf) {
+                 console.log(`[Navigate] Activating existing leaf for Source note ${sourceFile.path}`);
+                this.app.workspace.setActiveLeaf(sourceLeaf, { focus: true });
+                await sleep(INTERNAL_SETTINGS.uiUpdateDelay / 2);
+            }
+        }
 
-		const cleanupPromises = uniqueLeaves.map(async (leaf) => {
-			try {
-				// Check if the leaf still exists in the workspace
-                let exists = false;
-                this.app.workspace.iterateAllLeaves(l => { if (l === leaf) exists = true; });
+        // Ensure we have a valid view and editor
+        if (!sourceLeaf || !(sourceLeaf.view instanceof MarkdownView)) {
+            new Notice(`Cannot access source view for "${sourceFile.basename}".`);
+            throw new Error("Source view not accessible after opening/finding leaf.");
+        }
+        const sourceView = sourceLeaf.view;
+        // Ensure source mode for reliable searching/scrolling (can switch back after?)
+        // const originalMode = sourceView.getMode();
+        // await this.setMarkdownViewMode(sourceView, 'source');
 
-                if (exists && leaf.parent) {
-                    // Remove styles regardless
-                    leaf.view?.containerEl?.classList.remove(CORNELL_PANE_CLASS, CORNELL_LEFT_PANE_CLASS, CORNELL_CENTER_PANE_CLASS, CORNELL_RIGHT_PANE_CLASS);
-                    if (leaf.view?.containerEl) leaf.view.containerEl.style.flex = ''; // Reset flex
+        const sourceEditor = sourceView.editor;
+        if (!sourceEditor) {
+             new Notice(`Cannot access source editor for "${sourceFile.basename}".`);
+             throw new Error("Source editor not available.");
+        }
+        const sourceContent = sourceEditor.getValue();
+        const match = this.parseSourceContent(sourceContent).references.find(r => r.ref === ref);
 
-                    if (forceDetachAll) {
-                        console.log(`Cornell Plugin: Detaching leaf (${leaf.view instanceof MarkdownView ? leaf.view.file?.basename : 'N/A'}) in full clear.`);
-                        leaf.detach();
-                    }
+        if (match) {
+            const startPos = sourceEditor.offsetToPos(match.start);
+            const endPos = sourceEditor.offsetToPos(match.end);
+             console.log(`[Navigate] Found ref [^${ref}] at line ${startPos.line + 1}, char ${startPos.ch}`);
+            // Scroll and highlight
+            sourceEditor.scrollIntoView({ from: startPos, to: endPos }, true);
+            this.clearActiveHighlight(); // Clear previous highlight timer
+            sourceEditor.setSelection(startPos, endPos); // Select to highlight
+            // Set timer to remove selection highlight
+            this.activeHighlightTimeout = setTimeout(() => {
+                const currentSelection = sourceEditor.listSelections()[0];
+                // Only clear selection if it's still the one we set
+                if (currentSelection && this.app.workspace.activeEditor?.editor === sourceEditor &&
+                    this.arePositionsEqual(currentSelection.anchor, startPos) &&
+                    this.arePositionsEqual(currentSelection.head, endPos)) {
+                    sourceEditor.setCursor(startPos); // Move cursor to start of ref
                 }
-			} catch (error) {
-				console.error(`Error during full leaf cleanup for leaf (${leaf.view instanceof MarkdownView ? leaf.view.file?.basename : 'N/A'}):`, error);
-			}
-		});
+                this.activeHighlightTimeout = null;
+            }, INTERNAL_SETTINGS.highlightDuration);
+        } else {
+             console.log(`[Navigate] Ref [^${ref}] not found in ${sourceFile.path}.`);
+            new Notice(`Reference [^${ref}] not found in "${sourceFile.basename}".`);
+            // Scroll to top as fallback
+            sourceEditor.setCursor({line: 0, ch: 0});
+            sourceEditor.scrollTo(0, 0);
+        }
+        // Focus the editor
+        sourceEditor.focus();
+        // await this.setMarkdownViewMode(sourceView, originalMode); // Restore original mode? (might cause flicker)
+    }
 
-		try {
-			await Promise.all(cleanupPromises);
-			console.log("Cornell Plugin: Full leaf cleanup tasks completed.");
-		} catch (error) {
-			console.error("Error waiting for full leaf cleanup:", error);
-		}
+    /** Highlight first reference in Source without stealing focus */
+    async highlightFirstSourceReference(ref: string, cuePath: string): Promise<void> {
+        console.log(`[Highlight] Request to highlight ref [^${ref}] from ${cuePath}`);
+        const sourceFile = this.getSourceNoteFileForCue(cuePath);
+        if (!sourceFile) {
+            new Notice(`Source note not found for "${cuePath}". Cannot highlight.`);
+            throw new Error(`Source note not found for cue: ${cuePath}`);
+        }
 
-		// Reset tracked state AFTER cleanup attempts
-		this.activeCornellLeaves = { left: null, center: null, right: null };
-		this.activeSourceFileForCornell = null;
-        // Optionally clear last state setting if fully resetting
-        if (forceDetachAll) {
-            this.settings.lastMode = null;
-            this.settings.lastFile = null;
-            // No need to save here, typically called during unload or error recovery where state shouldn't persist
-        }
-		console.log("Cornell Plugin: Cornell state cleared.");
-	}
+        // Find Source leaf (prefer existing Cornell center pane)
+        const centerLeaf = this.sessions.get(sourceFile.path)?.leaves.center;
+        let sourceLeaf = (centerLeaf?.view instanceof MarkdownView && centerLeaf.view.file === sourceFile) ? centerLeaf : this.findExistingLeafForFile(sourceFile);
 
+        if (!sourceLeaf || !sourceLeaf.parent) {
+            // If not open, open it in the background without activating
+            new Notice(`Source note "${sourceFile.basename}" is not open. Opening in background...`);
+            try {
+                sourceLeaf = this.app.workspace.getLeaf('tab'); // New tab leaf
+                await this.openFileInLeaf(sourceLeaf, sourceFile, false); // Open without activating
+                await sleep(INTERNAL_SETTINGS.uiUpdateDelay);
+                if (!(sourceLeaf?.view instanceof MarkdownView)) throw new Error("Opened file is not a Markdown view.");
+                 console.log(`[Highlight] Opened Source note ${sourceFile.path} in background leaf.`);
+            } catch (e) {
+                console.error(`[Highlight] Error opening source note ${sourceFile.path} in background:`, e);
+                new Notice(`Failed to open source note "${sourceFile.basename}" for highlighting.`);
+                throw e;
+            }
+        } else {
+             // console.log(`[Highlight] Found existing leaf for Source note ${sourceFile.path}`);
+        }
 
-	// Set MarkdownView mode reliably (From main.ts その1, adapted)
-	async setMarkdownViewMode(view: MarkdownView, mode: 'source' | 'preview'): Promise<void> {
-        // Check if trying to switch Cue pane to source while enforcement is on
-        if (this.settings.enforceCuePreview && view === this.activeCornellLeaves?.left?.view && mode === 'source') {
-             console.log(`Cornell Plugin: Blocked attempt to switch Cue pane to source mode while enforcing preview.`);
-             // new Notice("Cue pane is locked to Preview mode.");
-             return; // Prevent switch
+        if (!sourceLeaf || !(sourceLeaf.view instanceof MarkdownView)) {
+            new Notice(`Cannot access source view for "${sourceFile.basename}".`);
+            throw new Error("Source view not accessible.");
+        }
+        const sourceView = sourceLeaf.view;
+        // const originalMode = sourceView.getMode();
+        // await this.setMarkdownViewMode(sourceView, 'source'); // Ensure source mode
+        const sourceEditor = sourceView.editor;
+        if (!sourceEditor) {
+            // await this.setMarkdownViewMode(sourceView, originalMode);
+            throw new Error("Source editor not available.");
         }
-		try {
-			const prevState = view.getState();
-			if (prevState.mode !== mode) {
-				console.log(`Cornell Plugin: Setting mode to ${mode} for view: ${view.file?.path}`);
-				const nextState: ViewState = {
-					type: prevState.type as string,
-					state: { ...(prevState.state || {}), mode: mode } // Correctly merge state
-				};
-                // Check if view is still valid before setting state
-                if (!view.leaf || !view.leaf.parent) {
-                    console.warn(`Cornell Plugin: View for ${view.file?.path} is detached. Cannot set mode.`);
-                    return;
-                }
-				await view.setState(nextState, { history: false });
-				await sleep(50); // Allow mode change to render
-			}
-		} catch (error) {
-			console.error(`Failed to set mode to ${mode} for view ${view.file?.path}:`, error);
-            // Don't rethrow, just log the error
-		}
-	}
 
+        const sourceContent = sourceEditor.getValue();
+        const match = this.parseSourceContent(sourceContent).references.find(r => r.ref === ref);
 
-	// --- Cue Generation Logic (Combined - writes to Cue Note) ---
-	async generateCue(editor: Editor, view: MarkdownView) { // view is the SOURCE view
-		const sourceFile = view.file;
-        if (!sourceFile || !this.isSourceNote(sourceFile.path)) {
-            new Notice("Cue generation must be run from the Source note.");
-            return;
+        if (match) {
+            const startPos = sourceEditor.offsetToPos(match.start);
+            const endPos = sourceEditor.offsetToPos(match.end);
+             console.log(`[Highlight] Found ref [^${ref}] at line ${startPos.line + 1}, char ${startPos.ch}`);
+            // Scroll into view, but don't focus the leaf/editor
+            sourceEditor.scrollIntoView({ from: startPos, to: endPos }, true);
+            this.clearActiveHighlight();
+            sourceEditor.setSelection(startPos, endPos); // Highlight by selecting
+            this.activeHighlightTimeout = setTimeout(() => {
+                const currentSelection = sourceEditor.listSelections()[0];
+                // Clear selection only if it's still the one we set
+                if (currentSelection && // No need to check activeEditor here
+                    this.arePositionsEqual(currentSelection.anchor, startPos) &&
+                    this.arePositionsEqual(currentSelection.head, endPos)) {
+                    // Try to restore cursor to where it was before highlighting? Complex.
+                    // Just collapse the selection for now.
+                     sourceEditor.setCursor(startPos);
+                }
+                this.activeHighlightTimeout = null;
+            }, INTERNAL_SETTINGS.highlightDuration);
+        } else {
+             console.log(`[Highlight] Ref [^${ref}] not found in ${sourceFile.path}.`);
+            new Notice(`Reference [^${ref}] not found in "${sourceFile.basename}".`);
         }
+        // await this.setMarkdownViewMode(sourceView, originalMode); // Restore mode
+    }
 
-		const selections = editor.listSelections();
-		if (selections.length === 0 || (selections[0].anchor.line === selections[0].head.line && selections[0].anchor.ch === selections[0].head.ch)) {
-			new Notice("Please select text in the Source note to create a Cue.");
-			return;
-		}
-		const primarySelection = selections[0];
-		const selectedText = editor.getRange(primarySelection.anchor, primarySelection.head);
+    /** Clear active highlight timer */
+    private clearActiveHighlight() {
+        if (this.activeHighlightTimeout) {
+            clearTimeout(this.activeHighlightTimeout);
+            this.activeHighlightTimeout = null;
+        }
+    }
 
-		if (!selectedText || selectedText.trim().length === 0) {
-			new Notice("Selected text is empty. Please select text to create a Cue.");
-			return;
-		}
+    /** Compare EditorPosition objects */
+    private arePositionsEqual(p1: EditorPosition, p2: EditorPosition): boolean {
+        return p1.line === p2.line && p1.ch === p2.ch;
+    }
 
-        // Get the corresponding Cue file
-        const cuePath = this.getCueNotePath(sourceFile);
-        let cueFile : TFile | null = null;
-        const cueFileAbstract = this.app.vault.getAbstractFileByPath(cuePath);
 
+    // --- Batch Processing (From main.ts その2) ---
 
-        // Ensure Cue note exists, create if necessary
-        if (cueFileAbstract instanceof TFile) {
-             cueFile = cueFileAbstract;
-        } else {
-            new Notice(`Cue note not found at ${cuePath}. Attempting to create...`);
-            cueFile = await this.ensureCueNoteExists(cuePath, sourceFile);
-            if (!cueFile) {
-                new Notice(`Failed to create Cue note at ${cuePath}. Cannot generate Cue.`);
-                return;
-            }
-            new Notice(`Created Cue note: ${cueFile.basename}`);
-        }
+    /** Sync S->C for all Source notes */
+    async processAllNotesSourceToCue(): Promise<void> {
+        await this.runBatchSync({ direction: 'S->C', folder: '', tag: '', modifiedSince: null, dryRun: false });
+    }
 
-		try {
-            // 1. Determine the next footnote index/reference based on the CUE note content
-			let cueContent = await this.app.vault.read(cueFile);
-            const existingCueDefs = this.parseFootnotesSimple(cueContent); // Get existing definitions from Cue note
-			const prefix = this.settings.cuePrefix.trim();
-			let lastIndex = 0;
-
-            existingCueDefs.forEach((_def, key) => {
-                let num = NaN;
-				if (prefix && key.startsWith(prefix)) {
-					const numStr = key.substring(prefix.length);
-					if (/^\d+$/.test(numStr)) num = parseInt(numStr, 10);
-				} else if (!prefix && /^\d+$/.test(key)) {
-					num = parseInt(key, 10);
-				}
-                if (!isNaN(num) && num > lastIndex) lastIndex = num;
-            });
+    /** Whether a Source note lies in the folder and carries the tag of a batch scope (nested tags count) */
+    private isInBatchScope(sourceFile: TFile, options: BatchSyncOptions): boolean {
+        const folder = normalizePath(options.folder.trim() || '/');
+        if (folder !== '/' && !sourceFile.path.startsWith(`${folder}/`)) return false;
+        const tag = options.tag.trim().replace(/^#?/, '#').toLowerCase();
+        if (tag === '#') return true;
+        const cache = this.app.metadataCache.getFileCache(sourceFile);
+        const tags = (cache ? getAllTags(cache) : null) ?? [];
+        return tags.some(t => t.toLowerCase() === tag || t.toLowerCase().startsWith(`${tag}/`));
+    }
 
-			const nextIndex = lastIndex + 1;
-			const footnoteRef = prefix ? `[^${prefix}${nextIndex}]` : `[^${nextIndex}]`;
-
-            // 2. Insert the footnote reference into the SOURCE note
-            const insertPos = primarySelection.anchor.line < primarySelection.head.line ||
-				(primarySelection.anchor.line === primarySelection.head.line && primarySelection.anchor.ch < primarySelection.head.ch)
-				? primarySelection.head : primarySelection.anchor;
-
-			editor.replaceRange(footnoteRef, insertPos); // Replace selection with reference
-            // Optional: Move cursor after the inserted reference
-            // const newCursorPos: EditorPosition = { line: insertPos.line, ch: insertPos.ch + footnoteRef.length };
-            // editor.setCursor(newCursorPos);
-            // editor.setSelection(newCursorPos, newCursorPos);
-
-            // 3. Prepare and add the footnote definition to the CUE note content
-			const cleanedSelection = selectedText.trim().replace(/\s+/g, ' ');
-			const footnoteDefText = `${footnoteRef}: ${cleanedSelection}`;
-
-            // Append the new definition to the Cue note content
-            // We rely on syncSourceToCue to properly format/place it later,
-            // but let's add it reasonably well here.
-            const lines = cueContent.split('\n');
-            let insertLineIndex = lines.length; // Default to end
-
-            // Find the end of existing definitions or before the code block
-            const codeBlockRegex = new RegExp(`^\\s*\`\`\`${INTERNAL_SETTINGS.codeBlockProcessorId}`);
-            let codeBlockLine = -1;
-            for(let i = lines.length -1; i >= 0; i--) {
-                if (codeBlockRegex.test(lines[i])) {
-                    codeBlockLine = i;
-                    break;
-                }
+    /** Notes a batch sync reads from: Source notes for S->C, their Cue notes for C->S. The date filter applies to these. */
+    private collectBatchSyncTargets(options: BatchSyncOptions): TFile[] {
+        const targets: TFile[] = [];
+        for (const sourceFile of this.getSourceNotes()) {
+            if (!this.isInBatchScope(sourceFile, options)) continue;
+            let target: TFile | null = sourceFile;
+            if (options.direction === 'C->S') {
+                // Single-file notes have no Cue note to sync from
+                const cueFile = this.getStorageMode(sourceFile) === 'single-file' ? null : this.app.vault.getAbstractFileByPath(this.getCueNotePath(sourceFile));
+                target = cueFile instanceof TFile ? cueFile : null;
             }
-            if (codeBlockLine !== -1) {
-                insertLineIndex = codeBlockLine; // Insert before code block
-                // Find last non-empty line before code block
-                while (insertLineIndex > 0 && lines[insertLineIndex - 1].trim() === '') {
-                    insertLineIndex--;
+            if (target && (options.modifiedSince === null || target.stat.mtime >= options.modifiedSince)) targets.push(target);
+        }
+        return targets;
+    }
+
+    /** Runs S->C or C->S for every note in scope with bounded concurrency, then writes and opens a report note */
+    async runBatchSync(options: BatchSyncOptions): Promise<void> {
+        const targets = this.collectBatchSyncTargets(options);
+        if (targets.length === 0) {
+            new Notice('No Cornell notes match the batch sync scope.');
+            return;
+        }
+        // The whole batch is journaled (and reverted) as one operation
+        const operation: SyncOperation = { ...this.startSyncOperation('batch-sync'), dryRun: options.dryRun };
+        const progress = new BatchSyncProgressModal(this.app, targets.length, options.dryRun);
+        progress.open();
+        console.log(`[Batch Sync ${options.direction}] Starting for ${targets.length} note(s)${options.dryRun ? ' (dry run)' : ''}.`);
+
+        const report: BatchSyncReportEntry[] = [];
+        const startedAt = Date.now();
+        let nextIndex = 0;
+        const worker = async () => {
+            while (nextIndex < targets.length && !progress.cancelled) {
+                const file = targets[nextIndex++];
+                progress.setCurrent(file.path);
+                let result: SyncResult;
+                try {
+                    result = options.direction === 'S->C'
+                        ? await this.syncSourceToCue(file, operation)
+                        : await this.syncCueToSource(file, operation);
+                } catch (e) {
+                    console.error(`[Batch Sync ${options.direction}] Error processing ${file.path}:`, e);
+                    result = { outcome: 'error', detail: e instanceof Error ? e.message : String(e) };
                 }
-            } else {
-                 // If no code block, find last definition or just append
-                let lastDefLine = -1;
-                 for(let i = lines.length -1; i >= 0; i--) {
-                    if (/^\s*\[\^.+?\]:/.test(lines[i])) {
-                        lastDefLine = i;
-                        break;
-                    }
-                 }
-                 if (lastDefLine !== -1) {
-                    insertLineIndex = lastDefLine + 1; // Insert after last definition
-                 }
-                 // Ensure separation
-                 while (insertLineIndex > 0 && lines[insertLineIndex - 1].trim() === '') {
-                    insertLineIndex--;
-                 }
+                report.push({ path: file.path, ...result });
+                progress.update(report);
             }
+        };
+        try {
+            await Promise.all(Array.from({ length: Math.min(INTERNAL_SETTINGS.batchSyncConcurrency, targets.length) }, () => worker()));
+        } finally {
+            // Save map and journal after the whole batch operation
+            await this.saveData();
+        }
 
-            const separator = (insertLineIndex > 0 && lines[insertLineIndex-1]?.trim() !== '') ? "\n\n" : "";
-            lines.splice(insertLineIndex, 0, separator + footnoteDefText);
-            cueContent = lines.join('\n').replace(/\n{3,}/g, '\n\n'); // Normalize newlines
+        const cancelled = progress.cancelled && report.length < targets.length;
+        progress.close();
+        const summary = summarizeBatchOutcomes(report);
+        console.log(`[Batch Sync ${options.direction}] ${cancelled ? 'Cancelled' : 'Complete'}: ${summary}`);
+        const reportContent = buildBatchSyncReport(options, report, targets.length, startedAt, cancelled);
+        const reportName = `Cornell batch sync ${new Date(startedAt).toISOString().slice(0, 19).replace('T', ' ').replace(/:/g, '-')}.md`;
+        const reportPath = await this.writeExportFile(this.settings.exportFolder.trim() || '/', reportName, reportContent);
+        new Notice(`Batch sync ${cancelled ? 'cancelled' : 'complete'}: ${summary}.`, 7000);
+        const reportFile = this.app.vault.getAbstractFileByPath(reportPath);
+        if (reportFile instanceof TFile) await this.app.workspace.getLeaf('tab').openFile(reportFile);
+    }
 
-			await this.app.vault.modify(cueFile, cueContent);
-			new Notice(`Cue ${footnoteRef} added to ${cueFile.basename}.`);
 
-            // 4. Trigger S->C sync to ensure Cue note is fully updated/formatted
-            // Use timeout to allow source editor changes to settle before sync reads it
-            setTimeout(() => {
-                console.log(`[GenerateCue] Triggering S->C sync after adding ${footnoteRef}`);
-                this.syncSourceToCue(sourceFile).catch(err => {
-                    console.error("Error during post-generateCue sync:", err);
-                    new Notice("Sync after Cue generation failed. Manual sync might be needed.");
-                });
-            }, 300); // Short delay
+    // --- Sync Journal ---
 
-            // 5. Refresh Cue pane if open and in preview mode
-            if (this.activeCornellLeaves.left && this.activeCornellLeaves.left.view instanceof MarkdownView && this.activeCornellLeaves.left.view.file === cueFile) {
-                const cueView = this.activeCornellLeaves.left.view;
-                if (cueView.getMode() === 'preview') {
-                     console.log("Refreshing Cue pane preview after generation.");
-                     // Re-setting state forces preview refresh
-                     await this.setMarkdownViewMode(cueView, 'preview');
-                }
-            }
+    /** Starts a journaled operation. All writes recorded under it are reverted together. */
+    private startSyncOperation(trigger: SyncTrigger): SyncOperation {
+        return { id: `sync-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`, trigger };
+    }
 
-		} catch (error) {
-			console.error("Failed to generate Cue:", error);
-			new Notice(`Error generating Cue. ${error instanceof Error ? error.message : 'Unknown error'}`);
-		}
-	}
+    /** Records one write of a sync operation. Saved to the journal file with the next saveData() of the sync. */
+    private recordSyncWrite(operation: SyncOperation, path: string, before: string, after: string): void {
+        if (before === after || operation.unjournaled) return;
+        this.syncJournal.push({
+            operationId: operation.id,
+            trigger: operation.trigger,
+            path,
+            timestamp: Date.now(),
+            beforeHash: hashContent(before),
+            afterHash: hashContent(after),
+            beforeContent: before,
+        });
+        this.syncJournal = trimSyncJournal(this.syncJournal, INTERNAL_SETTINGS.syncJournalMaxOperations, INTERNAL_SETTINGS.syncJournalMaxBytes);
+        if (!this.syncJournal.some(entry => entry.operationId === operation.id)) {
+            // Too large to keep (e.g. a batch sync of the whole vault): stop recording it rather than keeping a partial operation
+            operation.unjournaled = true;
+            console.warn(`[Sync Journal] ${SYNC_TRIGGER_LABELS[operation.trigger]} ${operation.id} exceeds the journal size limit and is not recorded.`);
+            new Notice(`${SYNC_TRIGGER_LABELS[operation.trigger]}: too many changes to record in the sync history. This sync cannot be reverted.`);
+        }
+    }
 
+    /** vault.modify that records the write in the sync journal. Does nothing for a dry-run operation. */
+    private async modifyJournaled(file: TFile, newContent: string, operation: SyncOperation): Promise<void> {
+        if (operation.dryRun) return;
+        const before = await this.app.vault.read(file);
+        await this.app.vault.modify(file, newContent);
+        this.recordSyncWrite(operation, file.path, before, newContent);
+    }
 
-	// --- Synchronization Logic (From main.ts その2, adapted) ---
+    /** Current content of a note, from its editor if it is open */
+    private async readCurrentContent(file: TFile): Promise<string> {
+        const editor = this.findEditorForFile(file);
+        return editor ? editor.getValue() : await this.app.vault.read(file);
+    }
 
-    /**
-     * Source -> Cue Sync: Updates the Cue note based on definitions in the Source note.
-     */
-    syncSourceToCue = async (sourceNoteFile: TFile): Promise<void> => {
-        if (this.isSyncing || this.isSwitchingMode) {
-            console.log(`[S->C Sync] Skipped for ${sourceNoteFile.basename}: Operation already in progress.`);
+    /** Whether a journaled file still holds exactly what the entry wrote (no later writes or edits) */
+    async isSyncEntryCurrent(entry: SyncJournalEntry): Promise<boolean> {
+        const newest = this.syncJournal.filter(other => other.path === entry.path).pop();
+        if (newest !== entry) return false;
+        const file = this.app.vault.getAbstractFileByPath(entry.path);
+        return file instanceof TFile && hashContent(await this.readCurrentContent(file)) === entry.afterHash;
+    }
+
+    getSyncJournal(): SyncJournalEntry[] {
+        return this.syncJournal;
+    }
+
+    /** Reverts every write of the newest journaled operation, unless a file was edited after it */
+    async revertLastSyncOperation(): Promise<void> {
+        const last = this.syncJournal[this.syncJournal.length - 1];
+        if (!last) {
+            new Notice('No Cornell sync to revert.');
             return;
         }
-        if (!this.isSourceNote(sourceNoteFile.path)) {
-            console.warn(`[S->C Sync] Invalid call: syncSourceToCue called with non-source note: ${sourceNoteFile.path}`);
+        const entries = this.syncJournal.filter(entry => entry.operationId === last.operationId);
+        // Only the newest write per file has to match the file; older writes of the same operation chain into it
+        const newestPerFile = new Map<string, SyncJournalEntry>();
+        entries.forEach(entry => newestPerFile.set(entry.path, entry));
+        const changed: string[] = [];
+        for (const entry of newestPerFile.values()) {
+            if (!(await this.isSyncEntryCurrent(entry))) changed.push(entry.path);
+        }
+        if (changed.length > 0) {
+            new Notice(`Cannot revert the last sync: ${changed.join(', ')} changed since. Use "Show Sync History" to restore a version anyway.`, 8000);
             return;
         }
+        const restored = await this.restoreSyncEntries(entries.slice().reverse());
+        new Notice(`Reverted ${SYNC_TRIGGER_LABELS[last.trigger]}: restored ${restored} file(s).`);
+    }
 
-        this.isSyncing = true;
-        const sourcePath = sourceNoteFile.path;
-        console.log(`[S->C Sync] Starting for ${sourcePath}`);
-        let mapNeedsSave = false;
-        let cueNoteUpdated = false;
+    /** Restores the before-state of one entry, even if the file changed since. Later entries of the file are dropped. */
+    async restoreSyncEntry(entry: SyncJournalEntry): Promise<boolean> {
+        const index = this.syncJournal.indexOf(entry);
+        if (index === -1) return false;
+        // Later writes to the file no longer chain onto the restored content
+        const later = this.syncJournal.slice(index + 1).filter(other => other.path === entry.path);
+        const restored = await this.restoreSyncEntries([entry]);
+        this.syncJournal = this.syncJournal.filter(other => !later.includes(other));
+        await this.saveData();
+        return restored > 0;
+    }
 
+    /** Writes back the before-content of the entries in the given order and removes them from the journal. Returns the number restored. */
+    private async restoreSyncEntries(entries: SyncJournalEntry[]): Promise<number> {
+        let restored = 0;
+        // Block auto-sync so the restored content is not merged straight back
+        this.isRestoringSync = true;
         try {
-            const sourceContent = await this.app.vault.cachedRead(sourceNoteFile);
-            const { definitions: sourceDefs, references: sourceRefs } = this.parseSourceContent(sourceContent); // Get both defs and refs
-            const sourceDefinitionsMap = new Map<string, string>(sourceDefs.map(def => [def.ref, def.definition]));
-
-            const cueNotePath = this.getCueNotePath(sourceNoteFile);
-            const cueFileAbstract = this.app.vault.getAbstractFileByPath(cueNotePath);
-            let cueFileInstance: TFile | null = null;
-
-            if (cueFileAbstract instanceof TFile) {
-                cueFileInstance = cueFileAbstract;
-            } else {
-                // Optionally create the cue note if it doesn't exist during sync
-                console.log(`[S->C Sync] Cue note not found for ${sourcePath}. Attempting to create.`);
-                cueFileInstance = await this.ensureCueNoteExists(cueNotePath, sourceNoteFile);
-                if (!cueFileInstance) {
-                    new Notice(`Cue note for "${sourceNoteFile.basename}" not found and could not be created. Skipping S->C sync.`, 7000);
-                    console.log(`[S->C Sync] Cue note creation failed for ${sourcePath}. Skipping.`);
-                    // Update map if it previously thought cue existed
-                    const info = this.getOrCreateNoteInfo(sourceNoteFile);
-                    if (info.cuePath !== null) {
-                        info.cuePath = null;
-                        this.noteInfoMap.set(sourcePath, info);
-                        await this.saveData();
-                    }
-                    this.isSyncing = false; // Release lock before returning
-                    await sleep(INTERNAL_SETTINGS.syncFlagReleaseDelay);
-                    return;
+            for (const entry of entries) {
+                const file = this.app.vault.getAbstractFileByPath(entry.path);
+                if (!(file instanceof TFile)) {
+                    console.warn(`[Sync Journal] ${entry.path} no longer exists. Entry dropped.`);
                 } else {
-                    new Notice(`Created missing Cue note: ${cueFileInstance.basename}`);
-                    mapNeedsSave = true; // Map updated in ensureCueNoteExists
-                }
-            }
-
-            // Determine final definitions for the Cue note
-            const finalCueFootnotes = new Map<string, string>();
-            const sourceDefRefs = new Set(sourceDefinitionsMap.keys());
-
-            // Option: Delete definitions from Cue if no references exist in Source
-            if (this.settings.deleteDefinitionsOnReferenceDelete) {
-                const presentSourceRefKeys = new Set(sourceRefs.map(r => r.ref));
-                for (const [ref, def] of sourceDefinitionsMap.entries()) {
-                    if (presentSourceRefKeys.has(ref)) {
-                        finalCueFootnotes.set(ref, def); // Keep definition if referenced
-                    } else {
-                        console.log(`[S->C Sync] Excluding def [^${ref}] from Cue (no refs in Source & setting enabled).`);
-                    }
+                    await this.writeNoteContent(file, entry.beforeContent);
+                    console.log(`[Sync Journal] Restored ${entry.path} to its state before ${entry.trigger} (${new Date(entry.timestamp).toLocaleString()}).`);
+                    restored++;
                 }
-            } else {
-                // If not deleting based on refs, copy all source definitions
-                for(const [ref, def] of sourceDefinitionsMap.entries()) {
-                    finalCueFootnotes.set(ref, def);
-                }
-            }
-
-            // Update Cue note content using the final definitions map
-            const updated = await this.updateCueNoteContent(cueFileInstance, sourceNoteFile, finalCueFootnotes);
-            if (updated) {
-                console.log(`[S->C Sync] Cue note ${cueFileInstance.path} updated.`);
-                cueNoteUpdated = true;
-            } else {
-                // console.log(`[S->C Sync] Cue note ${cueFileInstance.path} content is already up-to-date.`);
-            }
-
-            // Update NoteInfoMap (sync time, ensure cuePath is correct)
-            const info = this.getOrCreateNoteInfo(sourceNoteFile);
-            let infoChanged = false;
-            if (info.cuePath !== cueFileInstance.path) {
-                info.cuePath = cueFileInstance.path;
-                infoChanged = true;
-            }
-            if (cueNoteUpdated) { // Only update timestamp if content actually changed
-                info.lastSyncSourceToCue = Date.now();
-                infoChanged = true;
+                this.syncJournal = this.syncJournal.filter(other => other !== entry);
             }
-            if (infoChanged || mapNeedsSave) {
-                this.noteInfoMap.set(sourcePath, info);
-                await this.saveData();
-            }
-
-            // Refresh Cue pane if open and in preview mode
-            if (cueNoteUpdated && this.activeCornellLeaves.left && this.activeCornellLeaves.left.view instanceof MarkdownView && this.activeCornellLeaves.left.view.file === cueFileInstance) {
-                const cueView = this.activeCornellLeaves.left.view;
-                 if (cueView.getMode() === 'preview' || this.settings.enforceCuePreview) {
-                     console.log("[S->C Sync] Refreshing Cue pane preview.");
-                     // Re-setting state forces preview refresh
-                     // Ensure it stays in preview if enforced
-                     await this.setMarkdownViewMode(cueView, 'preview');
-                 }
-            }
-
-        } catch (error) {
-            console.error(`[S->C Sync] Error during sync for ${sourceNoteFile?.basename}:`, error);
-            new Notice(`Error during S->C sync for ${sourceNoteFile.basename}. See console.`);
         } finally {
             await sleep(INTERNAL_SETTINGS.syncFlagReleaseDelay);
-            this.isSyncing = false;
-            // console.log(`[S->C Sync] Finished for ${sourceNoteFile.path}`);
+            this.debouncedSyncSourceToCue.cancel();
+            this.debouncedSyncCueToSource.cancel();
+            this.isRestoringSync = false;
         }
-	}
+        await this.saveData();
+        return restored;
+    }
 
-    /**
-     * Cue -> Source Sync: Updates the Source note based on definitions in the Cue note.
-     */
-    async syncCueToSource(cueNoteFile: TFile): Promise<void> {
-        if (this.isSyncing || this.isSwitchingMode) {
-            console.log(`[C->S Sync] Skipped for ${cueNoteFile.basename}: Operation already in progress.`);
+    /** Opens the sync history modal */
+    showSyncHistory(): void {
+        if (this.syncJournal.length === 0) {
+            new Notice('The Cornell sync history is empty.');
             return;
         }
-        if (!this.isCueNote(cueNoteFile.path)) {
-             console.warn(`[C->S Sync] Invalid call: syncCueToSource called with non-cue note: ${cueNoteFile.path}`);
-             return;
-        }
+        new SyncHistoryModal(this.app, this).open();
+    }
 
-        this.isSyncing = true;
-        let sourceNoteFile: TFile | null = null;
-        let sourceNoteUpdated = false;
 
-        console.log(`[C->S Sync] Starting from ${cueNoteFile.path}`);
+    // --- Integrity Check ---
 
-        try {
-            const cueContent = await this.app.vault.cachedRead(cueNoteFile);
-            const footnotesFromCue = this.parseFootnotesSimple(cueContent);
+    /** Opens the integrity check modal */
+    showIntegrityCheck(): void {
+        new IntegrityCheckModal(this.app, this).open();
+    }
 
-            sourceNoteFile = this.getSourceNoteFileFromDerived(cueNoteFile.path);
-            if (!sourceNoteFile) {
-                new Notice(`Source note not found for ${cueNoteFile.basename}. Cannot sync C->S.`);
-                console.error(`[C->S Sync] Source note not found for cue note: ${cueNoteFile.path}`);
-                this.isSyncing = false; // Release lock
-                return;
+    /** Scans the note map and the vault for broken Cornell structure. Every issue carries its own fix. */
+    async checkCornellIntegrity(): Promise<IntegrityIssue[]> {
+        const issues: IntegrityIssue[] = [];
+
+        // Map entries pointing at notes that no longer exist
+        for (const [key, info] of this.noteInfoMap.entries()) {
+            if (!(this.app.vault.getAbstractFileByPath(key) instanceof TFile)) {
+                issues.push({
+                    kind: 'stale-map-entry', path: key,
+                    description: 'The Source note no longer exists.',
+                    fixLabel: 'Remove entry',
+                    fix: async () => {
+                        this.noteInfoMap.delete(key);
+                        await this.saveData();
+                    },
+                });
+                continue;
             }
-            const sourcePath = sourceNoteFile.path;
-            console.log(`[C->S Sync] Target Source note: ${sourcePath}`);
-
-            const sourceContent = await this.app.vault.cachedRead(sourceNoteFile);
-
-            // Generate new source content based on Cue definitions and settings
-            const newSourceContent = this.updateSourceNoteContentRebuild(
-                sourceContent,
-                footnotesFromCue,
-                this.settings.deleteReferencesOnDefinitionDelete, // Delete source refs if cue def deleted?
-                this.settings.moveFootnotesToEnd // Move all defs to end of source?
-            );
-
-            if (newSourceContent !== sourceContent) {
-                console.log(`[C->S Sync] Source note ${sourcePath} needs update.`);
-                await this.app.vault.modify(sourceNoteFile, newSourceContent);
-                sourceNoteUpdated = true;
-                console.log(`[C->S Sync] Source note ${sourcePath} updated.`);
-            } else {
-                // console.log(`[C->S Sync] Source note ${sourcePath} content is already up-to-date.`);
+            const missing = (['cuePath', 'summaryPath'] as const).filter(field => info[field] !== null && !(this.app.vault.getAbstractFileByPath(info[field] ?? '') instanceof TFile));
+            if (missing.length > 0) {
+                issues.push({
+                    kind: 'stale-map-entry', path: key,
+                    description: `Recorded ${missing.map(field => field === 'cuePath' ? `Cue note ${info.cuePath}` : `Summary note ${info.summaryPath}`).join(' and ')} no longer exists.`,
+                    fixLabel: 'Forget missing notes',
+                    fix: async () => {
+                        if (missing.includes('cuePath')) {
+                            info.cuePath = null;
+                            info.baseDefinitions = null;
+                        }
+                        if (missing.includes('summaryPath')) info.summaryPath = null;
+                        await this.saveData();
+                    },
+                });
             }
+        }
 
-            // Update NoteInfoMap
-            const info = this.getOrCreateNoteInfo(sourceNoteFile);
-            let infoChanged = false;
-            if (info.cuePath !== cueNoteFile.path) { // Should generally match, but good to check
-                info.cuePath = cueNoteFile.path;
-                infoChanged = true;
-            }
-            if (sourceNoteUpdated) { // Only update timestamp if content actually changed
-                info.lastSyncCueToSource = Date.now();
-                infoChanged = true;
-            }
-            if (infoChanged) {
-                this.noteInfoMap.set(sourcePath, info);
-                await this.saveData();
-            }
+        // Cue/Summary notes whose Source is gone
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            if (!this.isCueNote(file.path) && !this.isSummaryNote(file.path)) continue;
+            if (this.getSourceNoteFileFromDerived(file.path)) continue;
+            issues.push({
+                kind: 'orphaned-derived', path: file.path,
+                description: `${this.isCueNote(file.path) ? 'Cue' : 'Summary'} note without a Source note.`,
+                fixLabel: 'Archive',
+                fix: () => this.applyDerivedNotesDeleteAction([file], 'archive'),
+            });
+        }
 
-        } catch (error) {
-            console.error(`[C->S Sync] Error during sync from '${cueNoteFile.basename}':`, error);
-            new Notice(`Error C->S sync for ${cueNoteFile.basename}. See console.`);
-        } finally {
-            await sleep(INTERNAL_SETTINGS.syncFlagReleaseDelay);
-            this.isSyncing = false;
-            // console.log(`[C->S Sync] Finished for ${cueNoteFile.path}`);
+        for (const sourceFile of this.getSourceNotes()) {
+            issues.push(...await this.checkSourceIntegrity(sourceFile));
         }
+        return issues;
     }
 
+    /** Footnote and header link issues of one Source note and its Cue note (or its ## CUE section) */
+    private async checkSourceIntegrity(sourceFile: TFile): Promise<IntegrityIssue[]> {
+        const issues: IntegrityIssue[] = [];
+        const singleFile = this.getStorageMode(sourceFile) === 'single-file';
+        const sourceParsed = parseMarkdownFootnotes(await this.app.vault.cachedRead(sourceFile));
+        const cueFileAbstract = singleFile ? null : this.app.vault.getAbstractFileByPath(this.getCueNotePath(sourceFile));
+        const cueFile = cueFileAbstract instanceof TFile ? cueFileAbstract : null;
+        const cueContent = cueFile ? await this.app.vault.cachedRead(cueFile) : null;
+        const cueParsed = cueContent !== null ? parseMarkdownFootnotes(cueContent) : null;
+        if (sourceParsed.references.length === 0 && sourceParsed.definitions.length === 0 && !cueParsed) return issues;
+
+        // Duplicate definitions, in each file
+        const checkDuplicates = (file: TFile, definitions: ParsedDefinition[]) => {
+            const duplicates = findDuplicateDefinitions(definitions);
+            if (duplicates.length === 0) return;
+            const refs = Array.from(new Set(duplicates.map(def => def.ref)));
+            issues.push({
+                kind: 'duplicate-definition', path: file.path,
+                description: `Defined more than once: ${refs.map(ref => `[^${ref}]`).join(', ')}`,
+                fixLabel: 'Keep first',
+                fix: () => this.rewriteForIntegrityFix(file, content =>
+                    removeRanges(content, findDuplicateDefinitions(parseMarkdownFootnotes(content).definitions), true)),
+            });
+        };
+        checkDuplicates(sourceFile, sourceParsed.definitions);
+        if (cueFile && cueParsed) checkDuplicates(cueFile, cueParsed.definitions);
+
+        // The Cue note (or the note itself in single-file mode) holds the definitions that count
+        const definedRefs = new Set([...sourceParsed.definitions, ...(cueParsed?.definitions ?? [])].map(def => def.ref));
+        const referencedRefs = new Set(sourceParsed.references.map(ref => ref.ref));
+
+        const undefinedRefs = Array.from(referencedRefs).filter(ref => !definedRefs.has(ref));
+        if (undefinedRefs.length > 0) {
+            issues.push({
+                kind: 'missing-definition', path: sourceFile.path,
+                description: `No definition for ${undefinedRefs.map(ref => `[^${ref}]`).join(', ')}`,
+                fixLabel: 'Remove references',
+                fix: () => this.rewriteForIntegrityFix(sourceFile, content =>
+                    removeRanges(content, parseMarkdownFootnotes(content).references.filter(ref => undefinedRefs.includes(ref.ref)), false)),
+            });
+        }
 
-	// --- Synchronization & Parsing Helpers (From main.ts その2, adapted) ---
-
-	/** Get or create NoteInfo for a Source note */
-	getOrCreateNoteInfo(sourceNoteFile: TFile): CornellNoteInfo {
-        const sourcePath = sourceNoteFile.path;
-        let info = this.noteInfoMap.get(sourcePath);
-        if (!info) {
-            const cuePath = this.getCueNotePath(sourceNoteFile);
-            const summaryPath = this.getSummaryNotePath(sourceNoteFile);
-            const cueFile = this.app.vault.getAbstractFileByPath(cuePath);
-            const summaryFile = this.app.vault.getAbstractFileByPath(summaryPath);
-            info = {
-                sourcePath,
-                cuePath: cueFile instanceof TFile ? cueFile.path : null,
-                summaryPath: summaryFile instanceof TFile ? summaryFile.path : null,
-                lastSyncSourceToCue: null,
-                lastSyncCueToSource: null
-            };
-            this.noteInfoMap.set(sourcePath, info);
-             console.log(`[Util] Created new NoteInfo entry for ${sourcePath}`);
-             // No save here, caller should save if needed
+        const unreferenced = Array.from(definedRefs).filter(ref => !referencedRefs.has(ref));
+        if (unreferenced.length > 0) {
+            issues.push({
+                kind: 'unreferenced-definition', path: cueFile?.path ?? sourceFile.path,
+                description: `Never referenced in the Source: ${unreferenced.map(ref => `[^${ref}]`).join(', ')}`,
+                fixLabel: 'Delete definitions',
+                fix: async () => {
+                    const removeDefinitions = (content: string) =>
+                        removeRanges(content, parseMarkdownFootnotes(content).definitions.filter(def => unreferenced.includes(def.ref)), true);
+                    await this.rewriteForIntegrityFix(sourceFile, removeDefinitions);
+                    if (cueFile) await this.rewriteForIntegrityFix(cueFile, removeDefinitions);
+                },
+            });
         }
-        return info;
-    }
 
-	/** Parse Markdown for footnote definitions and references */
-	parseSourceContent(content: string): { definitions: ParsedDefinition[], references: ParsedReference[] } {
-		const definitions: ParsedDefinition[] = [];
-		const references: ParsedReference[] = [];
-        const defRegex = /^(\s*)\[\^([^\]]+?)\]:\s*(.*(?:(?:\n(?:\ {4}|\t|\s{2,}).*)*))/gm; // Multiline defs
-        const refRegex = /\[\^([^\]]+?)\](?!:)/g; // Refs, excluding defs
-        let match;
-
-		while ((match = defRegex.exec(content)) !== null) {
-            definitions.push({
-                ref: match[2].trim(),
-                definition: match[3].replace(/\n(?: {4}|\t|\s{2,})/g, '\n').trim(), // Clean multiline indent
-                start: match.index,
-                end: match.index + match[0].length,
-                fullMatch: match[0]
+        if (!cueFile || !cueParsed || cueContent === null) return issues;
+
+        const cueRefs = new Set(cueParsed.definitions.map(def => def.ref));
+        const missingInCue = sourceParsed.definitions.filter(def => !cueRefs.has(def.ref));
+        if (missingInCue.length > 0) {
+            issues.push({
+                kind: 'missing-in-cue', path: sourceFile.path,
+                description: `Defined in the Source but not in ${cueFile.basename}: ${missingInCue.map(def => `[^${def.ref}]`).join(', ')}`,
+                fixLabel: 'Copy to Cue',
+                fix: async () => {
+                    const definitions = this.parseFootnotesSimple(await this.app.vault.read(cueFile));
+                    missingInCue.forEach(def => { if (!definitions.has(def.ref)) definitions.set(def.ref, def.definition); });
+                    await this.updateCueNoteContent(cueFile, sourceFile, definitions, this.startSyncOperation('integrity-fix'));
+                    await this.saveData();
+                },
             });
         }
-		while ((match = refRegex.exec(content)) !== null) {
-            references.push({
-                ref: match[1].trim(),
-                start: match.index,
-                end: match.index + match[0].length,
-                fullMatch: match[0]
+
+        // Function replacers: a basename with `$&` or `$1` must not be read as a replacement pattern
+        const expectedLink = this.settings.linkToSourceText.replace('{{sourceNote}}', () => sourceFile.basename);
+        if (!cueContent.includes(expectedLink)) {
+            issues.push({
+                kind: 'stale-header-link', path: cueFile.path,
+                description: `Header does not link back with ${expectedLink}`,
+                fixLabel: 'Update link',
+                fix: () => this.rewriteForIntegrityFix(cueFile, content => {
+                    // Replace a link made from the same template for another name, otherwise add the link on top
+                    const pattern = new RegExp(this.escapeRegex(this.settings.linkToSourceText).replace(this.escapeRegex('{{sourceNote}}'), '[^\\]|\\n]+'));
+                    return pattern.test(content) ? content.replace(pattern, () => expectedLink) : `${expectedLink}\n\n${content}`;
+                }),
             });
         }
-		return { definitions, references };
-	}
+        return issues;
+    }
 
-    /** Update Source note content based on Cue definitions (for C->S sync) */
-	updateSourceNoteContentRebuild(sourceContent: string, footnotesFromCue: Map<string, string>, deleteReferences: boolean, moveToEnd: boolean): string {
-		const { definitions: sourceDefs } = this.parseSourceContent(sourceContent);
-        const refsDefinedInCue = new Set(footnotesFromCue.keys());
-        const refsToDeleteCompletely = new Set<string>(); // Defs removed from Cue
+    /** Rewrites a note for an integrity fix; the write is journaled and can be reverted like a sync */
+    private async rewriteForIntegrityFix(file: TFile, transform: (content: string) => string): Promise<void> {
+        const content = await this.readCurrentContent(file);
+        const newContent = transform(content);
+        if (newContent === content) return;
+        await this.writeNoteContent(file, newContent, this.startSyncOperation('integrity-fix'));
+        await this.saveData();
+        console.log(`[Integrity] Fixed ${file.path}`);
+    }
 
-        // Determine final definitions for Source (Cue is the authority)
-        const finalDefinitions = new Map<string, string>();
-        sourceDefs.forEach(def => {
-            if (refsDefinedInCue.has(def.ref)) {
-                finalDefinitions.set(def.ref, footnotesFromCue.get(def.ref)!); // Update with Cue content
-            } else {
-                refsToDeleteCompletely.add(def.ref); // Mark for full deletion
-                console.log(`[C->S Rebuild] Marking def [^${def.ref}] for deletion from Source (not in Cue).`);
-            }
-        });
-        footnotesFromCue.forEach((cueDef, cueRef) => {
-            if (!sourceDefs.some(d => d.ref === cueRef)) {
-                finalDefinitions.set(cueRef, cueDef); // Add new defs from Cue
-                console.log(`[C->S Rebuild] Adding new def [^${cueRef}] to Source from Cue.`);
-            }
-        });
 
-        // Remove all old definition blocks from source content
-        let bodyContent = sourceContent;
-        const sortedDefsToRemove = [...sourceDefs].sort((a, b) => b.start - a.start); // Remove from end to start
-        for (const def of sortedDefsToRemove) {
-            bodyContent = bodyContent.slice(0, def.start) + bodyContent.slice(def.end);
+    // --- Spaced Repetition Review ---
+
+    /** Current cue definitions of a Source note: its own ## CUE section in single-file mode, otherwise its Cue note */
+    private async getCueDefinitionsForSource(sourceFile: TFile): Promise<Map<string, string> | null> {
+        if (this.getStorageMode(sourceFile) === 'single-file') {
+            return this.parseFootnotesSimple(await this.app.vault.cachedRead(sourceFile));
         }
-        bodyContent = bodyContent.trimEnd(); // Clean trailing whitespace
+        const cuePath = this.noteInfoMap.get(sourceFile.path)?.cuePath;
+        const cueFile = cuePath ? this.app.vault.getAbstractFileByPath(cuePath) : null;
+        if (!(cueFile instanceof TFile)) return null;
+        return this.parseFootnotesSimple(await this.app.vault.cachedRead(cueFile));
+    }
 
-        // Optional: Remove references ([^ref]) in the body if their def was removed from Cue
-        if (deleteReferences && refsToDeleteCompletely.size > 0) {
-             console.log(`[C->S Rebuild] Removing references for deleted definitions: ${Array.from(refsToDeleteCompletely).join(', ')}`);
-            const refsToDeleteRegex = new RegExp(`\\[\\^(${Array.from(refsToDeleteCompletely).map(this.escapeRegex).join('|')})\\](?!:)`, 'g');
-            bodyContent = bodyContent.replace(refsToDeleteRegex, '');
-             new Notice(`Removed references in Source for deleted Cue definitions: ${Array.from(refsToDeleteCompletely).join(', ')}`, 5000);
+    /** Brings the cards of a Source note up to date with its current definitions. Returns whether anything changed (caller saves). */
+    private async updateReviewCards(sourceFile: TFile, now: number = Date.now()): Promise<{ cards: CueReviewCard[], changed: boolean }> {
+        const definitions = await this.getCueDefinitionsForSource(sourceFile);
+        if (!definitions || definitions.size === 0) {
+            const changed = definitions !== null && this.reviewCards.delete(sourceFile.path);
+            return { cards: [], changed };
         }
+        const { cards, changed } = reconcileReviewCards(this.reviewCards.get(sourceFile.path) ?? [], definitions, now);
+        if (changed) this.reviewCards.set(sourceFile.path, cards);
+        return { cards, changed };
+    }
 
-        // Generate the new, sorted footnote definition block
-        let finalDefinitionsText = "";
-        if (finalDefinitions.size > 0) {
-             finalDefinitionsText = Array.from(finalDefinitions.entries())
-                .sort((a, b) => a[0].localeCompare(b[0], undefined, { numeric: true, sensitivity: 'base' })) // Sort numerically/alphabetically
-                .map(([ref, def]) => `[^${ref}]: ${def}`)
-                .join('\n\n'); // Separate defs by double newline
+    /** Brings every card up to date with the current definitions and returns the cards that are due */
+    async collectDueCues(now: number = Date.now()): Promise<DueCue[]> {
+        const dueCues: DueCue[] = [];
+        let cardsChanged = false;
+        for (const sourceFile of this.getSourceNotes()) {
+            const { cards, changed } = await this.updateReviewCards(sourceFile, now);
+            if (changed) cardsChanged = true;
+            const dueCards = cards.filter(card => card.due <= now);
+            if (dueCards.length === 0) continue;
+            const sourceContent = await this.app.vault.cachedRead(sourceFile);
+            dueCards.forEach(card => dueCues.push({ sourceFile, card, context: extractReferenceContext(sourceContent, card.ref) }));
         }
+        if (cardsChanged) await this.saveData();
+        return dueCues.sort((a, b) => a.card.due - b.card.due);
+    }
 
-        // Combine body and definitions
-        let newSourceContent = bodyContent;
-        if (finalDefinitionsText) {
-            if (moveToEnd || !moveToEnd) { // Currently always moves to end, original position logic is complex
-                if (!moveToEnd) console.warn("[Cornell Plugin] moveFootnotesToEnd=false is not fully implemented for C->S; footnotes will be appended.");
-                // Add definitions at the end, separated by newlines
-                newSourceContent += (bodyContent.trim() ? '\n\n' : '') + finalDefinitionsText; // Ensure separation only if body isn't empty
-            }
-            // else { // Logic to find original position is complex, append for now
-            //     newSourceContent += (bodyContent ? '\n\n' : '') + finalDefinitionsText;
-            // }
+    /** Opens the review modal for all due cues */
+    async reviewDueCues(): Promise<void> {
+        const dueCues = await this.collectDueCues();
+        if (dueCues.length === 0) {
+            new Notice('No cues are due for review.');
+            return;
         }
-        newSourceContent = newSourceContent.trimEnd() + '\n'; // Ensure single trailing newline
+        new CueReviewModal(this.app, dueCues, (dueCue, grade) => this.recordCueReview(dueCue, grade)).open();
+    }
 
-		// Normalize multiple newlines
-		return newSourceContent.replace(/\n{3,}/g, '\n\n');
-	}
+    /** Reschedules a reviewed card with SM-2 and saves it */
+    private async recordCueReview(dueCue: DueCue, grade: ReviewGrade): Promise<void> {
+        const cards = this.reviewCards.get(dueCue.sourceFile.path);
+        const index = cards?.findIndex(card => card.ref === dueCue.card.ref) ?? -1;
+        if (!cards || index === -1) {
+            console.warn(`[Review] Card [^${dueCue.card.ref}] of ${dueCue.sourceFile.path} no longer exists.`);
+            return;
+        }
+        cards[index] = scheduleReviewCard(cards[index], grade, Date.now());
+        console.log(`[Review] [^${dueCue.card.ref}] graded ${grade}, next review in ${cards[index].interval} day(s).`);
+        await this.saveData();
+    }
 
-    /** Generate the expected content for a Cue note (header, defs, code block) */
-    private generateCueContent(currentContent: string | null, sourceNoteFile: TFile, footnotes: Map<string, string>): string {
-        const linkToSource = this.settings.linkToSourceText.replace('{{sourceNote}}', sourceNoteFile.basename);
-        let header = "";
+    // --- Export ---
 
-        // Extract existing header (content before first definition or code block)
-        if (currentContent) {
-            const firstDefMatch = currentContent.match(/^(\s*\[\^.+?\]:)/m);
-            const firstCbMatch = currentContent.match(new RegExp("^\\s*```" + INTERNAL_SETTINGS.codeBlockProcessorId, "m"));
-            let firstElementIdx = currentContent.length;
-            if (firstDefMatch?.index !== undefined) firstElementIdx = firstDefMatch.index;
-            if (firstCbMatch?.index !== undefined && firstCbMatch.index < firstElementIdx) firstElementIdx = firstCbMatch.index;
-            header = currentContent.substring(0, firstElementIdx).trimEnd();
+    /** Collects the main notes, cue definitions and summary of a Cornell note, for either storage mode */
+    async readCornellTriad(sourceFile: TFile): Promise<CornellTriadContent> {
+        const sourceContent = await this.app.vault.cachedRead(sourceFile);
+        if (this.getStorageMode(sourceFile) === 'single-file') {
+            const sectionBody = (section: CornellSection) => {
+                const found = findCornellSection(sourceContent, section);
+                return found ? sourceContent.slice(found.headingEnd, found.end) : '';
+            };
+            return {
+                main: removeFootnoteDefinitions(sectionBody('MAIN')),
+                definitions: this.parseFootnotesSimple(sourceContent),
+                summary: sectionBody('SUMMARY'),
+            };
         }
 
-        // Ensure header contains the link to source
-        if (!header.includes(linkToSource)) {
-             header = header ? `${linkToSource}\n\n${header}` : linkToSource;
+        const info = this.noteInfoMap.get(sourceFile.path);
+        const readDerived = async (path: string | null | undefined): Promise<string | null> => {
+            const file = path ? this.app.vault.getAbstractFileByPath(path) : null;
+            return file instanceof TFile ? await this.app.vault.cachedRead(file) : null;
+        };
+        const cueContent = await readDerived(info?.cuePath);
+        const summaryContent = await readDerived(info?.summaryPath);
+
+        // Cue note definitions win over the Source copies
+        const definitions = new Map([...this.parseFootnotesSimple(sourceContent), ...this.parseFootnotesSimple(cueContent ?? '')]);
+
+        let summary = '';
+        if (summaryContent) {
+            const section = findCornellSection(summaryContent, 'SUMMARY');
+            const templateLinks = [
+                this.settings.linkToSourceText.replace('{{sourceNote}}', sourceFile.basename),
+                info?.cuePath ? this.settings.linkToCueText.replace('{{cueNote}}', this.getBasenameFromPath(info.cuePath)) : null
+            ];
+            summary = section
+                ? summaryContent.slice(section.headingEnd, section.end)
+                : stripFrontmatter(summaryContent).split('\n').filter(line => !templateLinks.includes(line.trim())).join('\n');
         }
-        const finalHeader = header ? header + '\n\n' : '';
+        return { main: removeFootnoteDefinitions(stripFrontmatter(sourceContent)), definitions, summary };
+    }
 
-        // Generate sorted footnote definitions text
-        let fnsText = "";
-        if (footnotes.size > 0) {
-            fnsText = Array.from(footnotes.entries())
-                .sort((a, b) => a[0].localeCompare(b[0], undefined, { numeric: true, sensitivity: 'base' }))
-                .map(([ref, def]) => `[^${ref}]: ${def}`)
-                .join('\n\n');
+    /** Renders Markdown to standalone HTML: vault images are inlined, internal links become plain text */
+    private async renderMarkdownToHtml(markdown: string, sourcePath: string, component: Component): Promise<string> {
+        const container = createDiv();
+        await MarkdownRenderer.render(this.app, markdown, container, sourcePath, component);
+        container.querySelectorAll('button, .copy-code-button').forEach(el => el.remove());
+        for (const embed of Array.from(container.querySelectorAll('.internal-embed[src]'))) {
+            const linkedFile = this.app.metadataCache.getFirstLinkpathDest(embed.getAttribute('src') ?? '', sourcePath);
+            const img = embed.querySelector('img');
+            if (!img || !(linkedFile instanceof TFile)) continue;
+            const mimeType = linkedFile.extension === 'svg' ? 'image/svg+xml' : `image/${linkedFile.extension === 'jpg' ? 'jpeg' : linkedFile.extension}`;
+            img.setAttribute('src', `data:${mimeType};base64,${arrayBufferToBase64(await this.app.vault.readBinary(linkedFile))}`);
         }
+        container.querySelectorAll('a.internal-link').forEach(link => link.replaceWith(createSpan({ text: link.textContent ?? '' })));
+        return container.innerHTML;
+    }
 
-        // Add the code block if there are footnotes
-        const codeBlockSection = footnotes.size > 0
-            ? `\n\n\`\`\`${INTERNAL_SETTINGS.codeBlockProcessorId}\n\`\`\`\n`
-            : '\n'; // Add newline even if no block
-
-        // Combine parts and normalize newlines
-        const newContent = (finalHeader + fnsText + codeBlockSection).trimEnd() + '\n';
-        return newContent.replace(/\n{3,}/g, '\n\n');
+    /** Writes an export file and returns its path */
+    private async writeExportFile(folderPath: string, fileName: string, data: string): Promise<string> {
+        const folder = normalizePath(folderPath || '/');
+        await this.ensureFolderExists(folder);
+        const path = normalizePath(folder === '/' ? fileName : `${folder}/${fileName}`);
+        const existing = this.app.vault.getAbstractFileByPath(path);
+        if (existing instanceof TFile) {
+            await this.app.vault.modify(existing, data);
+        } else {
+            await this.app.vault.create(path, data);
+        }
+        return path;
     }
 
-	/** Update Cue note content if it differs from the generated expected content */
-	async updateCueNoteContent(cueNoteFile: TFile, sourceNoteFile: TFile, footnotes: Map<string, string>): Promise<boolean> {
-        let updated = false;
-		try {
-            const currentContent = await this.app.vault.cachedRead(cueNoteFile);
-            const newContent = this.generateCueContent(currentContent, sourceNoteFile, footnotes);
+    /** Exports a Cornell note as a printable HTML page; each cue sits next to the block holding its first reference */
+    async exportCornellPage(sourceFile: TFile): Promise<void> {
+        const triad = await this.readCornellTriad(sourceFile);
+        const blocks = splitMarkdownBlocks(triad.main);
+        const references = parseMarkdownFootnotes(triad.main).references;
+        const refMarker = (ref: string) => `<sup class="cornell-ref">${escapeHtml(ref)}</sup>`;
+
+        // Place each cue next to the block with its first reference; unreferenced cues go to the last row
+        const placed = new Set<string>();
+        const blockRefs = blocks.map(block => {
+            const refs: string[] = [];
+            references.filter(r => r.start >= block.start && r.end <= block.end).forEach(r => {
+                if (!placed.has(r.ref) && triad.definitions.has(r.ref)) {
+                    placed.add(r.ref);
+                    refs.push(r.ref);
+                }
+            });
+            return refs;
+        });
+        const unplaced = Array.from(triad.definitions.keys()).filter(ref => !placed.has(ref));
 
-            if (currentContent !== newContent) {
-                 console.log(`[Util] Updating content of Cue note: ${cueNoteFile.path}`);
-                await this.app.vault.modify(cueNoteFile, newContent);
-                updated = true;
+        const component = new Component();
+        component.load();
+        try {
+            const rows: { cueHtml: string, notesHtml: string }[] = [];
+            for (let i = 0; i < blocks.length; i++) {
+                const block = blocks[i];
+                let blockText = triad.main.slice(block.start, block.end);
+                references.filter(r => r.start >= block.start && r.end <= block.end)
+                    .sort((a, b) => b.start - a.start)
+                    .forEach(r => {
+                        blockText = blockText.slice(0, r.start - block.start) + refMarker(r.ref) + blockText.slice(r.end - block.start);
+                    });
+                const refs = i === blocks.length - 1 ? [...blockRefs[i], ...unplaced] : blockRefs[i];
+                const cueMarkdown = refs.map(ref => `${refMarker(ref)} ${styledCueMarkdown(triad.definitions.get(ref) ?? '')}`).join('\n\n');
+                rows.push({
+                    cueHtml: await this.renderMarkdownToHtml(cueMarkdown, sourceFile.path, component),
+                    notesHtml: await this.renderMarkdownToHtml(blockText, sourceFile.path, component),
+                });
             }
-		} catch (error) {
-            console.error(`[Util] Error updating Cue note content for '${cueNoteFile.basename}':`, error);
+            if (blocks.length === 0 && unplaced.length > 0) {
+                const cueMarkdown = unplaced.map(ref => `${refMarker(ref)} ${styledCueMarkdown(triad.definitions.get(ref) ?? '')}`).join('\n\n');
+                rows.push({ cueHtml: await this.renderMarkdownToHtml(cueMarkdown, sourceFile.path, component), notesHtml: '' });
+            }
+            const summaryHtml = await this.renderMarkdownToHtml(triad.summary.trim(), sourceFile.path, component);
+
+            const html = buildCornellPageHtml(sourceFile.basename, rows, summaryHtml, this.settings.exportPageSize);
+            const exportFolder = this.settings.exportFolder.trim();
+            const folder = exportFolder || sourceFile.parent?.path || '/';
+            // In a shared export folder, the Source's folder keeps notes with the same name apart
+            const sourceFolder = sourceFile.parent && !sourceFile.parent.isRoot() ? sourceFile.parent.path : '';
+            const fileName = exportFolder && sourceFolder
+                ? `${sourceFile.basename} (${sourceFolder.replace(/\//g, ' - ')}).cornell.html`
+                : `${sourceFile.basename}.cornell.html`;
+            const path = await this.writeExportFile(folder, fileName, html);
+            console.log(`[Export] Cornell page written to ${path}`);
+            new Notice(`Exported Cornell page to ${path}`);
+        } finally {
+            component.unload();
         }
-        return updated;
-	}
+    }
 
-    /** Parse content simply for footnote definitions Map<ref, definition> */
-	parseFootnotesSimple = (content: string): Map<string, string> => {
-        const footnotesMap = new Map<string, string>();
-        const regex = /^(\s*)\[\^([^\]]+?)\]:\s*(.*(?:(?:\n(?:\ {4}|\t|\s{2,}).*)*))/gm;
-        let match;
-        while ((match = regex.exec(content)) !== null) {
-            if(match[2]) {
-                footnotesMap.set(
-                    match[2].trim(),
-                    match[3].replace(/\n(?: {4}|\t|\s{2,})/g, '\n').trim() // Clean multiline indent
-                );
+    /**
+     * Exports cues to an Anki TSV (front = source sentence or template, back = definition).
+     * Rows are keyed by the card ID, so re-exporting updates rows instead of duplicating them.
+     */
+    async exportCuesToAnki(sourceFiles: TFile[], scopeLabel: string): Promise<void> {
+        if (sourceFiles.length === 0) {
+            new Notice(`No Source notes to export in ${scopeLabel}.`);
+            return;
+        }
+        const folder = this.settings.exportFolder.trim() || '/';
+        const path = normalizePath(folder === '/' ? INTERNAL_SETTINGS.ankiExportFileName : `${folder}/${INTERNAL_SETTINGS.ankiExportFileName}`);
+        const existingFile = this.app.vault.getAbstractFileByPath(path);
+        const existingRows = existingFile instanceof TFile ? parseAnkiRows(await this.app.vault.read(existingFile)) : [];
+
+        const exportedPaths = new Set(sourceFiles.map(f => f.path));
+        const newRows = new Map<string, AnkiRow>();
+        let cardsChanged = false;
+        for (const sourceFile of sourceFiles) {
+            const { cards, changed } = await this.updateReviewCards(sourceFile);
+            if (changed) cardsChanged = true;
+            if (cards.length === 0) continue;
+            const sourceContent = await this.app.vault.cachedRead(sourceFile);
+            const tags = ['cornell', ankiTagFromPath(sourceFile.path)].join(' ');
+            for (const card of cards) {
+                const sentence = extractReferenceSentence(sourceContent, card.ref) ?? '';
+                // Styled cues bring their own front: question, term or keyword (answered by the sentence)
+                const styledCue = parseStyledCue(card.definition);
+                const front = styledCue.prompt ?? this.settings.ankiFrontTemplate
+                    .split('{{sentence}}').join(sentence)
+                    .split('{{ref}}').join(card.ref)
+                    .split('{{note}}').join(sourceFile.basename)
+                    .trim();
+                const back = styledCue.style === 'free' ? card.definition : styledCue.answer ?? sentence;
+                newRows.set(card.id, { id: card.id, front: front || `[^${card.ref}]`, back, tags, source: sourceFile.path });
             }
         }
-        return footnotesMap;
+        if (cardsChanged) await this.saveData();
+
+        // Update rows in place, drop rows of deleted cues of the exported notes, append new ones
+        const rows: AnkiRow[] = [];
+        for (const row of existingRows) {
+            const updated = newRows.get(row.id);
+            if (updated) {
+                rows.push(updated);
+                newRows.delete(row.id);
+            } else if (!exportedPaths.has(row.source)) {
+                rows.push(row);
+            }
+        }
+        rows.push(...newRows.values());
+
+        const writtenPath = await this.writeExportFile(folder, INTERNAL_SETTINGS.ankiExportFileName, serializeAnkiRows(rows));
+        console.log(`[Export] ${rows.length} Anki rows written to ${writtenPath} (${scopeLabel}).`);
+        new Notice(`Exported cues of ${sourceFiles.length} note(s) to ${writtenPath}`);
     }
 
-	// --- Note Type & Path Helpers (From main.ts その2) ---
+    // --- Cloze Overlay ---
 
-    /** Check if a file path represents a Source note */
-    isSourceNote(filePath: string): boolean {
-        const normPath = normalizePath(filePath);
-        return normPath.endsWith('.md') && !this.isCueNote(normPath) && !this.isSummaryNote(normPath);
+    /** Remember the text a cue was generated from, so the cloze overlay can hide it */
+    private async rememberCueSpans(sourceFile: TFile, spans: [footnoteRef: string, selectedText: string | null][]): Promise<void> {
+        const info = this.getOrCreateNoteInfo(sourceFile);
+        spans.forEach(([footnoteRef, selectedText]) => {
+            if (selectedText) info.cueSpans[footnoteRef.slice(2, -1)] = selectedText;
+        });
+        await this.saveData();
     }
 
-	/** Check if a file path represents a Cue note */
-	isCueNote = (filePath: string): boolean => {
-        return filePath ? normalizePath(filePath).endsWith(INTERNAL_SETTINGS.cueNoteSuffix + '.md') : false;
+    /** Hide (or show again) the cued passages of a session's Source note */
+    private setClozeOverlay(session: CornellSession, active: boolean): void {
+        if (session.clozeActive === active) return;
+        session.clozeActive = active;
+        session.revealedClozes.clear();
+
+        this.clozeEditorExtension.length = 0;
+        if (this.getSessions().some(s => s.clozeActive)) this.clozeEditorExtension.push(this.createClozeViewPlugin());
+        this.app.workspace.updateOptions();
+        // Reading views pick up the change through the post processor
+        this.app.workspace.iterateAllLeaves(leaf => {
+            if (leaf.view instanceof MarkdownView && leaf.view.file?.path === session.sourceFile.path) this.rerenderPreview(leaf);
+        });
     }
 
-	/** Check if a file path represents a Summary note */
-	isSummaryNote = (filePath: string): boolean => {
-        return filePath ? normalizePath(filePath).endsWith(INTERNAL_SETTINGS.summaryNoteSuffix + '.md') : false;
+    /** Session whose cued passages are hidden for a Source note, if any */
+    private getClozeSession(sourcePath: string | undefined): CornellSession | null {
+        const session = sourcePath ? this.sessions.get(sourcePath) : undefined;
+        return session?.clozeActive ? session : null;
     }
 
-	/** Get the expected Cue note path for a Source note */
-	getCueNotePath = (sourceFile: TFile): string => {
-        const basename = sourceFile.basename;
-        const cueFilename = `${basename}${INTERNAL_SETTINGS.cueNoteSuffix}.md`;
-        const folderPath = sourceFile.parent?.path ?? '/';
-        const finalPath = (folderPath === '/' || folderPath === '') ? cueFilename : `${folderPath}/${cueFilename}`;
-        return normalizePath(finalPath);
+    /** Editor extension: marks cued passages, click reveals them */
+    private createClozeViewPlugin(): Extension {
+        const buildDecorations = (view: EditorView) => this.buildClozeDecorations(view);
+        const reveal = (view: EditorView, ref: string) => this.getClozeSession(view.state.field(editorInfoField, false)?.file?.path)?.revealedClozes.add(ref);
+        return ViewPlugin.fromClass(class {
+            decorations: DecorationSet;
+
+            constructor(view: EditorView) {
+                this.decorations = buildDecorations(view);
+            }
+
+            update(update: ViewUpdate) {
+                if (update.docChanged || update.transactions.some(tr => tr.effects.some(effect => effect.is(clozeRevealEffect)))) {
+                    this.decorations = buildDecorations(update.view);
+                }
+            }
+        }, {
+            decorations: value => value.decorations,
+            eventHandlers: {
+                mousedown: (event: MouseEvent, view: EditorView) => {
+                    const ref = (event.target as HTMLElement).closest('[data-cornell-cloze]')?.getAttribute('data-cornell-cloze');
+                    if (!ref) return false;
+                    reveal(view, ref);
+                    view.dispatch({ effects: clozeRevealEffect.of(ref) });
+                    event.preventDefault();
+                    return true;
+                }
+            }
+        });
     }
 
-	/** Get the expected Summary note path for a Source note */
-	getSummaryNotePath = (sourceFile: TFile): string => {
-        const basename = sourceFile.basename;
-        const summaryFilename = `${basename}${INTERNAL_SETTINGS.summaryNoteSuffix}.md`;
-        const folderPath = sourceFile.parent?.path ?? '/';
-        const finalPath = (folderPath === '/' || folderPath === '') ? summaryFilename : `${folderPath}/${summaryFilename}`;
-        return normalizePath(finalPath);
+    private buildClozeDecorations(view: EditorView): DecorationSet {
+        const file = view.state.field(editorInfoField, false)?.file;
+        const session = this.getClozeSession(file?.path);
+        const spans = session ? this.noteInfoMap.get(session.sourceFile.path)?.cueSpans : undefined;
+        if (!session || !spans) return Decoration.none;
+        const builder = new RangeSetBuilder<Decoration>();
+        findClozeRanges(view.state.doc.toString(), spans)
+            .filter(range => !session.revealedClozes.has(range.ref))
+            .forEach(range => builder.add(range.from, range.to, Decoration.mark({
+                class: 'cornell-cloze',
+                attributes: { 'data-cornell-cloze': range.ref }
+            })));
+        return builder.finish();
     }
 
-	/** Get the Source TFile corresponding to a Cue or Summary note path */
-	getSourceNoteFileFromDerived = (derivedPath: string): TFile | null => {
-        const normalizedDerivedPath = normalizePath(derivedPath);
+    /** Reading view: blanks the rendered text of each cued passage */
+    private clozePostProcessor = (el: HTMLElement, ctx: MarkdownPostProcessorContext) => {
+        const session = this.getClozeSession(ctx.sourcePath);
+        if (!session) return;
+        const spans = this.noteInfoMap.get(ctx.sourcePath)?.cueSpans;
+        const section = ctx.getSectionInfo(el);
+        if (!spans || !section) return;
+
+        const lines = section.text.split('\n');
+        const sectionStart = section.lineStart > 0 ? lines.slice(0, section.lineStart).join('\n').length + 1 : 0;
+        const sectionEnd = sectionStart + lines.slice(section.lineStart, section.lineEnd + 1).join('\n').length;
+        const references = parseMarkdownFootnotes(section.text).references.filter(r => r.start >= sectionStart && r.end <= sectionEnd);
+        const referenceElements = Array.from(el.querySelectorAll('sup.footnote-ref, sup[data-footnote-id]'));
+        if (references.length === 0 || referenceElements.length !== references.length) return; // Rendered references don't line up
+
+        const clozes = findClozeRanges(section.text, spans);
+        references.forEach((reference, i) => {
+            const cloze = clozes.find(range => range.to === reference.start);
+            if (!cloze || session.revealedClozes.has(cloze.ref)) return;
+            const wrappers = wrapRenderedTextBefore(el, referenceElements[i], stripInlineMarkdown(section.text.slice(cloze.from, cloze.to)), cloze.ref);
+            wrappers?.forEach(wrapper => this.registerDomEvent(wrapper, 'click', (event: MouseEvent) => {
+                event.preventDefault();
+                session.revealedClozes.add(cloze.ref);
+                wrappers.forEach(w => w.addClass('is-revealed'));
+            }));
+        });
+    }
 
-        // Try map first
-        for (const info of this.noteInfoMap.values()) {
-            if (info.cuePath === normalizedDerivedPath || info.summaryPath === normalizedDerivedPath) {
-                const sourceFile = this.app.vault.getAbstractFileByPath(info.sourcePath);
-                if (sourceFile instanceof TFile) return sourceFile;
+	// --- Custom Code Block Processor (From main.ts その2) ---
+    private cornellLinksCodeBlockProcessor = async (
+        source: string,
+        el: HTMLElement,
+        ctx: MarkdownPostProcessorContext
+    ) => {
+        const currentFilePath = ctx.sourcePath;
+        if (!this.isCueNote(currentFilePath) && !this.getSourceNoteFileForCue(currentFilePath)) {
+            el.empty();
+            return; // Only run in Cue notes (or single-file Cornell notes)
+        }
+        el.empty(); // Clear placeholder
+
+        try {
+            const cueFile = this.app.vault.getAbstractFileByPath(currentFilePath);
+            if (!(cueFile instanceof TFile)) throw new Error("Current file is not a valid TFile.");
+            const cueContent = await this.app.vault.cachedRead(cueFile);
+            const footnotesMap = this.parseFootnotesSimple(cueContent); // Get definitions from this Cue file
+
+            if (footnotesMap.size === 0) {
+                el.setText("No footnote definitions found in this Cue note.");
+                return;
+            }
+
+            const sourceNoteFile = this.getSourceNoteFileForCue(currentFilePath);
+            if (!sourceNoteFile) {
+                el.createEl('div', { text: `Error: Corresponding Source note not found. Cannot create navigation links.`, cls: 'cornell-footnote-error' });
+                return;
+            }
+
+            // Sort refs for consistent button order
+            const sortedRefs = Array.from(footnotesMap.keys()).sort((a, b) => a[0].localeCompare(b[0], undefined, { numeric: true, sensitivity: 'base' }));
+
+            // Recall mode: render a quiz instead of the link buttons
+            const quiz = this.sessions.get(sourceNoteFile.path)?.recallQuiz;
+            if (quiz) {
+                const sourceContent = await this.app.vault.cachedRead(sourceNoteFile);
+                this.renderRecallQuiz(el, quiz, sortedRefs, footnotesMap, sourceContent);
+                return;
+            }
+
+            // Create container for buttons
+            const buttonContainer = el.createDiv({ cls: 'cornell-footnote-links-container' });
+
+            // Create a button for each definition
+            for (const footnoteRef of sortedRefs) {
+                const button = buttonContainer.createEl('button', {
+                    text: `[^${footnoteRef}]`, // Display the reference name
+                    cls: 'cornell-footnote-link-button'
+                });
+                // Add tooltip with definition preview and action hints
+                const definition = footnotesMap.get(footnoteRef) || "";
+                const styledCue = parseStyledCue(definition);
+                const definitionPreview = styledCue.style === 'qa' || styledCue.style === 'term'
+                    ? `${styledCue.style === 'qa' ? 'Q' : 'Term'}: ${styledCue.prompt}\n${styledCue.style === 'qa' ? 'A' : 'Definition'}: ${styledCue.answer}`
+                    : styledCue.style === 'keyword'
+                        ? `Keyword: ${styledCue.prompt}`
+                        : definition.substring(0, 100) + (definition.length > 100 ? "..." : "");
+                button.setAttribute('title', `[^${footnoteRef}]: ${definitionPreview}\nClick: Navigate to first reference in Source\nCtrl/Cmd+Click: Highlight first reference in Source`);
+
+                // Register click event listener for the button
+                this.registerDomEvent(button, 'click', async (event: MouseEvent) => {
+                    event.preventDefault();
+                    event.stopPropagation();
+                    const isModifierPressed = event.ctrlKey || event.metaKey;
+
+                    if (footnoteRef) {
+                        if (isModifierPressed && this.settings.enableModifierClickHighlight) {
+                            // Highlight on Ctrl/Cmd + Click
+                            try { await this.highlightFirstSourceReference(footnoteRef, currentFilePath); }
+                            catch (e) { console.error(`[LinksCodeBlock] Error highlighting [^${footnoteRef}]:`, e); new Notice(`Error highlighting reference [^${footnoteRef}].`); }
+                        } else if (this.settings.enableCueNoteNavigation) {
+                            // Navigate on simple Click
+                            try { await this.navigateToSourceReference(footnoteRef, currentFilePath); }
+                            catch (e) { console.error(`[LinksCodeBlock] Error navigating to [^${footnoteRef}]:`, e); new Notice(`Error navigating to reference [^${footnoteRef}].`); }
+                        } else {
+                            // Provide feedback if navigation is disabled
+                            if (!isModifierPressed) new Notice("Click navigation is disabled in settings.");
+                        }
+                    }
+                });
             }
+        } catch (error) {
+            console.error(`[LinksCodeBlock] Error processing footnote links for ${currentFilePath}:`, error);
+            el.createEl('div', { text: 'Error rendering footnote links. Check console.', cls: 'cornell-footnote-error' });
         }
+    }
 
-        // Guess from path if not in map
-        let sourceBasename: string | null = null;
-        const derivedFilename = normalizedDerivedPath.split('/').pop() ?? '';
-        const derivedFolder = normalizedDerivedPath.substring(0, normalizedDerivedPath.lastIndexOf('/')) || '/';
+    /** Quiz rendering of the links code block: masked definitions, click to reveal, self-graded for the session */
+    private renderRecallQuiz(el: HTMLElement, quiz: RecallQuizSession, refs: string[], footnotesMap: Map<string, string>, sourceContent: string): void {
+        el.empty();
+        const container = el.createDiv({ cls: 'cornell-recall-quiz-container' });
+        const scoreEl = container.createDiv({ cls: 'cornell-recall-quiz-score' });
+
+        const updateScore = () => {
+            const answered = refs.filter(ref => quiz.results.has(ref)).length;
+            const remembered = refs.filter(ref => quiz.results.get(ref) === 'remembered').length;
+            scoreEl.empty();
+            if (answered < refs.length) {
+                scoreEl.setText(`Recall quiz: ${answered} / ${refs.length} answered, ${remembered} remembered.`);
+                return;
+            }
+            scoreEl.setText(`Quiz complete: ${remembered} / ${refs.length} remembered. `);
+            const restartButton = scoreEl.createEl('button', { text: 'Restart' });
+            this.registerDomEvent(restartButton, 'click', () => {
+                quiz.revealed.clear();
+                quiz.results.clear();
+                this.renderRecallQuiz(el, quiz, refs, footnotesMap, sourceContent);
+            });
+        };
+
+        for (const ref of refs) {
+            const item = container.createDiv({ cls: 'cornell-recall-quiz-item' });
+            // Styled cues ask their question, term or keyword; a keyword is answered by the Source sentence
+            const styledCue = parseStyledCue(footnotesMap.get(ref) ?? '');
+            const sentence = extractReferenceSentence(sourceContent, ref) ?? '(no reference in the Source note)';
+            const question = item.createDiv({ cls: 'cornell-recall-quiz-question' });
+            question.createSpan({ text: `[^${ref}]`, cls: 'cornell-recall-quiz-ref' });
+            question.createSpan({ text: styledCue.prompt ?? sentence });
+            const answer = item.createDiv({ cls: 'cornell-recall-quiz-answer' });
+
+            const renderItem = () => {
+                const result = quiz.results.get(ref);
+                item.toggleClass('is-remembered', result === 'remembered');
+                item.toggleClass('is-forgot', result === 'forgot');
+                answer.empty();
+                if (!quiz.revealed.has(ref)) {
+                    answer.addClass('is-masked');
+                    answer.setText('Click to reveal');
+                    return;
+                }
+                answer.removeClass('is-masked');
+                answer.createDiv({ text: styledCue.answer ?? sentence });
+                if (result) {
+                    answer.createDiv({ cls: 'cornell-recall-quiz-result', text: result === 'remembered' ? 'Remembered' : 'Forgot' });
+                    return;
+                }
+                const actions = answer.createDiv({ cls: 'cornell-recall-quiz-actions' });
+                const mark = (value: 'remembered' | 'forgot') => {
+                    quiz.results.set(ref, value);
+                    renderItem();
+                    updateScore();
+                    if (refs.every(r => quiz.results.has(r))) {
+                        const remembered = refs.filter(r => quiz.results.get(r) === 'remembered').length;
+                        new Notice(`Recall quiz complete: ${remembered} / ${refs.length} remembered.`);
+                    }
+                };
+                this.registerDomEvent(actions.createEl('button', { text: 'Remembered', cls: 'mod-cta' }), 'click', () => mark('remembered'));
+                this.registerDomEvent(actions.createEl('button', { text: 'Forgot' }), 'click', () => mark('forgot'));
+            };
 
-        if (this.isCueNote(normalizedDerivedPath)) {
-            sourceBasename = derivedFilename.replace(new RegExp(this.escapeRegex(INTERNAL_SETTINGS.cueNoteSuffix + '.md')+'$'), '');
-        } else if (this.isSummaryNote(normalizedDerivedPath)) {
-            sourceBasename = derivedFilename.replace(new RegExp(this.escapeRegex(INTERNAL_SETTINGS.summaryNoteSuffix + '.md')+'$'), '');
+            this.registerDomEvent(item, 'click', (event: MouseEvent) => {
+                if (quiz.revealed.has(ref) || (event.target as HTMLElement).closest('button')) return;
+                quiz.revealed.add(ref);
+                renderItem();
+            });
+            renderItem();
         }
+        updateScore();
+    }
 
-        if (!sourceBasename) return null;
+} // --- End of Plugin Class ---
 
-        const sourceFilename = `${sourceBasename}.md`;
-        const potentialPath = normalizePath(`${derivedFolder}/${sourceFilename}`); // Assume same folder primarily
-        const file = this.app.vault.getAbstractFileByPath(potentialPath);
 
-        if (file instanceof TFile && file.basename === sourceBasename) {
-            console.log(`[Util] Guessed Source note for ${derivedPath} -> ${file.path}`);
-            // Update map if found via guessing
-            this.getOrCreateNoteInfo(file); // Creates entry if missing
-            const info = this.noteInfoMap.get(file.path)!;
-             if (this.isCueNote(normalizedDerivedPath) && info.cuePath !== normalizedDerivedPath) {
-                info.cuePath = normalizedDerivedPath;
-                this.noteInfoMap.set(file.path, info);
-                this.saveData().catch(e => console.error("[Util] Error saving NoteInfoMap after guessing source:", e));
-             }
-             if (this.isSummaryNote(normalizedDerivedPath) && info.summaryPath !== normalizedDerivedPath) {
-                 info.summaryPath = normalizedDerivedPath;
-                 this.noteInfoMap.set(file.path, info);
-                 this.saveData().catch(e => console.error("[Util] Error saving NoteInfoMap after guessing source:", e));
-             }
-            return file;
+// --- Conflict Resolution Modal ---
+/** Lets the user pick Source, Cue or a hand-edited version for each definition changed on both sides */
+class DefinitionConflictModal extends Modal {
+    private conflicts: DefinitionConflict[];
+    private sourceName: string;
+    private resolutions = new Map<string, string | null>();
+    private resolvePromise: ((value: Map<string, string | null> | null) => void) | null = null;
+    private applyButton: HTMLButtonElement | null = null;
+
+    constructor(app: App, sourceName: string, conflicts: DefinitionConflict[]) {
+        super(app);
+        this.sourceName = sourceName;
+        this.conflicts = conflicts;
+    }
+
+    /** Opens the modal. Resolves with the chosen definition per ref (null = delete), or null if cancelled. */
+    openAndWait(): Promise<Map<string, string | null> | null> {
+        return new Promise(resolve => {
+            this.resolvePromise = resolve;
+            this.open();
+        });
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        this.titleEl.setText(`Cornell: Sync conflict in ${this.sourceName}`);
+        contentEl.addClass('cornell-conflict-modal');
+        contentEl.createEl('p', { text: 'These definitions were changed in both the Source and the Cue note since the last sync. Choose the version to keep for each one.' });
+
+        for (const conflict of this.conflicts) {
+            const section = contentEl.createDiv({ cls: 'cornell-conflict' });
+            section.createEl('h4', { text: `[^${conflict.ref}]` });
+            const renderVersion = (label: string, definition: string | null) => {
+                const versionEl = section.createDiv({ cls: 'cornell-conflict-version' });
+                versionEl.createEl('strong', { text: label });
+                versionEl.createEl('pre', { text: definition ?? '(deleted)' });
+            };
+            renderVersion('Source', conflict.source);
+            renderVersion('Cue', conflict.cue);
+
+            const statusEl = section.createDiv({ cls: 'cornell-conflict-status', text: 'Not resolved yet.' });
+            const editor = section.createEl('textarea', { cls: 'cornell-conflict-editor' });
+            editor.value = conflict.cue ?? conflict.source ?? '';
+            editor.rows = 4;
+            editor.hide();
+            editor.addEventListener('input', () => {
+                this.resolutions.set(conflict.ref, editor.value.trim() === '' ? null : editor.value.trim());
+                this.updateApplyButton();
+            });
+
+            const choose = (definition: string | null, label: string) => {
+                editor.hide();
+                this.resolutions.set(conflict.ref, definition);
+                statusEl.setText(label);
+                this.updateApplyButton();
+            };
+            new Setting(section)
+                .addButton(button => button
+                    .setButtonText('Keep source')
+                    .onClick(() => choose(conflict.source, 'Keeping the Source version.')))
+                .addButton(button => button
+                    .setButtonText('Keep cue')
+                    .onClick(() => choose(conflict.cue, 'Keeping the Cue version.')))
+                .addButton(button => button
+                    .setButtonText('Edit merged')
+                    .onClick(() => {
+                        editor.show();
+                        editor.focus();
+                        this.resolutions.set(conflict.ref, editor.value.trim() === '' ? null : editor.value.trim());
+                        statusEl.setText('Using the edited version below (empty = delete).');
+                        this.updateApplyButton();
+                    }));
         }
 
-        // console.warn(`[Util] Source note file not found for derived path: ${derivedPath} (tried path: ${potentialPath})`);
-		return null;
-	}
+        new Setting(contentEl)
+            .addButton(button => {
+                this.applyButton = button.buttonEl;
+                button.setButtonText('Apply').setCta().onClick(() => {
+                    const resolve = this.resolvePromise;
+                    this.resolvePromise = null;
+                    resolve?.(this.resolutions);
+                    this.close();
+                });
+            })
+            .addButton(button => button
+                .setButtonText('Cancel sync')
+                .onClick(() => this.close()));
+        this.updateApplyButton();
+    }
 
-    /** Ensure a folder exists, creating it if necessary */
-    async ensureFolderExists(folderPath: string): Promise<void> {
-        const normalizedPath = normalizePath(folderPath);
-        if (!normalizedPath || normalizedPath === '/') return; // No need to create root
-        try {
-            const folder = this.app.vault.getAbstractFileByPath(normalizedPath);
-            if (!folder) {
-                console.log(`[Util] Creating folder: ${normalizedPath}`);
-                await this.app.vault.createFolder(normalizedPath);
-            } else if (!(folder instanceof TFolder)) {
-                throw new Error(`Path exists but is not a folder: ${normalizedPath}`);
-            }
-        } catch (e: any) {
-            // Ignore "Folder already exists" errors, rethrow others
-            if (!(e?.message?.includes('already exists'))) {
-                console.error(`[Util] Error ensuring folder exists '${normalizedPath}':`, e);
-                throw e;
-            }
+    onClose() {
+        this.contentEl.empty();
+        // Closing without applying cancels the sync
+        this.resolvePromise?.(null);
+        this.resolvePromise = null;
+    }
+
+    private updateApplyButton() {
+        if (this.applyButton) {
+            this.applyButton.disabled = this.resolutions.size < this.conflicts.length;
         }
     }
+}
+
+
+// --- Cue Review Modal ---
+/** Flashcard review: shows the Source context of a cue, reveals its definition and records a grade */
+class CueReviewModal extends Modal {
+    private dueCues: DueCue[];
+    private onGrade: (dueCue: DueCue, grade: ReviewGrade) => Promise<void>;
+    private index = 0;
+    private revealed = false;
+    private grading = false; // Set while a grade is being saved, so key repeats and double clicks are ignored
+    private grades: ReviewGrade[] = [];
+
+    private static readonly GRADE_BUTTONS: { label: string, grade: ReviewGrade }[] = [
+        { label: 'Again', grade: 1 },
+        { label: 'Hard', grade: 3 },
+        { label: 'Good', grade: 4 },
+        { label: 'Easy', grade: 5 },
+    ];
+
+    constructor(app: App, dueCues: DueCue[], onGrade: (dueCue: DueCue, grade: ReviewGrade) => Promise<void>) {
+        super(app);
+        this.dueCues = dueCues;
+        this.onGrade = onGrade;
+    }
+
+    onOpen() {
+        this.titleEl.setText('Cornell: Review due cues');
+        this.contentEl.addClass('cornell-review-modal');
+        // Space reveals, 1-4 grade
+        this.scope.register([], ' ', () => { if (!this.revealed) this.reveal(); return false; });
+        CueReviewModal.GRADE_BUTTONS.forEach((button, i) => {
+            this.scope.register([], String(i + 1), () => { if (this.revealed) void this.grade(button.grade); return false; });
+        });
+        this.render();
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
 
-	/** Escape regex special characters */
-	escapeRegex = (s: string): string => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    private render() {
+        const { contentEl } = this;
+        contentEl.empty();
+        const dueCue = this.dueCues[this.index];
+        if (!dueCue) {
+            const remembered = this.grades.filter(grade => grade >= 3).length;
+            contentEl.createEl('p', { text: `Session complete: ${this.grades.length} cue(s) reviewed, ${remembered} remembered.` });
+            new Setting(contentEl).addButton(button => button.setButtonText('Close').setCta().onClick(() => this.close()));
+            return;
+        }
 
-    /** Open a file in a specific leaf */
-    private async openFileInLeaf(leaf: WorkspaceLeaf, file: TFile, active: boolean): Promise<void> {
-        await leaf.openFile(file, { active });
-        // console.log(`[Util] Opened ${file.path} in leaf ${leaf.id}, active: ${active}`);
-    }
+        contentEl.createDiv({ cls: 'cornell-review-progress', text: `${this.index + 1} / ${this.dueCues.length} · ${dueCue.sourceFile.basename}` });
+        // Styled cues show their question, term or keyword and keep the Source context hidden until revealed
+        const styledCue = parseStyledCue(dueCue.card.definition);
+        if (styledCue.prompt !== null) {
+            contentEl.createDiv({ cls: 'cornell-review-prompt', text: styledCue.prompt });
+        }
+        const contextEl = contentEl.createDiv({ cls: 'cornell-review-context' });
+        if (dueCue.context) {
+            contextEl.appendText(dueCue.context.before);
+            contextEl.createSpan({ cls: 'cornell-review-ref', text: `[^${dueCue.card.ref}]` });
+            contextEl.appendText(dueCue.context.after);
+        } else {
+            contextEl.setText(`[^${dueCue.card.ref}] (no reference found in the Source note)`);
+        }
 
+        const definitionEl = styledCue.answer !== null ? contentEl.createDiv({ cls: 'cornell-review-definition', text: styledCue.answer }) : null;
+        const buttons = new Setting(contentEl);
+        if (!this.revealed) {
+            definitionEl?.hide();
+            if (styledCue.prompt !== null) contextEl.hide();
+            buttons.addButton(button => button.setButtonText(styledCue.prompt !== null ? 'Show answer (Space)' : 'Show definition (Space)').setCta().onClick(() => this.reveal()));
+        } else {
+            CueReviewModal.GRADE_BUTTONS.forEach((gradeButton, i) => {
+                buttons.addButton(button => button
+                    .setButtonText(`${gradeButton.label} (${i + 1})`)
+                    .onClick(() => this.grade(gradeButton.grade)));
+            });
+        }
+    }
 
-    // --- File Creation Helpers (for Arrange Command, etc.) ---
+    private reveal() {
+        this.revealed = true;
+        this.render();
+    }
 
-    /** Ensure Cue note exists, create with basic content if not */
-    async ensureCueNoteExists(cuePath: string, sourceFile: TFile): Promise<TFile | null> {
+    private async grade(grade: ReviewGrade) {
+        const dueCue = this.dueCues[this.index];
+        if (!dueCue || this.grading) return;
+        this.grading = true;
         try {
-            let abstractFile = this.app.vault.getAbstractFileByPath(cuePath);
-            if (abstractFile instanceof TFile) return abstractFile;
-            if (abstractFile) throw new Error(`Path exists but is not a file: ${cuePath}`);
-
-            console.log(`[Util] Cue note does not exist, creating: ${cuePath}`);
-            const parentFolder = cuePath.substring(0, cuePath.lastIndexOf('/')) || '/';
-            await this.ensureFolderExists(parentFolder);
+            await this.onGrade(dueCue, grade);
+        } catch (error) {
+            console.error(`[Review] Failed to record grade for [^${dueCue.card.ref}]:`, error);
+            new Notice('Could not save the review result. See console.');
+        } finally {
+            this.grading = false;
+        }
+        this.grades.push(grade);
+        this.index++;
+        this.revealed = false;
+        this.render();
+    }
+}
 
-            // Initial content: Link to source + placeholder for sync
-            const initialContent = this.generateCueContent(null, sourceFile, new Map()); // Generate with empty footnotes
 
-            abstractFile = await this.app.vault.create(cuePath, initialContent);
-            if (!(abstractFile instanceof TFile)) throw new Error(`Failed to create cue note file: ${cuePath}`);
+// --- Question Cue Modal ---
+/** Asks for a question per selection for Q&A cues; the selection is pre-filled as the answer */
+class QuestionCueModal extends Modal {
+    private pairs: { question: string, answer: string }[];
+    private resolvePromise: ((value: { question: string, answer: string }[] | null) => void) | null = null;
+    private createButton: HTMLButtonElement | null = null;
 
-            // Update NoteInfoMap immediately
-            const info = this.getOrCreateNoteInfo(sourceFile);
-            info.cuePath = abstractFile.path;
-            this.noteInfoMap.set(sourceFile.path, info);
-            await this.saveData(); // Save map after creation
+    constructor(app: App, answers: string[]) {
+        super(app);
+        this.pairs = answers.map(answer => ({ question: '', answer }));
+    }
 
-            return abstractFile;
-        } catch (e) {
-            console.error(`[Util] Error ensuring Cue note exists at '${cuePath}':`, e);
-            new Notice(`Error creating Cue note at ${cuePath}. See console.`);
-            return null;
-        }
+    /** Opens the modal. Resolves with a question and answer per selection, or null if cancelled. */
+    openAndWait(): Promise<{ question: string, answer: string }[] | null> {
+        return new Promise(resolve => {
+            this.resolvePromise = resolve;
+            this.open();
+        });
     }
 
-	/** Ensure Summary note exists, create with basic content if not */
-	async ensureSummaryNoteExists(summaryPath: string, sourceFile: TFile, cueFile: TFile): Promise<TFile | null> {
-        try {
-            let abstractFile = this.app.vault.getAbstractFileByPath(summaryPath);
-            if (abstractFile instanceof TFile) return abstractFile;
-            if (abstractFile) throw new Error(`Path exists but is not a file: ${summaryPath}`);
+    onOpen() {
+        const { contentEl } = this;
+        this.titleEl.setText(this.pairs.length === 1 ? 'Cornell: Question for this cue' : `Cornell: Questions for ${this.pairs.length} cues`);
+        contentEl.addClass('cornell-question-cue-modal');
+
+        this.pairs.forEach((pair, i) => {
+            const section = contentEl.createDiv({ cls: 'cornell-question-cue' });
+            new Setting(section)
+                .setName(this.pairs.length === 1 ? 'Question' : `Question ${i + 1}`)
+                .addText(text => {
+                    text.setPlaceholder('What is …?').onChange(value => {
+                        pair.question = value.trim();
+                        this.updateCreateButton();
+                    });
+                    if (i === 0) window.setTimeout(() => text.inputEl.focus(), 0);
+                });
+            new Setting(section)
+                .setName('Answer')
+                .addTextArea(text => text
+                    .setValue(pair.answer)
+                    .onChange(value => {
+                        pair.answer = value.trim().replace(/\s+/g, ' ');
+                        this.updateCreateButton();
+                    }));
+        });
 
-            console.log(`[Util] Summary note does not exist, creating: ${summaryPath}`);
-            const parentFolder = summaryPath.substring(0, summaryPath.lastIndexOf('/')) || '/';
-            await this.ensureFolderExists(parentFolder);
+        new Setting(contentEl)
+            .addButton(button => {
+                this.createButton = button.buttonEl;
+                button.setButtonText('Create').setCta().onClick(() => this.submit());
+            })
+            .addButton(button => button
+                .setButtonText('Cancel')
+                .onClick(() => this.close()));
+        // Enter in a question field creates the cues once every question is filled in
+        this.scope.register([], 'Enter', (event: KeyboardEvent) => {
+            if ((event.target as HTMLElement).tagName === 'TEXTAREA') return true;
+            this.submit();
+            return false;
+        });
+        this.updateCreateButton();
+    }
 
-            const sourceLink = this.settings.linkToSourceText.replace('{{sourceNote}}', sourceFile.basename);
-            const cueLink = this.settings.linkToCueText.replace('{{cueNote}}', cueFile.basename);
-            const initialContent = `${sourceLink}\n${cueLink}\n\n## SUMMARY\n\n`; // Use correct section header
+    onClose() {
+        this.contentEl.empty();
+        this.resolvePromise?.(null);
+        this.resolvePromise = null;
+    }
 
-            abstractFile = await this.app.vault.create(summaryPath, initialContent);
-            if (!(abstractFile instanceof TFile)) throw new Error(`Failed to create summary note file: ${summaryPath}`);
+    private isComplete(): boolean {
+        return this.pairs.every(pair => pair.question.length > 0 && pair.answer.length > 0);
+    }
 
-            // Update NoteInfoMap immediately
-            const info = this.getOrCreateNoteInfo(sourceFile);
-            info.summaryPath = abstractFile.path;
-            this.noteInfoMap.set(sourceFile.path, info);
-            await this.saveData();
+    private submit() {
+        if (!this.isComplete()) return;
+        const resolve = this.resolvePromise;
+        this.resolvePromise = null;
+        resolve?.(this.pairs);
+        this.close();
+    }
 
-            return abstractFile;
-        } catch (e) {
-            console.error(`[Util] Error ensuring Summary note exists at '${summaryPath}':`, e);
-             new Notice(`Error creating Summary note at ${summaryPath}. See console.`);
-            return null;
+    private updateCreateButton() {
+        if (this.createButton) {
+            this.createButton.disabled = !this.isComplete();
         }
     }
+}
 
-    // --- Arrange View Command Logic (From main.ts その2, adapted for Cornell layout) ---
-    /** Arrange Source, Cue, and Summary notes in the Cornell layout */
-    async arrangeCornellNotesView(sourceFile: TFile, sourceLeaf: WorkspaceLeaf): Promise<void> {
-        try {
-            console.log(`[Arrange] Starting arrange command for ${sourceFile.path}`);
-            // Use 'show-all' mode to arrange all three panes
-            await this.activateMode('show-all', sourceFile);
-            console.log(`[Arrange] Finished arranging view for ${sourceFile.basename} (using Show All mode).`);
-            new Notice(`Arranged view for ${sourceFile.basename} (Cue + Source + Summary). Use Alt+1/2/3 to switch modes.`);
 
-        } catch (e) {
-            console.error(`[Arrange] Error arranging Cornell notes view for ${sourceFile.basename}:`, e);
-            new Notice(`Error arranging view for ${sourceFile.basename}. See console.`);
-        }
+// --- Quick Cue Modal ---
+/** Asks for the text of a new cue, suggesting existing cues so one can be reused instead of duplicated */
+class QuickCueModal extends Modal {
+    private sourceName: string;
+    private definitions: Map<string, string>;
+    private attachAt: QuickCueAttachPosition;
+    private query = '';
+    private matches: [string, string][] = [];
+    private selectedRef: string | null = null;
+    private resolvePromise: ((value: QuickCueResult | null) => void) | null = null;
+    private suggestionsEl: HTMLElement | null = null;
+    private addButton: HTMLButtonElement | null = null;
+    private reuseButton: HTMLButtonElement | null = null;
+
+    private static readonly MAX_SUGGESTIONS = 8;
+    private static readonly ATTACH_LABELS: { [key in QuickCueAttachPosition]: string } = {
+        'cursor': 'at the cursor',
+        'line-end': 'at the end of the current line',
+        'paragraph-end': 'at the end of the current paragraph',
+    };
+
+    constructor(app: App, sourceName: string, definitions: Map<string, string>, attachAt: QuickCueAttachPosition) {
+        super(app);
+        this.sourceName = sourceName;
+        this.definitions = definitions;
+        this.attachAt = attachAt;
     }
 
-    // --- Navigation & Highlighting (From main.ts その2, adapted) ---
+    /** Opens the modal. Resolves with a new cue text or an existing ref to reuse, or null if cancelled. */
+    openAndWait(): Promise<QuickCueResult | null> {
+        return new Promise(resolve => {
+            this.resolvePromise = resolve;
+            this.open();
+        });
+    }
 
-	/** Navigate from Cue button/def to first reference in Source */
-	async navigateToSourceReference(ref: string, cuePath: string): Promise<void> {
-        console.log(`[Navigate] Request to navigate to ref [^${ref}] from ${cuePath}`);
-        const sourceFile = this.getSourceNoteFileFromDerived(cuePath);
-        if (!sourceFile) {
-            new Notice(`Source note not found for "${cuePath}". Cannot navigate.`);
-            throw new Error(`Source note not found for cue: ${cuePath}`);
-        }
+    onOpen() {
+        const { contentEl } = this;
+        this.titleEl.setText(`Cornell: Quick cue in ${this.sourceName}`);
+        contentEl.addClass('cornell-quick-cue-modal');
+        contentEl.createEl('p', { text: `The reference is inserted ${QuickCueModal.ATTACH_LABELS[this.attachAt]} in the Source note.`, cls: 'setting-item-description' });
+
+        const input = contentEl.createEl('input', { type: 'text', cls: 'cornell-quick-cue-input', attr: { placeholder: 'Cue text…' } });
+        input.addEventListener('input', () => {
+            this.query = input.value;
+            this.selectedRef = null;
+            this.updateSuggestions();
+        });
+        this.suggestionsEl = contentEl.createDiv({ cls: 'cornell-quick-cue-suggestions' });
+
+        new Setting(contentEl)
+            .addButton(button => {
+                this.addButton = button.buttonEl;
+                button.setButtonText('Add new cue').setCta().onClick(() => this.submit(false));
+            })
+            .addButton(button => {
+                this.reuseButton = button.buttonEl;
+                button.setButtonText('Reuse selected cue').onClick(() => this.submit(true));
+            })
+            .addButton(button => button
+                .setButtonText('Cancel')
+                .onClick(() => this.close()));
+
+        // Up/Down pick an existing cue, Enter reuses it (or adds the typed text as a new cue)
+        this.scope.register([], 'ArrowDown', () => { this.moveSelection(1); return false; });
+        this.scope.register([], 'ArrowUp', () => { this.moveSelection(-1); return false; });
+        this.scope.register([], 'Enter', () => { this.submit(this.selectedRef !== null); return false; });
+
+        this.updateSuggestions();
+        window.setTimeout(() => input.focus(), 0);
+    }
 
-        // Find or open the Source note's leaf (prefer existing Cornell center pane)
-        let sourceLeaf = (this.activeCornellLeaves.center?.view instanceof MarkdownView && this.activeCornellLeaves.center.view.file === sourceFile) ? this.activeCornellLeaves.center : this.findExistingLeafForFile(sourceFile);
+    onClose() {
+        this.contentEl.empty();
+        this.resolvePromise?.(null);
+        this.resolvePromise = null;
+    }
 
-        if (!sourceLeaf || !sourceLeaf.parent) {
-            new Notice(`Source note "${sourceFile.basename}" is not open. Opening...`);
-            try {
-                // Get a leaf, prefer reusing empty ones
-                sourceLeaf = this.app.workspace.getLeaf(false) ?? this.app.workspace.getLeaf(true);
-                if (!sourceLeaf) throw new Error("Could not get a leaf to open the source note.");
-                await this.openFileInLeaf(sourceLeaf, sourceFile, true); // Open and activate
-                this.app.workspace.setActiveLeaf(sourceLeaf, {focus: true});
-                await sleep(INTERNAL_SETTINGS.uiUpdateDelay * 2); // Wait longer for opening
-                if (!(sourceLeaf?.view instanceof MarkdownView)) throw new Error("Opened file is not a Markdown view.");
-                console.log(`[Navigate] Opened Source note ${sourceFile.path} in new leaf.`);
-            } catch (e) {
-                console.error(`[Navigate] Error auto-opening source note ${sourceFile.path}:`, e);
-                new Notice(`Failed to open source note "${sourceFile.basename}".`);
-                throw e;
-            }
-        } else {
-            // If leaf exists but isn't active, activate it
-            if (this.app.workspace.activeLeaf !== sourceLeaf) {
-                 console.log(`[Navigate] Activating existing leaf for Source note ${sourceFile.path}`);
-                this.app.workspace.setActiveLeaf(sourceLeaf, { focus: true });
-                await sleep(INTERNAL_SETTINGS.uiUpdateDelay / 2);
-            }
-        }
+    private updateSuggestions() {
+        const query = this.query.trim().replace(/\s+/g, ' ');
+        const search = query ? prepareFuzzySearch(query) : null;
+        this.matches = Array.from(this.definitions.entries())
+            .map(([ref, definition]) => ({ ref, definition, score: search ? search(definition)?.score ?? null : 0 }))
+            .filter((match): match is { ref: string, definition: string, score: number } => match.score !== null)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, QuickCueModal.MAX_SUGGESTIONS)
+            .map(match => [match.ref, match.definition]);
+        this.renderSuggestions();
+    }
 
-        // Ensure we have a valid view and editor
-        if (!sourceLeaf || !(sourceLeaf.view instanceof MarkdownView)) {
-            new Notice(`Cannot access source view for "${sourceFile.basename}".`);
-            throw new Error("Source view not accessible after opening/finding leaf.");
+    private renderSuggestions() {
+        const suggestionsEl = this.suggestionsEl;
+        if (!suggestionsEl) return;
+        suggestionsEl.empty();
+        const normalized = this.query.trim().replace(/\s+/g, ' ').toLowerCase();
+        const duplicate = Array.from(this.definitions.entries()).find(([, definition]) => definition.trim().replace(/\s+/g, ' ').toLowerCase() === normalized);
+        if (normalized && duplicate) {
+            suggestionsEl.createDiv({ cls: 'cornell-quick-cue-duplicate', text: `[^${duplicate[0]}] already has this text. Reuse it instead of adding a duplicate?` });
+        }
+        if (this.matches.length > 0) {
+            suggestionsEl.createDiv({ cls: 'setting-item-description', text: 'Existing cues:' });
+        }
+        for (const [ref, definition] of this.matches) {
+            const item = suggestionsEl.createDiv({ cls: 'cornell-quick-cue-suggestion' });
+            item.toggleClass('is-selected', ref === this.selectedRef);
+            item.createSpan({ cls: 'cornell-quick-cue-ref', text: `[^${ref}]` });
+            item.appendText(` ${definition}`);
+            item.addEventListener('click', () => {
+                this.selectedRef = this.selectedRef === ref ? null : ref;
+                this.renderSuggestions();
+            });
         }
-        const sourceView = sourceLeaf.view;
-        // Ensure source mode for reliable searching/scrolling (can switch back after?)
-        // const originalMode = sourceView.getMode();
-        // await this.setMarkdownViewMode(sourceView, 'source');
 
-        const sourceEditor = sourceView.editor;
-        if (!sourceEditor) {
-             new Notice(`Cannot access source editor for "${sourceFile.basename}".`);
-             throw new Error("Source editor not available.");
+        if (this.addButton) this.addButton.disabled = normalized.length === 0;
+        if (this.reuseButton) {
+            this.reuseButton.disabled = this.selectedRef === null;
+            this.reuseButton.setText(this.selectedRef ? `Reuse [^${this.selectedRef}]` : 'Reuse selected cue');
         }
-        const sourceContent = sourceEditor.getValue();
-        const refRegex = new RegExp(`\\[\\^${this.escapeRegex(ref)}\\](?!:)`);
-        const match = sourceContent.match(refRegex);
+    }
 
-        if (match?.index !== undefined) {
-            const matchIndex = match.index;
-            const startPos = sourceEditor.offsetToPos(matchIndex);
-            const endPos = sourceEditor.offsetToPos(matchIndex + match[0].length);
-             console.log(`[Navigate] Found ref [^${ref}] at line ${startPos.line + 1}, char ${startPos.ch}`);
-            // Scroll and highlight
-            sourceEditor.scrollIntoView({ from: startPos, to: endPos }, true);
-            this.clearActiveHighlight(); // Clear previous highlight timer
-            sourceEditor.setSelection(startPos, endPos); // Select to highlight
-            // Set timer to remove selection highlight
-            this.activeHighlightTimeout = setTimeout(() => {
-                const currentSelection = sourceEditor.listSelections()[0];
-                // Only clear selection if it's still the one we set
-                if (currentSelection && this.app.workspace.activeEditor?.editor === sourceEditor &&
-                    this.arePositionsEqual(currentSelection.anchor, startPos) &&
-                    this.arePositionsEqual(currentSelection.head, endPos)) {
-                    sourceEditor.setCursor(startPos); // Move cursor to start of ref
-                }
-                this.activeHighlightTimeout = null;
-            }, INTERNAL_SETTINGS.highlightDuration);
+    private moveSelection(delta: number) {
+        if (this.matches.length === 0) return;
+        const index = this.matches.findIndex(([ref]) => ref === this.selectedRef);
+        const next = index === -1 ? (delta > 0 ? 0 : this.matches.length - 1) : (index + delta + this.matches.length) % this.matches.length;
+        this.selectedRef = this.matches[next][0];
+        this.renderSuggestions();
+    }
+
+    private submit(reuse: boolean) {
+        const definition = this.query.trim().replace(/\s+/g, ' ');
+        let result: QuickCueResult;
+        if (reuse && this.selectedRef) {
+            result = { kind: 'reuse', ref: this.selectedRef };
+        } else if (definition) {
+            result = { kind: 'new', definition };
         } else {
-             console.log(`[Navigate] Ref [^${ref}] not found in ${sourceFile.path}.`);
-            new Notice(`Reference [^${ref}] not found in "${sourceFile.basename}".`);
-            // Scroll to top as fallback
-            sourceEditor.setCursor({line: 0, ch: 0});
-            sourceEditor.scrollTo(0, 0);
+            return;
         }
-        // Focus the editor
-        sourceEditor.focus();
-        // await this.setMarkdownViewMode(sourceView, originalMode); // Restore original mode? (might cause flicker)
+        const resolve = this.resolvePromise;
+        this.resolvePromise = null;
+        resolve?.(result);
+        this.close();
     }
+}
 
-    /** Highlight first reference in Source without stealing focus */
-    async highlightFirstSourceReference(ref: string, cuePath: string): Promise<void> {
-        console.log(`[Highlight] Request to highlight ref [^${ref}] from ${cuePath}`);
-        const sourceFile = this.getSourceNoteFileFromDerived(cuePath);
-        if (!sourceFile) {
-            new Notice(`Source note not found for "${cuePath}". Cannot highlight.`);
-            throw new Error(`Source note not found for cue: ${cuePath}`);
-        }
 
-        // Find Source leaf (prefer existing Cornell center pane)
-        let sourceLeaf = (this.activeCornellLeaves.center?.view instanceof MarkdownView && this.activeCornellLeaves.center.view.file === sourceFile) ? this.activeCornellLeaves.center : this.findExistingLeafForFile(sourceFile);
+// --- Cue Suggestions Modal ---
+/** Checklist of suggested cues; sentences start unchecked since there are usually many of them */
+class CueSuggestionsModal extends Modal {
+    private sourceName: string;
+    private suggestions: CueSuggestion[];
+    private checked: Set<CueSuggestion>;
+    private resolvePromise: ((value: CueSuggestion[] | null) => void) | null = null;
+    private createButton: HTMLButtonElement | null = null;
+    private checkboxes: HTMLInputElement[] = [];
+
+    constructor(app: App, sourceName: string, suggestions: CueSuggestion[]) {
+        super(app);
+        this.sourceName = sourceName;
+        this.suggestions = suggestions;
+        this.checked = new Set(suggestions.filter(suggestion => suggestion.kind !== 'sentence'));
+    }
 
-        if (!sourceLeaf || !sourceLeaf.parent) {
-            // If not open, open it in the background without activating
-            new Notice(`Source note "${sourceFile.basename}" is not open. Opening in background...`);
-            try {
-                sourceLeaf = this.app.workspace.getLeaf('tab'); // New tab leaf
-                await this.openFileInLeaf(sourceLeaf, sourceFile, false); // Open without activating
-                await sleep(INTERNAL_SETTINGS.uiUpdateDelay);
-                if (!(sourceLeaf?.view instanceof MarkdownView)) throw new Error("Opened file is not a Markdown view.");
-                 console.log(`[Highlight] Opened Source note ${sourceFile.path} in background leaf.`);
-            } catch (e) {
-                console.error(`[Highlight] Error opening source note ${sourceFile.path} in background:`, e);
-                new Notice(`Failed to open source note "${sourceFile.basename}" for highlighting.`);
-                throw e;
-            }
-        } else {
-             // console.log(`[Highlight] Found existing leaf for Source note ${sourceFile.path}`);
-        }
+    /** Opens the modal. Resolves with the accepted suggestions, or null if cancelled. */
+    openAndWait(): Promise<CueSuggestion[] | null> {
+        return new Promise(resolve => {
+            this.resolvePromise = resolve;
+            this.open();
+        });
+    }
 
-        if (!sourceLeaf || !(sourceLeaf.view instanceof MarkdownView)) {
-            new Notice(`Cannot access source view for "${sourceFile.basename}".`);
-            throw new Error("Source view not accessible.");
+    onOpen() {
+        const { contentEl } = this;
+        this.titleEl.setText(`Cornell: Suggested cues for ${this.sourceName}`);
+        contentEl.addClass('cornell-cue-suggestions-modal');
+
+        new Setting(contentEl)
+            .setDesc(`${this.suggestions.length} candidate(s) without a cue. References are inserted right after each passage.`)
+            .addButton(button => button.setButtonText('Select all').onClick(() => this.setAll(true)))
+            .addButton(button => button.setButtonText('Select none').onClick(() => this.setAll(false)));
+
+        const list = contentEl.createDiv({ cls: 'cornell-cue-suggestions' });
+        for (const suggestion of this.suggestions) {
+            const item = list.createEl('label', { cls: 'cornell-cue-suggestion' });
+            const checkbox = item.createEl('input', { type: 'checkbox' });
+            checkbox.checked = this.checked.has(suggestion);
+            checkbox.addEventListener('change', () => {
+                if (checkbox.checked) this.checked.add(suggestion); else this.checked.delete(suggestion);
+                this.updateCreateButton();
+            });
+            this.checkboxes.push(checkbox);
+            item.createSpan({ cls: 'cornell-cue-suggestion-kind', text: CUE_SUGGESTION_KIND_LABELS[suggestion.kind] });
+            const cue = parseStyledCue(suggestion.definition);
+            item.createSpan({ text: cue.style === 'term' ? `${cue.prompt}: ${cue.answer}` : cue.prompt ?? cue.answer ?? '' });
         }
-        const sourceView = sourceLeaf.view;
-        // const originalMode = sourceView.getMode();
-        // await this.setMarkdownViewMode(sourceView, 'source'); // Ensure source mode
-        const sourceEditor = sourceView.editor;
-        if (!sourceEditor) {
-            // await this.setMarkdownViewMode(sourceView, originalMode);
-            throw new Error("Source editor not available.");
+
+        new Setting(contentEl)
+            .addButton(button => {
+                this.createButton = button.buttonEl;
+                button.setCta().onClick(() => {
+                    const resolve = this.resolvePromise;
+                    this.resolvePromise = null;
+                    resolve?.(this.suggestions.filter(suggestion => this.checked.has(suggestion)));
+                    this.close();
+                });
+            })
+            .addButton(button => button
+                .setButtonText('Cancel')
+                .onClick(() => this.close()));
+        this.updateCreateButton();
+    }
+
+    onClose() {
+        this.contentEl.empty();
+        this.resolvePromise?.(null);
+        this.resolvePromise = null;
+    }
+
+    private setAll(value: boolean) {
+        this.checked = new Set(value ? this.suggestions : []);
+        this.checkboxes.forEach(checkbox => checkbox.checked = value);
+        this.updateCreateButton();
+    }
+
+    private updateCreateButton() {
+        if (this.createButton) {
+            this.createButton.setText(`Create ${this.checked.size} cue(s)`);
+            this.createButton.disabled = this.checked.size === 0;
         }
+    }
+}
 
-        const sourceContent = sourceEditor.getValue();
-        const refRegex = new RegExp(`\\[\\^${this.escapeRegex(ref)}\\](?!:)`);
-        const match = sourceContent.match(refRegex);
 
-        if (match?.index !== undefined) {
-            const matchIndex = match.index;
-            const startPos = sourceEditor.offsetToPos(matchIndex);
-            const endPos = sourceEditor.offsetToPos(matchIndex + match[0].length);
-             console.log(`[Highlight] Found ref [^${ref}] at line ${startPos.line + 1}, char ${startPos.ch}`);
-            // Scroll into view, but don't focus the leaf/editor
-            sourceEditor.scrollIntoView({ from: startPos, to: endPos }, true);
-            this.clearActiveHighlight();
-            sourceEditor.setSelection(startPos, endPos); // Highlight by selecting
-            this.activeHighlightTimeout = setTimeout(() => {
-                const currentSelection = sourceEditor.listSelections()[0];
-                // Clear selection only if it's still the one we set
-                if (currentSelection && // No need to check activeEditor here
-                    this.arePositionsEqual(currentSelection.anchor, startPos) &&
-                    this.arePositionsEqual(currentSelection.head, endPos)) {
-                    // Try to restore cursor to where it was before highlighting? Complex.
-                    // Just collapse the selection for now.
-                     sourceEditor.setCursor(startPos);
-                }
-                this.activeHighlightTimeout = null;
-            }, INTERNAL_SETTINGS.highlightDuration);
-        } else {
-             console.log(`[Highlight] Ref [^${ref}] not found in ${sourceFile.path}.`);
-            new Notice(`Reference [^${ref}] not found in "${sourceFile.basename}".`);
+// --- Sync Preview Modal ---
+/** Shows what a C->S sync would change in the Source note and asks whether to apply it */
+class SyncPreviewModal extends Modal {
+    private sourceName: string;
+    private changes: SourceSyncChanges;
+    private additionsOnly: boolean;
+    private dontAskForAdditions = false;
+    private resolvePromise: ((value: { action: SyncPreviewAction, dontAskForAdditions: boolean }) => void) | null = null;
+
+    constructor(app: App, sourceName: string, changes: SourceSyncChanges, additionsOnly: boolean) {
+        super(app);
+        this.sourceName = sourceName;
+        this.changes = changes;
+        this.additionsOnly = additionsOnly;
+    }
+
+    /** Opens the modal. Resolves with the chosen action ('cancel' if dismissed). */
+    openAndWait(): Promise<{ action: SyncPreviewAction, dontAskForAdditions: boolean }> {
+        return new Promise(resolve => {
+            this.resolvePromise = resolve;
+            this.open();
+        });
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        this.titleEl.setText(`Cornell: Apply Cue changes to ${this.sourceName}?`);
+        contentEl.addClass('cornell-sync-preview-modal');
+
+        const list = contentEl.createEl('ul');
+        const addItem = (label: string, refs: string[]) => {
+            if (refs.length > 0) list.createEl('li', { text: `${label}: ${refs.map(ref => `[^${ref}]`).join(', ')}` });
+        };
+        addItem('Definitions added', this.changes.addedDefinitions);
+        addItem('Definitions changed', this.changes.changedDefinitions);
+        addItem('Definitions deleted', this.changes.deletedDefinitions);
+        addItem('References removed', this.changes.removedReferences);
+        addItem('Definitions moved', this.changes.movedDefinitions);
+
+        const diffEl = contentEl.createEl('pre', { cls: 'cornell-sync-diff' });
+        this.changes.diff.split('\n').forEach(line => {
+            const cls = line.startsWith('@@') ? 'is-hunk' : line.startsWith('+') ? 'is-added' : line.startsWith('-') ? 'is-removed' : '';
+            diffEl.createDiv({ text: line, cls });
+        });
+
+        if (this.additionsOnly) {
+            new Setting(contentEl)
+                .setName("Don't ask for additions-only changes")
+                .setDesc('Manual C->S syncs that only add definitions are applied without this preview.')
+                .addToggle(toggle => toggle.setValue(false).onChange(value => this.dontAskForAdditions = value));
         }
-        // await this.setMarkdownViewMode(sourceView, originalMode); // Restore mode
-    }
 
-    /** Clear active highlight timer */
-    private clearActiveHighlight() {
-        if (this.activeHighlightTimeout) {
-            clearTimeout(this.activeHighlightTimeout);
-            this.activeHighlightTimeout = null;
+        const destructive = this.changes.deletedDefinitions.length > 0 || this.changes.removedReferences.length > 0;
+        const buttons = new Setting(contentEl)
+            .addButton(button => {
+                button.setButtonText('Apply').onClick(() => this.choose('apply'));
+                if (destructive) button.setWarning(); else button.setCta();
+            });
+        if (this.changes.removedReferences.length > 0) {
+            buttons.addButton(button => button
+                .setButtonText('Apply without reference deletion')
+                .setCta()
+                .onClick(() => this.choose('apply-keep-references')));
         }
+        buttons.addButton(button => button
+            .setButtonText('Cancel')
+            .onClick(() => this.choose('cancel')));
     }
 
-    /** Compare EditorPosition objects */
-    private arePositionsEqual(p1: EditorPosition, p2: EditorPosition): boolean {
-        return p1.line === p2.line && p1.ch === p2.ch;
+    private choose(action: SyncPreviewAction) {
+        const resolve = this.resolvePromise;
+        this.resolvePromise = null;
+        resolve?.({ action, dontAskForAdditions: this.dontAskForAdditions });
+        this.close();
     }
 
+    onClose() {
+        this.contentEl.empty();
+        this.resolvePromise?.({ action: 'cancel', dontAskForAdditions: false });
+        this.resolvePromise = null;
+    }
+}
 
-    // --- Batch Processing (From main.ts その2) ---
+// --- Batch Sync Modals ---
+/** Asks for the direction, scope and dry-run flag of a batch sync */
+class BatchSyncScopeModal extends Modal {
+    private options: BatchSyncOptions = { direction: 'S->C', folder: '', tag: '', modifiedSince: null, dryRun: false };
+    private modifiedWithinDays = '';
+    private resolvePromise: ((value: BatchSyncOptions | null) => void) | null = null;
+
+    /** Opens the modal. Resolves with the options, or null if cancelled. */
+    openAndWait(): Promise<BatchSyncOptions | null> {
+        return new Promise(resolve => {
+            this.resolvePromise = resolve;
+            this.open();
+        });
+    }
 
-    /** Sync S->C for all Source notes */
-    async processAllNotesSourceToCue(): Promise<void> {
-        const allMarkdownFiles = this.app.vault.getMarkdownFiles();
-        let processedCount = 0, skippedDerivedCount = 0, errorCount = 0;
-        const totalFiles = allMarkdownFiles.length;
-        const noticeHandle = new Notice(`Starting S->C sync for ${totalFiles} notes... 0%`, 0); // Indefinite notice
+    onOpen() {
+        const { contentEl } = this;
+        this.titleEl.setText('Cornell: Batch sync');
+        contentEl.createEl('p', {
+            text: 'Batch syncs never ask: notes with conflicting edits, or whose Source would lose definitions or references, are skipped and listed in the report.',
+            cls: 'setting-item-description'
+        });
 
-        try {
-            const sourceNotesToProcess = allMarkdownFiles.filter(f => this.isSourceNote(f.path));
-            const totalSourceNotes = sourceNotesToProcess.length;
-             skippedDerivedCount = totalFiles - totalSourceNotes;
-
-            for (let i = 0; i < totalSourceNotes; i++) {
-                const file = sourceNotesToProcess[i];
-                // Check if already syncing (shouldn't happen here ideally, but safety check)
-                if (this.isSyncing) {
-                    console.warn(`[Batch Sync S->C] Skipping ${file.path} due to ongoing sync.`);
-                    await sleep(INTERNAL_SETTINGS.syncDebounceTime); // Wait before trying next
-                    i--; // Retry this file
-                    continue;
-                }
-                try {
-                    // syncSourceToCue will handle cue note existence check/creation
-                    await this.syncSourceToCue(file);
-                    processedCount++;
-                } catch (e) {
-                    errorCount++;
-                    console.error(`[Batch Sync S->C] Error processing ${file.path}:`, e);
-                }
-                // Update progress notice periodically
-                if (processedCount % INTERNAL_SETTINGS.batchSyncUpdateInterval === 0 || i === totalSourceNotes - 1) {
-                    const percentage = Math.round(((i + 1) / totalSourceNotes) * 100);
-                    noticeHandle.setMessage(`Syncing S->C... ${percentage}% (${processedCount}/${totalSourceNotes} sources synced)`);
-                    await sleep(5); // Prevent UI freeze
-                }
+        new Setting(contentEl)
+            .setName('Direction')
+            .addDropdown(dropdown => dropdown
+                .addOption('S->C', 'Source -> Cue')
+                .addOption('C->S', 'Cue -> Source')
+                .setValue(this.options.direction)
+                .onChange(value => this.options.direction = value as BatchSyncOptions['direction']));
+        new Setting(contentEl)
+            .setName('Folder')
+            .setDesc('Only Source notes in this folder. Leave empty for the whole vault.')
+            .addText(text => text
+                .setPlaceholder('Lectures/2026')
+                .onChange(value => this.options.folder = value));
+        new Setting(contentEl)
+            .setName('Tag')
+            .setDesc('Only Source notes with this tag (nested tags included). Leave empty for all.')
+            .addText(text => text
+                .setPlaceholder('#lecture')
+                .onChange(value => this.options.tag = value));
+        new Setting(contentEl)
+            .setName('Modified in the last N days')
+            .setDesc('Only notes synced from (Source for S->C, Cue for C->S) modified since then. Leave empty for all.')
+            .addText(text => text
+                .setPlaceholder('7')
+                .onChange(value => this.modifiedWithinDays = value.trim()));
+        new Setting(contentEl)
+            .setName('Dry run')
+            .setDesc('Only report what would change. Nothing is written except the report note.')
+            .addToggle(toggle => toggle
+                .setValue(this.options.dryRun)
+                .onChange(value => this.options.dryRun = value));
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Start')
+                .setCta()
+                .onClick(() => this.start()))
+            .addButton(button => button
+                .setButtonText('Cancel')
+                .onClick(() => this.close()));
+    }
+
+    private start() {
+        if (this.modifiedWithinDays) {
+            const days = Number(this.modifiedWithinDays);
+            if (isNaN(days) || days <= 0) {
+                new Notice('Enter a positive number of days, or leave the field empty.');
+                return;
             }
-            const finalMessage = `Sync (S->C) Complete. Synced: ${processedCount}, Errors: ${errorCount}. Total Source Notes: ${totalSourceNotes}.`;
-            noticeHandle.setMessage(finalMessage);
-            console.log(finalMessage);
-            setTimeout(() => noticeHandle.hide(), 7000); // Hide after delay
-        } catch (e) {
-            console.error('[Batch Sync S->C] Fatal error during batch processing:', e);
-            noticeHandle.setMessage(`Fatal error after processing approx ${processedCount} source notes. Check console.`);
-            setTimeout(() => noticeHandle.hide(), 10000);
-        } finally {
-            // Save map after the whole batch operation
-            await this.saveData();
-            console.log("[Batch Sync S->C] NoteInfoMap saved after batch sync.");
+            this.options.modifiedSince = Date.now() - days * DAY_MS;
+        } else {
+            this.options.modifiedSince = null;
         }
+        const resolve = this.resolvePromise;
+        this.resolvePromise = null;
+        resolve?.(this.options);
+        this.close();
     }
 
+    onClose() {
+        this.contentEl.empty();
+        this.resolvePromise?.(null);
+        this.resolvePromise = null;
+    }
+}
 
-	// --- Custom Code Block Processor (From main.ts その2) ---
-    private cornellLinksCodeBlockProcessor = async (
-        source: string,
-        el: HTMLElement,
-        ctx: MarkdownPostProcessorContext
-    ) => {
-        const currentFilePath = ctx.sourcePath;
-        if (!this.isCueNote(currentFilePath)) {
-            el.empty();
-            return; // Only run in Cue notes
-        }
-        el.empty(); // Clear placeholder
+/** Shows the progress of a running batch sync. Closing it or pressing Cancel stops the batch after the notes in flight. */
+class BatchSyncProgressModal extends Modal {
+    cancelled = false;
+    private total: number;
+    private dryRun: boolean;
+    private progressEl: HTMLProgressElement | null = null;
+    private statusEl: HTMLElement | null = null;
+    private currentEl: HTMLElement | null = null;
+
+    constructor(app: App, total: number, dryRun: boolean) {
+        super(app);
+        this.total = total;
+        this.dryRun = dryRun;
+    }
 
-        try {
-            const cueFile = this.app.vault.getAbstractFileByPath(currentFilePath);
-            if (!(cueFile instanceof TFile)) throw new Error("Current file is not a valid TFile.");
-            const cueContent = await this.app.vault.cachedRead(cueFile);
-            const footnotesMap = this.parseFootnotesSimple(cueContent); // Get definitions from this Cue file
+    onOpen() {
+        const { contentEl } = this;
+        this.titleEl.setText(this.dryRun ? 'Cornell: Batch sync (dry run)' : 'Cornell: Batch sync');
+        contentEl.addClass('cornell-batch-sync-modal');
+        this.progressEl = contentEl.createEl('progress', { attr: { max: this.total, value: 0 } });
+        this.statusEl = contentEl.createEl('p', { text: `0 / ${this.total}` });
+        this.currentEl = contentEl.createEl('p', { cls: 'setting-item-description' });
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Cancel')
+                .setWarning()
+                .onClick(() => {
+                    this.cancelled = true;
+                    button.setButtonText('Cancelling...').setDisabled(true);
+                }));
+    }
 
-            if (footnotesMap.size === 0) {
-                el.setText("No footnote definitions found in this Cue note.");
-                return;
-            }
+    setCurrent(path: string) {
+        this.currentEl?.setText(path);
+    }
 
-            const sourceNoteFile = this.getSourceNoteFileFromDerived(currentFilePath);
-            if (!sourceNoteFile) {
-                el.createEl('div', { text: `Error: Corresponding Source note not found. Cannot create navigation links.`, cls: 'cornell-footnote-error' });
-                return;
-            }
+    update(report: BatchSyncReportEntry[]) {
+        if (this.progressEl) this.progressEl.value = report.length;
+        this.statusEl?.setText(`${report.length} / ${this.total}: ${summarizeBatchOutcomes(report)}`);
+    }
 
-            // Create container for buttons
-            const buttonContainer = el.createDiv({ cls: 'cornell-footnote-links-container' });
-            // Sort refs for consistent button order
-            const sortedRefs = Array.from(footnotesMap.keys()).sort((a, b) => a[0].localeCompare(b[0], undefined, { numeric: true, sensitivity: 'base' }));
+    onClose() {
+        this.cancelled = true;
+        this.contentEl.empty();
+    }
+}
 
-            // Create a button for each definition
-            for (const footnoteRef of sortedRefs) {
-                const button = buttonContainer.createEl('button', {
-                    text: `[^${footnoteRef}]`, // Display the reference name
-                    cls: 'cornell-footnote-link-button'
-                });
-                // Add tooltip with definition preview and action hints
-                const definitionPreview = (footnotesMap.get(footnoteRef) || "").substring(0, 100) + ( (footnotesMap.get(footnoteRef) || "").length > 100 ? "..." : "");
-                button.setAttribute('title', `[^${footnoteRef}]: ${definitionPreview}\nClick: Navigate to first reference in Source\nCtrl/Cmd+Click: Highlight first reference in Source`);
+// --- Integrity Check Modal ---
+/** Lists the integrity issues of the vault by kind, each with a one-click fix */
+class IntegrityCheckModal extends Modal {
+    private plugin: CornellPlugin;
 
-                // Register click event listener for the button
-                this.registerDomEvent(button, 'click', async (event: MouseEvent) => {
-                    event.preventDefault();
-                    event.stopPropagation();
-                    const isModifierPressed = event.ctrlKey || event.metaKey;
+    constructor(app: App, plugin: CornellPlugin) {
+        super(app);
+        this.plugin = plugin;
+    }
 
-                    if (footnoteRef) {
-                        if (isModifierPressed && this.settings.enableModifierClickHighlight) {
-                            // Highlight on Ctrl/Cmd + Click
-                            try { await this.highlightFirstSourceReference(footnoteRef, currentFilePath); }
-                            catch (e) { console.error(`[LinksCodeBlock] Error highlighting [^${footnoteRef}]:`, e); new Notice(`Error highlighting reference [^${footnoteRef}].`); }
-                        } else if (this.settings.enableCueNoteNavigation) {
-                            // Navigate on simple Click
-                            try { await this.navigateToSourceReference(footnoteRef, currentFilePath); }
-                            catch (e) { console.error(`[LinksCodeBlock] Error navigating to [^${footnoteRef}]:`, e); new Notice(`Error navigating to reference [^${footnoteRef}].`); }
-                        } else {
-                            // Provide feedback if navigation is disabled
-                            if (!isModifierPressed) new Notice("Click navigation is disabled in settings.");
-                        }
-                    }
+    onOpen() {
+        this.titleEl.setText('Cornell: Integrity check');
+        this.contentEl.addClass('cornell-integrity-modal');
+        void this.scan();
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    private async scan() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('p', { text: 'Scanning Cornell notes...' });
+        const issues = await this.plugin.checkCornellIntegrity();
+        contentEl.empty();
+
+        new Setting(contentEl)
+            .setName(issues.length === 0 ? 'No issues found.' : `${issues.length} issue(s) found.`)
+            .addButton(button => button
+                .setButtonText('Rescan')
+                .onClick(() => void this.scan()));
+
+        (Object.keys(INTEGRITY_ISSUE_LABELS) as IntegrityIssueKind[]).forEach(kind => {
+            const ofKind = issues.filter(issue => issue.kind === kind);
+            if (ofKind.length === 0) return;
+            contentEl.createEl('h4', { text: `${INTEGRITY_ISSUE_LABELS[kind]} (${ofKind.length})` });
+            ofKind.forEach(issue => {
+                new Setting(contentEl)
+                    .setName(issue.path)
+                    .setDesc(issue.description)
+                    .addButton(button => button
+                        .setButtonText(issue.fixLabel)
+                        .onClick(async () => {
+                            button.setDisabled(true);
+                            try {
+                                await issue.fix();
+                                new Notice(`Fixed: ${issue.path}`);
+                            } catch (error) {
+                                console.error(`[Integrity] Fix failed for ${issue.path}:`, error);
+                                new Notice(`Could not fix ${issue.path}. See console.`);
+                            }
+                            await this.scan();
+                        }));
+            });
+        });
+    }
+}
+
+// --- Sync History Modal ---
+/** Lists journaled sync writes, newest first, and restores the before-state of a chosen one */
+class SyncHistoryModal extends Modal {
+    private plugin: CornellPlugin;
+
+    constructor(app: App, plugin: CornellPlugin) {
+        super(app);
+        this.plugin = plugin;
+    }
+
+    onOpen() {
+        this.titleEl.setText('Cornell: Sync history');
+        this.contentEl.addClass('cornell-sync-history-modal');
+        void this.render();
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    private async render() {
+        const { contentEl } = this;
+        contentEl.empty();
+        const entries = this.plugin.getSyncJournal().slice().reverse();
+        if (entries.length === 0) {
+            contentEl.createEl('p', { text: 'No journaled syncs.' });
+            return;
+        }
+        contentEl.createEl('p', { text: 'Restoring an entry puts the file back to its content before that write.', cls: 'setting-item-description' });
+        for (const entry of entries) {
+            const current = await this.plugin.isSyncEntryCurrent(entry);
+            const setting = new Setting(contentEl)
+                .setName(entry.path)
+                .setDesc(`${new Date(entry.timestamp).toLocaleString()} · ${SYNC_TRIGGER_LABELS[entry.trigger]}${current ? '' : ' · changed since'}`)
+                .addButton(button => {
+                    button.setButtonText(current ? 'Restore' : 'Restore anyway').onClick(async () => {
+                        button.setDisabled(true);
+                        if (await this.plugin.restoreSyncEntry(entry)) new Notice(`Restored ${entry.path}.`);
+                        await this.render();
+                    });
+                    if (!current) button.setWarning();
                 });
-            }
-        } catch (error) {
-            console.error(`[LinksCodeBlock] Error processing footnote links for ${currentFilePath}:`, error);
-            el.createEl('div', { text: 'Error rendering footnote links. Check console.', cls: 'cornell-footnote-error' });
+            if (!current) setting.settingEl.addClass('cornell-sync-entry-changed');
         }
     }
+}
 
-} // --- End of Plugin Class ---
+// --- Derived Notes Delete Modal ---
+/** Asks what to do with the Cue/Summary notes of deleted Source notes (one answer for all of them) */
+class DerivedNotesDeleteModal extends Modal {
+    private deletions: DeletedSourceNotes[];
+    private resolvePromise: ((value: DerivedNotesDeleteAction) => void) | null = null;
+
+    constructor(app: App, deletions: DeletedSourceNotes[]) {
+        super(app);
+        this.deletions = deletions;
+    }
+
+    /** Opens the modal. Resolves with the chosen action ('keep' if dismissed). */
+    openAndWait(): Promise<DerivedNotesDeleteAction> {
+        return new Promise(resolve => {
+            this.resolvePromise = resolve;
+            this.open();
+        });
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        if (this.deletions.length === 1) {
+            this.titleEl.setText(`Cornell: ${this.deletions[0].sourceName} was deleted`);
+            contentEl.createEl('p', { text: 'What should happen to its Cornell notes?' });
+            const list = contentEl.createEl('ul');
+            this.deletions[0].files.forEach(file => list.createEl('li', { text: file.path }));
+        } else {
+            this.titleEl.setText(`Cornell: ${this.deletions.length} Source notes were deleted`);
+            contentEl.createEl('p', { text: 'What should happen to their Cornell notes?' });
+            const list = contentEl.createEl('ul');
+            this.deletions.forEach(deletion => {
+                const item = list.createEl('li', { text: deletion.sourceName });
+                const files = item.createEl('ul');
+                deletion.files.forEach(file => files.createEl('li', { text: file.path }));
+            });
+        }
+
+        const choose = (action: DerivedNotesDeleteAction) => {
+            const resolve = this.resolvePromise;
+            this.resolvePromise = null;
+            resolve?.(action);
+            this.close();
+        };
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Delete')
+                .setWarning()
+                .onClick(() => choose('delete')))
+            .addButton(button => button
+                .setButtonText('Archive')
+                .onClick(() => choose('archive')))
+            .addButton(button => button
+                .setButtonText('Keep')
+                .onClick(() => choose('keep')));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+        this.resolvePromise?.('keep');
+        this.resolvePromise = null;
+    }
+}
 
 
 // --- Settings Tab Class (Combined) ---
@@ -2516,23 +7184,56 @@ class CornellSettingTab extends PluginSettingTab {
 				.setPlaceholder('e.g., 25:50:25')
 				.setValue(Object.values(this.plugin.settings.paneWidthRatio).join(':'))
 				.onChange(async (value) => {
-					const parts = value.split(':').map(p => parseInt(p.trim(), 10));
-					if (parts.length === 3 && parts.every(p => !isNaN(p) && p >= 0 && p <= 100) && parts.reduce((a,b) => a+b, 0) > 0 ) {
-						const newRatio = { left: parts[0], center: parts[1], right: parts[2] };
+					const newRatio = parseWidthRatio(value);
+					if (newRatio) {
                         if (JSON.stringify(newRatio) !== JSON.stringify(this.plugin.settings.paneWidthRatio)) {
                             this.plugin.settings.paneWidthRatio = newRatio;
 						    await this.plugin.saveSettings();
                             new Notice("Pane width ratio saved. Applied on next 2-pane mode activation.");
-                            // Trigger a re-application if a Cornell mode is currently active (excluding show-all)
-                            if (this.plugin.hasActiveSourceFile() && this.plugin.settings.lastMode !== 'show-all') {
-                                this.plugin.adjustPaneWidths();
-                            }
+                            // Re-apply to the active layout (modes with their own or learned ratio keep it)
+                            this.plugin.refreshPaneWidths();
                         }
 					} else {
 						new Notice("Invalid format. Use three non-negative numbers separated by colons (e.g., 25:50:25). Sum must be > 0.");
 					}
 				}));
 
+		new Setting(containerEl)
+			.setName('Remember manually resized pane widths')
+			.setDesc('When you drag the borders between the Cornell panes, the widths are remembered for that mode and restored on its next activation. They take precedence over the ratio above.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.rememberPaneWidths)
+				.onChange(async (value) => {
+					this.plugin.settings.rememberPaneWidths = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Remember pane widths per note')
+			.setDesc('Store remembered widths separately for each Source note instead of once per mode.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.paneWidthsPerNote)
+				.onChange(async (value) => {
+					this.plugin.settings.paneWidthsPerNote = value;
+					await this.plugin.saveSettings();
+				}))
+			.addButton(button => button
+				.setButtonText('Reset remembered widths')
+				.onClick(async () => {
+					await this.plugin.resetLearnedPaneWidths();
+					new Notice("Remembered pane widths cleared.");
+				}));
+
+		new Setting(containerEl)
+			.setName('Follow mode')
+			.setDesc('When another Source note is opened in the Source pane of a Cornell layout, the Cue and Summary panes switch to that note. The mode and pane widths are kept.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.followMode)
+				.onChange(async (value) => {
+					this.plugin.settings.followMode = value;
+					await this.plugin.saveSettings();
+				}));
+
 		new Setting(containerEl)
 			.setName('Enforce read-only Cue pane (Preview Mode)')
 			.setDesc('Automatically keep the Cue (left) pane in Preview mode. Prevents accidental edits.')
@@ -2542,12 +7243,30 @@ class CornellSettingTab extends PluginSettingTab {
 					this.plugin.settings.enforceCuePreview = value;
 					await this.plugin.saveSettings();
                     // If currently in a mode with Cue pane, enforce immediately
-                    const leftLeaf = this.plugin.activeCornellLeaves.left;
-                    if (value && leftLeaf?.view instanceof MarkdownView) {
-                        this.plugin.setMarkdownViewMode(leftLeaf.view, 'preview');
-                    }
+                    this.plugin.getSessions().forEach(session => {
+                        const leftLeaf = session.leaves.left;
+                        if (this.plugin.isCuePreviewEnforced(session) && leftLeaf?.view instanceof MarkdownView) {
+                            this.plugin.setMarkdownViewMode(leftLeaf.view, 'preview');
+                        }
+                    });
 				}));
 
+        // --- Custom Modes ---
+        containerEl.createEl('h3', { text: 'Custom Modes' });
+        containerEl.createEl('p', { text: 'Define your own pane combinations next to Capture, Recall, Review and Show All. Each mode gets a command "Cornell: Activate <name> Mode" that can be bound to a hotkey. Renamed or deleted modes update their command after the plugin reloads.', cls: 'setting-item-description' });
+        this.plugin.settings.customModes.forEach(mode => this.displayCustomMode(containerEl, mode));
+        new Setting(containerEl)
+            .addButton(button => button
+                .setButtonText('Add mode')
+                .setCta()
+                .onClick(async () => {
+                    const mode = createCustomMode(`Custom ${this.plugin.settings.customModes.length + 1}`);
+                    this.plugin.settings.customModes.push(mode);
+                    await this.plugin.saveSettings();
+                    this.plugin.registerCustomModeCommand(mode);
+                    this.display();
+                }));
+
         // --- Cue Generation Settings (From main.ts その1) ---
         containerEl.createEl('h3', { text: 'Cue Generation (Alt+C)' });
         new Setting(containerEl)
@@ -2565,6 +7284,31 @@ class CornellSettingTab extends PluginSettingTab {
 					}
 					await this.plugin.saveSettings();
 				}));
+        new Setting(containerEl)
+            .setName('Default Cue Style')
+            .setDesc('Form of cues created with "Generate Cue from Selection". Question/Answer asks for a question and keeps the selection as the answer, Term/Definition splits "term: text" or "**term** – text", Keyword stores only the selection. Each style also has its own command.')
+            .addDropdown(dropdown => {
+                (Object.keys(CUE_STYLE_LABELS) as CueStyle[]).forEach(style => dropdown.addOption(style, CUE_STYLE_LABELS[style]));
+                dropdown
+                    .setValue(this.plugin.settings.cueStyle)
+                    .onChange(async (value) => {
+                        this.plugin.settings.cueStyle = value as CueStyle;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Quick Capture Position')
+            .setDesc('Where "Quick Capture Cue" inserts the reference in the Source note. Run from the Cue pane, it uses the cursor of the Source pane last edited.')
+            .addDropdown(dropdown => dropdown
+                .addOption('cursor', 'At the cursor')
+                .addOption('line-end', 'End of the current line')
+                .addOption('paragraph-end', 'End of the current paragraph')
+                .setValue(this.plugin.settings.quickCueAttachAt)
+                .onChange(async (value) => {
+                    this.plugin.settings.quickCueAttachAt = value as QuickCueAttachPosition;
+                    await this.plugin.saveSettings();
+                }));
 
         // --- Synchronization Settings (From main.ts その2) ---
         containerEl.createEl('h3', { text: 'Synchronization (Source <-> Cue)' });
@@ -2620,6 +7364,16 @@ class CornellSettingTab extends PluginSettingTab {
                     new Notice(value ? 'Auto Definition Deletion (S->C) Enabled.' : 'Auto Definition Deletion (S->C) Disabled.');
                 }));
 
+        new Setting(containerEl)
+            .setName('Preview Additions-only Manual Syncs (C->S)')
+            .setDesc('Show the change preview for manual C->S syncs that only add definitions. Syncs that delete definitions or references are always previewed.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.confirmAdditionsOnlySync)
+                .onChange(async (value) => {
+                    this.plugin.settings.confirmAdditionsOnlySync = value;
+                    await this.plugin.saveSettings();
+                }));
+
         // Footnote positioning setting
         new Setting(containerEl)
             .setName('Move Footnotes to End of Source Note (on C->S Sync)')
@@ -2632,6 +7386,115 @@ class CornellSettingTab extends PluginSettingTab {
                     new Notice(value ? 'Footnote moving to end (C->S Sync) Enabled.' : 'Footnote moving to end (C->S Sync) Disabled.');
                 }));
 
+        // --- File Management Settings ---
+        containerEl.createEl('h3', { text: 'File Management' });
+        containerEl.createEl('p', {
+            text: 'Renaming or moving a Source note always moves its Cue and Summary notes along and updates their links.',
+            cls: 'setting-item-description'
+        });
+
+        new Setting(containerEl)
+            .setName('Default Storage Mode')
+            .setDesc(`Separate: Cue and Summary notes are own files. Single file: the note keeps ## CUE / ## MAIN / ## SUMMARY sections and all panes show it. Override per note with "${INTERNAL_SETTINGS.storageModeFrontmatterKey}: single-file" (or "separate") in the frontmatter.`)
+            .addDropdown(dropdown => dropdown
+                .addOption('separate', 'Separate Cue/Summary notes')
+                .addOption('single-file', 'Single file with sections')
+                .setValue(this.plugin.settings.storageMode)
+                .onChange(async (value) => {
+                    this.plugin.settings.storageMode = value as CornellStorageMode;
+                    await this.plugin.saveSettings();
+                }));
+
+        let pendingCueTemplate = this.plugin.settings.cueNotePathTemplate;
+        let pendingSummaryTemplate = this.plugin.settings.summaryNotePathTemplate;
+        new Setting(containerEl)
+            .setName('Cue Note Path Template')
+            .setDesc('Where Cue notes live. {{folder}} = folder of the Source note, {{basename}} = its name. E.g. Cornell/{{folder}}/{{basename}}.cue.md')
+            .addText(text => text
+                .setPlaceholder(DEFAULT_SETTINGS.cueNotePathTemplate)
+                .setValue(pendingCueTemplate)
+                .onChange(value => { pendingCueTemplate = value.trim() || DEFAULT_SETTINGS.cueNotePathTemplate; }));
+
+        new Setting(containerEl)
+            .setName('Summary Note Path Template')
+            .setDesc('Where Summary notes live. Same variables as above. E.g. {{folder}}/_cornell/{{basename}}-summary.md')
+            .addText(text => text
+                .setPlaceholder(DEFAULT_SETTINGS.summaryNotePathTemplate)
+                .setValue(pendingSummaryTemplate)
+                .onChange(value => { pendingSummaryTemplate = value.trim() || DEFAULT_SETTINGS.summaryNotePathTemplate; }));
+
+        new Setting(containerEl)
+            .setName('Apply Path Templates')
+            .setDesc('Save the templates above and move existing Cue/Summary notes to the new location.')
+            .addButton(button => button
+                .setButtonText('Apply and move notes')
+                .onClick(async () => {
+                    if (await this.plugin.applyNotePathTemplates(pendingCueTemplate, pendingSummaryTemplate)) {
+                        this.display();
+                    }
+                }));
+
+        new Setting(containerEl)
+            .setName('When a Source note is deleted')
+            .setDesc('What to do with its Cue and Summary notes.')
+            .addDropdown(dropdown => dropdown
+                .addOption('ask', 'Ask every time')
+                .addOption('delete', 'Delete them')
+                .addOption('archive', 'Move them to the archive folder')
+                .addOption('keep', 'Keep them')
+                .setValue(this.plugin.settings.derivedNotesOnSourceDelete)
+                .onChange(async (value) => {
+                    this.plugin.settings.derivedNotesOnSourceDelete = value as CornellPluginSettings['derivedNotesOnSourceDelete'];
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Archive Folder')
+            .setDesc('Folder that receives the Cue and Summary notes of deleted Source notes when archiving.')
+            .addText(text => text
+                .setPlaceholder(DEFAULT_SETTINGS.archiveFolder)
+                .setValue(this.plugin.settings.archiveFolder)
+                .onChange(async (value) => {
+                    this.plugin.settings.archiveFolder = value.trim() || DEFAULT_SETTINGS.archiveFolder;
+                    await this.plugin.saveSettings();
+                }));
+
+        // --- Export Settings ---
+        containerEl.createEl('h3', { text: 'Export' });
+        new Setting(containerEl)
+            .setName('Export Folder')
+            .setDesc('Folder for exported files. Leave empty to save them next to the Source note. Cornell pages exported here get the Source folder in their name, e.g. "Note (Lectures - Week 1).cornell.html".')
+            .addText(text => text
+                .setPlaceholder('(next to the Source note)')
+                .setValue(this.plugin.settings.exportFolder)
+                .onChange(async (value) => {
+                    this.plugin.settings.exportFolder = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('HTML Page Size')
+            .setDesc('Paper size used when printing an exported Cornell page.')
+            .addDropdown(dropdown => dropdown
+                .addOption('A4', 'A4')
+                .addOption('Letter', 'Letter')
+                .setValue(this.plugin.settings.exportPageSize)
+                .onChange(async (value) => {
+                    this.plugin.settings.exportPageSize = value as CornellPluginSettings['exportPageSize'];
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Anki Card Front Template')
+            .setDesc(`Front side of exported Anki cards for free-form cues. {{sentence}} = Source sentence with the reference, {{ref}} = reference name, {{note}} = Source note name. Question/Answer, Term/Definition and Keyword cues use their question, term or keyword instead. Cards are written to ${INTERNAL_SETTINGS.ankiExportFileName} in the export folder (vault root if empty).`)
+            .addText(text => text
+                .setPlaceholder(DEFAULT_SETTINGS.ankiFrontTemplate)
+                .setValue(this.plugin.settings.ankiFrontTemplate)
+                .onChange(async (value) => {
+                    this.plugin.settings.ankiFrontTemplate = value.trim() || DEFAULT_SETTINGS.ankiFrontTemplate;
+                    await this.plugin.saveSettings();
+                }));
+
         // --- Cue Note Interaction Settings (From main.ts その2) ---
         containerEl.createEl('h3', { text: 'Cue Note Interaction (Link Buttons)' });
         containerEl.createEl('p', {
@@ -2709,12 +7572,29 @@ class CornellSettingTab extends PluginSettingTab {
 			createHotkeySetting('Activate Recall Mode (Alt+2)', `${pluginId}:cornell-recall-mode`);
 			createHotkeySetting('Activate Review Mode (Alt+3)', `${pluginId}:cornell-review-mode`);
             createHotkeySetting('Activate Show All Mode (Alt+4)', `${pluginId}:cornell-show-all-mode`); // New Command
+            createHotkeySetting('Move Layout to Popout Window (or Back)', `${pluginId}:toggle-cornell-popout`);
+            createHotkeySetting('Toggle Follow Mode', `${pluginId}:toggle-cornell-follow-mode`);
 			createHotkeySetting('Generate Cue from Selection (Alt+C)', `${pluginId}:cornell-generate-cue`);
+            createHotkeySetting('Quick Capture Cue (Alt+Shift+C)', `${pluginId}:quick-capture-cue`);
+            createHotkeySetting('Suggest Cues from Source Note', `${pluginId}:suggest-cues`);
+            (Object.keys(CUE_STYLE_LABELS) as CueStyle[]).forEach(style => createHotkeySetting(`Generate ${CUE_STYLE_LABELS[style]} Cue from Selection`, `${pluginId}:cornell-generate-cue-${style}`));
             createHotkeySetting('Arrange Cornell Notes View', `${pluginId}:arrange-cornell-notes`);
             createHotkeySetting('Manual Sync: Source -> Cue', `${pluginId}:sync-source-to-cue-manually`);
             createHotkeySetting('Manual Sync: Cue -> Source', `${pluginId}:sync-cue-to-source-manually`);
             createHotkeySetting('Sync All Notes (Source -> Cue)', `${pluginId}:sync-all-notes-source-to-cue`);
+            createHotkeySetting('Batch Sync...', `${pluginId}:batch-sync-cornell-notes`);
+            createHotkeySetting('Revert Last Sync', `${pluginId}:revert-last-cornell-sync`);
+            createHotkeySetting('Show Sync History', `${pluginId}:show-cornell-sync-history`);
+            createHotkeySetting('Renumber Cues in Reading Order', `${pluginId}:renumber-cues`);
+            createHotkeySetting('Check Integrity', `${pluginId}:check-cornell-integrity`);
+            createHotkeySetting('Move Cue/Summary Notes to Configured Location', `${pluginId}:migrate-cornell-note-locations`);
             createHotkeySetting('Highlight First Reference in Source (from Cue)', `${pluginId}:highlight-first-source-reference`);
+            createHotkeySetting('Review Due Cues', `${pluginId}:review-due-cues`);
+            createHotkeySetting('Export Cornell Page as HTML', `${pluginId}:export-cornell-page-html`);
+            createHotkeySetting('Export Cues to Anki (Current Note)', `${pluginId}:export-cues-to-anki-note`);
+            createHotkeySetting('Export Cues to Anki (Current Folder)', `${pluginId}:export-cues-to-anki-folder`);
+            createHotkeySetting('Export Cues to Anki (Whole Vault)', `${pluginId}:export-cues-to-anki-vault`);
+            this.plugin.settings.customModes.forEach(mode => createHotkeySetting(`Activate ${mode.name} Mode`, `${pluginId}:cornell-mode-${mode.id}`));
 		} else {
 			console.error("Cornell Plugin: Cannot create hotkey settings - plugin ID missing.");
 			containerEl.createEl('p', { text: 'Error: Could not generate hotkey copy buttons (plugin ID missing).', cls: 'setting-item-description mod-warning' });
@@ -2723,10 +7603,94 @@ class CornellSettingTab extends PluginSettingTab {
         // --- Internal Settings Info ---
         containerEl.createEl('h3', { text: 'Internal Configuration (Read-Only)' });
         const internalList = containerEl.createEl('ul');
-        internalList.createEl('li', { text: `Cue Note Suffix: ${INTERNAL_SETTINGS.cueNoteSuffix}.md`});
-        internalList.createEl('li', { text: `Summary Note Suffix: ${INTERNAL_SETTINGS.summaryNoteSuffix}.md`});
-        internalList.createEl('li', { text: `Note Location: Cue/Summary created in same folder as Source.`});
         internalList.createEl('li', { text: `Cue Interaction Code Block ID: ${INTERNAL_SETTINGS.codeBlockProcessorId}`});
         internalList.createEl('li', { text: `Sync Debounce Time: ${INTERNAL_SETTINGS.syncDebounceTime}ms`});
 	}
+
+    /** Renders the settings of one user-defined mode */
+    private displayCustomMode(containerEl: HTMLElement, mode: CornellModeDefinition): void {
+        const paneLabels: { [key in LeafPosition]: string } = { left: 'Cue', center: 'Source', right: 'Summary' };
+        const positions: LeafPosition[] = ['left', 'center', 'right'];
+
+        new Setting(containerEl)
+            .setName(`Mode: ${mode.name}`)
+            .setDesc(`Command ID: cornell-mode-${mode.id}`)
+            .addText(text => text
+                .setPlaceholder('Mode name')
+                .setValue(mode.name)
+                .onChange(async (value) => {
+                    if (!value.trim()) return;
+                    mode.name = value.trim();
+                    await this.plugin.saveSettings();
+                }))
+            .addExtraButton(button => button
+                .setIcon('trash')
+                .setTooltip('Delete mode')
+                .onClick(async () => {
+                    this.plugin.settings.customModes = this.plugin.settings.customModes.filter(m => m !== mode);
+                    delete this.plugin.settings.modeWidthRatios[mode.id];
+                    this.plugin.settings.openSessions = this.plugin.settings.openSessions.filter(open => open.mode !== mode.id);
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+        const panesSetting = new Setting(containerEl)
+            .setName('Panes')
+            .setDesc('Cue / Source / Summary: hidden, shown in Preview, or shown for editing. Editing the Cue pane overrides "Enforce read-only Cue pane".');
+        positions.forEach(pos => {
+            panesSetting.addDropdown(dropdown => dropdown
+                .addOption('hidden', `${paneLabels[pos]}: hidden`)
+                .addOption('preview', `${paneLabels[pos]}: preview`)
+                .addOption('source', `${paneLabels[pos]}: edit`)
+                .setValue(mode.panes[pos] ?? 'hidden')
+                .onChange(async (value) => {
+                    const previous = mode.panes[pos];
+                    if (value === 'hidden') delete mode.panes[pos];
+                    else mode.panes[pos] = value as 'source' | 'preview';
+                    if (!positions.some(p => mode.panes[p])) {
+                        new Notice("A mode needs at least one visible pane.");
+                        mode.panes[pos] = previous;
+                        dropdown.setValue(previous ?? 'hidden');
+                        return;
+                    }
+                    await this.plugin.saveSettings();
+                }));
+        });
+
+        new Setting(containerEl)
+            .setName('Focus and width ratio')
+            .setDesc('Pane focused after activation, and a Cue:Source:Summary width ratio (leave empty to use the Pane Width Ratio above).')
+            .addDropdown(dropdown => {
+                positions.forEach(pos => dropdown.addOption(pos, `Focus ${paneLabels[pos]}`));
+                dropdown
+                    .setValue(mode.focus)
+                    .onChange(async (value) => {
+                        mode.focus = value as LeafPosition;
+                        await this.plugin.saveSettings();
+                    });
+            })
+            .addText(text => text
+                .setPlaceholder(Object.values(this.plugin.settings.paneWidthRatio).join(':'))
+                .setValue(mode.widthRatio ? Object.values(mode.widthRatio).join(':') : '')
+                .onChange(async (value) => {
+                    if (value.trim() === '') {
+                        mode.widthRatio = null;
+                    } else {
+                        const ratio = parseWidthRatio(value);
+                        if (!ratio) return; // Keep the last valid ratio while typing
+                        mode.widthRatio = ratio;
+                    }
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Open in popout window')
+            .setDesc('Build this mode\'s layout in a separate window, e.g. for a second monitor.')
+            .addToggle(toggle => toggle
+                .setValue(mode.popout ?? false)
+                .onChange(async (value) => {
+                    mode.popout = value;
+                    await this.plugin.saveSettings();
+                }));
+    }
 }
\ No newline at end of file